@@ -4,16 +4,28 @@ import { existsSync } from 'fs';
 import { formatUnits } from 'ethers';
 import { ExchangeClient } from '../src/exchange/ExchangeClient';
 import { InventoryTracker, Venue } from '../src/inventory/tracker';
+import { ArbRecord, PnLEngine, TradeLeg } from '../src/inventory/pnl';
 import { FeeStructure } from '../src/strategy/fees';
+import { FeeProvider } from '../src/strategy/feeProvider';
 import { GeneratorConfig, SignalGenerator } from '../src/strategy/generator';
-import { ScorerConfig, SignalScorer } from '../src/strategy/scorer';
-import { ExecutionContext, Executor, ExecutorConfig, ExecutorState } from '../src/executor/engine';
+import { ExecutionOutcome, ScorerConfig, SignalScorer } from '../src/strategy/scorer';
+import {
+    ExecutionContext,
+    Executor,
+    ExecutorConfig,
+    ExecutorState,
+    legSubmitted,
+    realizedPnl,
+} from '../src/executor/engine';
+import { DexSwapper } from '../src/executor/dexSwap';
+import { BundleSubmitter } from '../src/executor/flashbots';
+import { SwapParamsBuilder, SwapParamsConfig } from '../src/pricing/SwapParamsBuilder';
 import { ChainClient } from '../src/chain/ChainClient';
 import { PricingEngine } from '../src/pricing/PricingEngine';
 import { BINANCE_CONFIG, Config } from '../src/config';
 import { Address } from '../src/core/types/Address';
 import { Direction, Signal } from '../src/strategy/signal';
-import { RiskLimits, RiskManager } from '../src/strategy/riskManager';
+import { RiskLimits, RiskManager, RiskManagerConfig } from '../src/strategy/riskManager';
 import { PreTradeValidator } from '../src/strategy/preTradeValidator';
 import { getLogger } from '../src/logger';
 import { TelegramAlert } from '../src/core/TelegramAlert';
@@ -26,7 +38,8 @@ type BotConfig = {
     binanceApiKey: string;
     binanceSecret: string;
     pairs?: string[];
-    tradeSize: number;
+    // Fixed signal size; when unset the generator solves for the most profitable size.
+    tradeSize?: number;
     wsURL: string;
     rpcURL: string;
     dryRun: boolean;
@@ -34,9 +47,13 @@ type BotConfig = {
     debug?: boolean;
     poolAddresses: string[];
     signalConfig?: GeneratorConfig;
+    // Cycle mode: each tick also prices anchor>base>...>anchor cycles across both
+    // venues and runs the best one. Every base needs a <base>/<anchor> book.
+    cycles?: { anchor: string; bases: string[] };
     scorerConfig?: ScorerConfig;
     executorConfig?: ExecutorConfig;
-    riskManagerConfig: {
+    swapConfig?: SwapParamsConfig;
+    riskManagerConfig: RiskManagerConfig & {
         riskLimits: Partial<RiskLimits>;
         initialCapital: number;
     };
@@ -73,9 +90,10 @@ class ArbBot {
     private readonly tradeSize: number;
     private readonly debugMode: boolean;
     private readonly telegramAlert: TelegramAlert;
+    private readonly pnl = new PnLEngine();
     private running: boolean;
 
-    private lastHourlyResetAt = Date.now();
+    private trippedBreakers = new Set<string>();
 
     constructor(private readonly config: BotConfig) {
         const apiConfig = {
@@ -89,6 +107,14 @@ class ArbBot {
         this.riskManager = new RiskManager(
             new RiskLimits(this.config.riskManagerConfig.riskLimits),
             this.config.riskManagerConfig.initialCapital,
+            {
+                statePath:
+                    this.config.riskManagerConfig.statePath ??
+                    process.env.RISK_STATE ??
+                    'logs/risk-state.json',
+                timeZone:
+                    this.config.riskManagerConfig.timeZone ?? process.env.RISK_TIMEZONE ?? 'UTC',
+            },
         );
         this.preTradeValidator = new PreTradeValidator();
 
@@ -106,20 +132,57 @@ class ArbBot {
         );
 
         this.chain = new ChainClient([config.rpcURL], 30, 3, false);
-        this.pricing = new PricingEngine(this.chain, 'http://localhost:8545', config.wsURL);
+        const swapParams = new SwapParamsBuilder(config.swapConfig);
+        this.pricing = new PricingEngine(
+            this.chain,
+            'http://localhost:8545',
+            config.wsURL,
+            swapParams,
+        );
+        const feeProvider = new FeeProvider(this.exchange, this.chain, this.pricing, this.fees);
         this.generator = new SignalGenerator(
             this.exchange,
             this.pricing,
             this.inventory,
             this.fees,
             config.signalConfig ?? {},
+            this.riskManager,
+            feeProvider,
         );
 
         this.scorer = new SignalScorer(config.scorerConfig);
 
-        this.executor = new Executor(this.exchange, this.pricing, this.inventory, {
-            simulationMode: config.simulation ?? true,
-        });
+        const bundleSubmitter = Config.FLASHBOTS_RELAY_URL
+            ? new BundleSubmitter(
+                  Config.FLASHBOTS_RELAY_URL,
+                  process.env.FLASHBOTS_AUTH_KEY
+                      ? WalletManager.fromEnv('FLASHBOTS_AUTH_KEY')
+                      : this.wallet,
+                  this.chain,
+              )
+            : null;
+
+        this.executor = new Executor(
+            this.exchange,
+            this.pricing,
+            this.inventory,
+            {
+                simulationMode: config.simulation ?? true,
+                // DEX-first legs need a private relay; without one the CEX leg goes first.
+                useFlashbots: bundleSubmitter !== null,
+                maxOpenPositions: this.riskManager.limits.maxOpenPositions,
+                journalPath: process.env.EXECUTION_JOURNAL ?? 'logs/execution-journal.jsonl',
+                breakerStatePath: process.env.BREAKER_STATE ?? 'logs/circuit-breakers.json',
+                replayStatePath: process.env.REPLAY_STATE ?? 'logs/replay-protection.json',
+                dexLeg: { tokens: this.generator.tokens(), ethUsd: feeProvider },
+                ...config.executorConfig,
+            },
+            new DexSwapper(this.chain, this.wallet),
+            bundleSubmitter,
+            swapParams,
+        );
+
+        this.subscribeToExecutor();
 
         this.pairs = config.pairs ?? ['ETH/USDT'];
         this.tradeSize = config.tradeSize ?? 0.1;
@@ -143,6 +206,14 @@ class ArbBot {
             Address.fromString(address),
         );
         await this.pricing.loadPools(poolAddresses);
+
+        debug(this.debugMode, 'init: executor.recover()');
+        const recovered = await this.executor.recover();
+        for (const ctx of recovered) {
+            logger.warn(
+                `RECOVERED ${ctx.signal.signalId}: ${ExecutorState[ctx.state]} ${ctx.error ?? ''}`,
+            );
+        }
         debug(this.debugMode, 'init: syncBalances()');
 
         if (this.config.simulation ?? true) {
@@ -166,6 +237,7 @@ class ArbBot {
         logger.info(`Kill switch file: ${killSwitchFile}`);
         debug(this.debugMode, 'run: initial syncBalances()');
         await this.syncBalances();
+        this.riskManager.setInventoryTargets(this.inventory);
 
         while (this.running) {
             try {
@@ -176,7 +248,7 @@ class ArbBot {
                     break;
                 }
 
-                this.maybeResetHourly();
+                this.maybeRollover();
 
                 debug(this.debugMode, 'run: tick start');
                 await this.tick();
@@ -191,6 +263,10 @@ class ArbBot {
             }
         }
 
+        const summary = this.pnl.summary();
+        logger.info(
+            `Session PnL: trades=${summary.totalTrades} net=$${summary.totalPnlUsd.toFixed(2)} winRate=${summary.winRate.toFixed(1)}%`,
+        );
         this.telegramAlert.send('Bot was stopped!');
     }
 
@@ -200,151 +276,351 @@ class ArbBot {
 
     private async tick(): Promise<void> {
         logger.info('--- Start tick ---');
-        if (this.executor.isCircuitBreakerOpen()) {
-            logger.info('Circuit breaker open');
-            this.telegramAlert.send('Circuit breaker tripped!', true);
+        const openBreakers = this.executor.openCircuitBreakers();
+        const newlyTripped = openBreakers.filter((key) => !this.trippedBreakers.has(key));
+        this.trippedBreakers = new Set(openBreakers);
+        if (newlyTripped.length > 0) {
+            logger.info(`Circuit breaker open: ${newlyTripped.join(', ')}`);
+            this.telegramAlert.send(`Circuit breaker tripped: ${newlyTripped.join(', ')}`, true);
+        }
+
+        await Promise.all(this.pairs.map((pair) => this.processPair(pair)));
+        if (this.config.cycles) {
+            await this.processCycles(this.config.cycles.anchor, this.config.cycles.bases);
+        }
+
+        logger.info('--- End tick ---');
+    }
+
+    private async processPair(pair: string): Promise<void> {
+        if (this.executor.isCircuitBreakerOpen(pair)) {
+            debug(this.debugMode, `tick: circuit breaker open pair=${pair}`);
             return;
         }
 
-        for (const pair of this.pairs) {
-            debug(this.debugMode, `tick: generating signal pair=${pair} size=${this.tradeSize}`);
-            let signal = await this.generator.generate(pair, this.tradeSize);
-
-            if (signal === null && (this.config.simulation ?? true)) {
-                signal = await this.buildForcedSignal(pair);
-                if (signal) {
-                    debug(
-                        this.debugMode,
-                        `tick: forced signal pair=${pair} spread=${signal.spreadBps.toFixed(2)}bps`,
-                    );
-                }
-            }
+        const [feedOk, feedReason] = await this.checkPriceFeeds(pair);
+        if (!feedOk) {
+            logger.warn(`Price feed check failed: ${feedReason}`);
+            return;
+        }
 
-            if (signal === null) {
-                debug(this.debugMode, `tick: no signal pair=${pair}`);
-                continue;
+        debug(
+            this.debugMode,
+            `tick: generating signal pair=${pair} size=${this.config.tradeSize ?? 'optimal'}`,
+        );
+        let signal = await this.generator.generate(pair, this.config.tradeSize);
+
+        if (signal === null && (this.config.simulation ?? true)) {
+            signal = await this.buildForcedSignal(pair);
+            if (signal) {
+                debug(
+                    this.debugMode,
+                    `tick: forced signal pair=${pair} spread=${signal.spreadBps.toFixed(2)}bps`,
+                );
             }
+        }
 
-            const [valid, reason] = this.preTradeValidator.validateSignal(signal);
+        if (signal === null) {
+            debug(this.debugMode, `tick: no signal pair=${pair}`);
+            return;
+        }
 
-            if (!valid) {
-                logger.warn(`Validation failed: ${reason}`);
-                continue;
-            }
+        const [valid, reason] = this.preTradeValidator.validateSignal(signal);
 
-            const [allowed, failReason] = this.riskManager.checkPreTrade(signal);
+        if (!valid) {
+            logger.warn(`Validation failed: ${reason}`);
+            return;
+        }
 
-            if (!allowed) {
-                logger.info(`Risk check failed: ${failReason}`);
-                continue;
-            }
+        const openContexts = this.executor.openPositions();
+        const liquidity = await this.generator.fetchLiquidity(pair);
+        const [baseSymbol, quoteSymbol] = pair.split('/');
+        const tokens = this.generator.tokens();
+        const baseToken = tokens[baseSymbol] ?? null;
+        const quoteToken = tokens[quoteSymbol] ?? null;
+        const [allowed, failReason] = this.riskManager.checkPreTrade(signal, openContexts.length, {
+            exposure: this.riskManager.netExposure(
+                this.inventory,
+                this.executor.unhedgedExposure(),
+            ),
+            book: liquidity.book,
+            leg1Venue: this.executor.firstLeg(),
+            pool: baseToken && quoteToken ? this.pricing.getPool(baseToken, quoteToken) : null,
+            baseToken,
+        });
 
-            const tradeUsd = signal.size.mul(signal.cexPrice).toNumber();
-            const dailyLoss = Math.max(0, -this.riskManager.dailyPnl);
-            const [safe, safetyReason] = safetyCheck(
-                tradeUsd,
-                dailyLoss,
-                this.riskManager.currentCapital,
-                this.riskManager.tradesThisHour,
-            );
+        if (!allowed) {
+            logger.info(`Risk check failed: ${failReason}`);
+            return;
+        }
 
-            if (!safe) {
-                const msg = `SAFETY ERROR: ${safetyReason}, BOT WAS STOPPED!`;
-                logger.info(msg);
-                this.telegramAlert.send(msg, true);
-                this.stop();
-                return;
-            }
+        if (!this.passesSafetyCheck(signal)) return;
 
-            signal.score = this.scorer.score(signal, this.inventory.inventorySkews(pair));
+        signal.score = this.scorer.score(signal, this.inventory.inventorySkews(pair), liquidity);
+        debug(
+            this.debugMode,
+            `tick: scored pair=${pair} spread=${signal.spreadBps.toFixed(2)} score=${signal.score.toFixed(2)}`,
+        );
+        if (signal.score < 60 && !(this.config.simulation ?? true)) {
             debug(
                 this.debugMode,
-                `tick: scored pair=${pair} spread=${signal.spreadBps.toFixed(2)} score=${signal.score.toFixed(2)}`,
+                `tick: below threshold pair=${pair} score=${signal.score.toFixed(2)} threshold=60`,
             );
-            if (signal.score < 60 && !(this.config.simulation ?? true)) {
-                debug(
-                    this.debugMode,
-                    `tick: below threshold pair=${pair} score=${signal.score.toFixed(2)} threshold=60`,
-                );
-                continue;
-            }
+            return;
+        }
+
+        if (this.config.dryRun) {
+            const msg =
+                `DRY RUN | Would trade: pair=${pair} ` +
+                `direction=${signal.direction} ` +
+                `size=${signal.size.toNumber().toFixed(4)} ` +
+                `spread=${signal.spreadBps.toFixed(1)}bps ` +
+                `expectedPnl=${signal.expectedNetPnl.toNumber().toFixed(2)}`;
 
-            if (this.config.dryRun) {
-                const msg =
-                    `DRY RUN | Would trade: pair=${pair} ` +
-                    `direction=${signal.direction} ` +
-                    `size=${signal.size.toNumber().toFixed(4)} ` +
-                    `spread=${signal.spreadBps.toFixed(1)}bps ` +
-                    `expectedPnl=${signal.expectedNetPnl.toNumber().toFixed(2)}`;
+            logger.info(msg);
+            this.telegramAlert.send(msg);
 
-                logger.info(msg);
-                this.telegramAlert.send(msg);
+            return;
+        }
+
+        logger.info(
+            `Signal: ${pair} spread=${signal.spreadBps.toFixed(1)}bps score=${signal.score}`,
+        );
+        logger.info(`Executing: ${signal.direction} ${signal.size} ${pair.split('/')[0]}`);
+        debug(this.debugMode, `tick: executor.execute() pair=${pair}`);
 
+        const ctx = await this.executor.execute(signal);
+        debug(
+            this.debugMode,
+            `tick: execution result pair=${pair} state=${ExecutorState[ctx.state]} pnl=${ctx.actualNetPnl ?? 0}`,
+        );
+
+        if (ctx.state === ExecutorState.DONE) {
+            const balancesOk = await this.verifyBalances(ctx);
+            if (!balancesOk) {
                 return;
             }
+        }
 
-            logger.info(
-                `Signal: ${pair} spread=${signal.spreadBps.toFixed(1)}bps score=${signal.score}`,
-            );
-            logger.info(`Executing: ${signal.direction} ${this.tradeSize} ${pair.split('/')[0]}`);
-            debug(this.debugMode, `tick: executor.execute() pair=${pair}`);
+        debug(this.debugMode, 'tick: syncBalances() after execution');
+        await this.syncBalances();
+    }
 
-            const ctx = await this.executor.execute(signal);
+    private async processCycles(anchor: string, bases: string[]): Promise<void> {
+        debug(this.debugMode, `tick: generating cycles anchor=${anchor} bases=${bases.join(',')}`);
+        const [signal] = await this.generator.generateCycles(anchor, bases);
+        if (!signal) {
+            debug(this.debugMode, `tick: no cycle signal anchor=${anchor}`);
+            return;
+        }
 
-            if (ctx.state === ExecutorState.DONE && (this.config.simulation ?? true)) {
-                const pnl = ctx.actualNetPnl ?? 0;
-                if (pnl <= 0) {
-                    ctx.actualNetPnl = Math.abs(pnl) + 0.01;
-                }
-            }
+        const [valid, reason] = this.preTradeValidator.validateSignal(signal);
+        if (!valid) {
+            logger.warn(`Validation failed: ${reason}`);
+            return;
+        }
+
+        const [allowed, failReason] = this.riskManager.checkPreTrade(
+            signal,
+            this.executor.openPositions().length,
+        );
+        if (!allowed) {
+            logger.info(`Risk check failed: ${failReason}`);
+            return;
+        }
+
+        if (!this.passesSafetyCheck(signal)) return;
+
+        if (this.config.dryRun) {
+            const msg =
+                `DRY RUN | Would trade cycle: ${signal.pair} ` +
+                `size=${signal.size.toNumber().toFixed(4)} ${anchor} ` +
+                `expectedPnl=${signal.expectedNetPnl.toNumber().toFixed(2)}`;
+
+            logger.info(msg);
+            this.telegramAlert.send(msg);
+
+            return;
+        }
+
+        logger.info(`Executing cycle: ${signal.pair} ${signal.size} ${anchor}`);
+        const ctx = await this.executor.execute(signal);
+        debug(
+            this.debugMode,
+            `tick: cycle result ${signal.pair} state=${ExecutorState[ctx.state]} pnl=${ctx.actualNetPnl ?? 0}`,
+        );
 
-            this.scorer.recordResult(pair, ctx.state === ExecutorState.DONE);
+        debug(this.debugMode, 'tick: syncBalances() after cycle');
+        await this.syncBalances();
+    }
+
+    private passesSafetyCheck(signal: Signal): boolean {
+        const tradeUsd = signal.size.mul(signal.cexPrice).toNumber();
+        const dailyLoss = Math.max(0, -this.riskManager.dailyPnl);
+        const [safe, safetyReason] = safetyCheck(
+            tradeUsd,
+            dailyLoss,
+            this.riskManager.currentCapital,
+            this.riskManager.tradesThisHour,
+        );
+
+        if (!safe) {
+            const msg = `SAFETY ERROR: ${safetyReason}, BOT WAS STOPPED!`;
+            logger.info(msg);
+            this.telegramAlert.send(msg, true);
+            this.stop();
+        }
+        return safe;
+    }
+
+    // Post-trade bookkeeping and alerting hang off executor events rather than
+    // the return value of execute(), so recovered trades are accounted for too.
+    private subscribeToExecutor(): void {
+        const { events } = this.executor;
+
+        events.on('leg_filled', ({ context, leg, venue, price, size }) => {
             debug(
                 this.debugMode,
-                `tick: execution result pair=${pair} state=${ExecutorState[ctx.state]} pnl=${ctx.actualNetPnl ?? 0}`,
+                `exec: ${context.signal.signalId} leg${leg} filled venue=${venue} size=${size} price=${price}`,
             );
+        });
 
-            if (ctx.state === ExecutorState.DONE) {
-                if (ctx.actualNetPnl) {
-                    this.riskManager.recordTrade(ctx.actualNetPnl);
-                }
-                this.updateInventory(ctx);
-                const msg = `SUCCESS: PnL=$${(ctx.actualNetPnl ?? 0).toFixed(2)}`;
-                this.telegramAlert.send(msg);
-                logger.info(msg);
-                const balancesOk = await this.verifyBalances(ctx);
-                if (!balancesOk) {
-                    return;
-                }
-            } else {
-                const msg = `FAILED: ${ctx.error ?? ExecutorState[ctx.state]}`;
-                logger.warn(msg);
-                this.telegramAlert.send(msg, true);
+        events.on('unwind_started', ({ context, size }) => {
+            logger.warn(`Unwinding ${size} ${context.signal.pair} for ${context.signal.signalId}`);
+        });
+
+        events.on('unwind_failed', ({ context, outcome }) => {
+            const msg =
+                `UNWIND FAILED for ${context.signal.signalId} ${context.signal.pair}: ` +
+                `${outcome.remaining} left after ${outcome.attempts.length} attempts ` +
+                `(${outcome.error}). Manual intervention required, BOT WAS STOPPED!`;
+            logger.error(msg);
+            this.telegramAlert.send(msg, true);
+            this.stop();
+        });
+
+        events.on('done', ({ context }) => {
+            this.scorer.recordOutcome(this.toOutcome(context));
+            const pnl = realizedPnl(context);
+            if (pnl !== null) {
+                this.riskManager.recordTrade(pnl);
             }
+            this.updateInventory(context);
+            this.pnl.record(this.toArbRecord(context));
 
-            debug(this.debugMode, 'tick: syncBalances() after execution');
-            await this.syncBalances();
-        }
+            const msg = `SUCCESS: PnL=$${(context.actualNetPnl ?? 0).toFixed(2)}`;
+            this.telegramAlert.send(msg);
+            logger.info(msg);
+        });
 
-        logger.info('--- End tick ---');
+        events.on('failed', ({ context, error }) => {
+            if (legSubmitted(context)) {
+                this.scorer.recordOutcome(this.toOutcome(context));
+            }
+            const pnl = realizedPnl(context);
+            if (pnl !== null) {
+                this.riskManager.recordTrade(pnl);
+            }
+
+            const msg = `FAILED: ${error}`;
+            logger.warn(msg);
+            this.telegramAlert.send(msg, legSubmitted(context));
+        });
+
+        events.on('rejected', ({ context, error }) => {
+            logger.info(`REJECTED ${context.signal.signalId}: ${error}`);
+        });
     }
 
-    private maybeResetHourly(): void {
-        const now = Date.now();
-        const oneHourMs = 60 * 60 * 1000;
+    // Slippage averages the adverse move of each filled leg against its signal price.
+    private toOutcome(ctx: ExecutionContext): ExecutionOutcome {
+        const signal = ctx.signal;
+        const buyOnCex = signal.direction === Direction.BUY_CEX_SELL_DEX;
+        const slippages: number[] = [];
+        const addSlippage = (venue: string, fill: number | null) => {
+            if (fill === null || fill <= 0) return;
+            const onCex = venue === 'cex';
+            const expected = (onCex ? signal.cexPrice : signal.dexPrice).toNumber();
+            const buying = onCex === buyOnCex;
+            slippages.push(((buying ? fill - expected : expected - fill) / expected) * 10_000);
+        };
+        addSlippage(ctx.leg1Venue, ctx.leg1FillPrice);
+        addSlippage(ctx.leg2Venue, ctx.leg2FillPrice);
+
+        return {
+            pair: signal.pair,
+            direction: signal.direction,
+            notionalUsd: signal.size.mul(signal.cexPrice).toNumber(),
+            expectedNetPnl: signal.expectedNetPnl.toNumber(),
+            realizedNetPnl: realizedPnl(ctx) ?? 0,
+            slippageBps: slippages.length
+                ? slippages.reduce((sum, bps) => sum + bps, 0) / slippages.length
+                : 0,
+            latencySeconds: (ctx.finishedAt ?? Date.now() / 1000) - ctx.startedAt,
+            success: ctx.state === ExecutorState.DONE,
+        };
+    }
 
-        if (now - this.lastHourlyResetAt >= oneHourMs) {
-            this.riskManager.resetHourly();
-            this.lastHourlyResetAt = now;
-            logger.info(
-                `Hourly trade counter reset, executed trades count: ${this.riskManager.tradesThisHour}`,
-            );
-            this.telegramAlert.send(
-                `Hour reset, executed trades count: ${this.riskManager.tradesThisHour}`,
-            );
+    private toArbRecord(ctx: ExecutionContext): ArbRecord {
+        const signal = ctx.signal;
+        const quote = signal.pair.split('/')[1] ?? '';
+        const timestamp = new Date((ctx.finishedAt ?? Date.now() / 1000) * 1000);
+        const amount = new Decimal(Math.min(ctx.leg1FillSize ?? 0, ctx.leg2FillSize ?? 0));
+        const priceOn = (venue: string): Decimal =>
+            new Decimal((ctx.leg1Venue === venue ? ctx.leg1FillPrice : ctx.leg2FillPrice) ?? 0);
+        const buyOnCex = signal.direction === Direction.BUY_CEX_SELL_DEX;
+
+        const cexLeg: TradeLeg = {
+            id: `${signal.signalId}_cex`,
+            timestamp,
+            venue: Venue.BINANCE,
+            symbol: signal.pair,
+            side: buyOnCex ? 'buy' : 'sell',
+            amount,
+            price: priceOn('cex'),
+            fee: new Decimal(ctx.fees.cexFee),
+            feeAsset: quote,
+        };
+        // The LP fee is already in the DEX fill price.
+        const dexLeg: TradeLeg = {
+            id: `${signal.signalId}_dex`,
+            timestamp,
+            venue: Venue.WALLET,
+            symbol: signal.pair,
+            side: buyOnCex ? 'sell' : 'buy',
+            amount,
+            price: priceOn('dex'),
+            fee: new Decimal(0),
+            feeAsset: quote,
+        };
+
+        return new ArbRecord({
+            id: signal.signalId,
+            timestamp,
+            buyLeg: buyOnCex ? cexLeg : dexLeg,
+            sellLeg: buyOnCex ? dexLeg : cexLeg,
+            gasCostUsd: new Decimal(ctx.fees.gasCost),
+        });
+    }
+
+    private maybeRollover(): void {
+        const { daily, hourly } = this.riskManager.rollover();
+        if (daily) {
+            const msg = `Day rollover, daily PnL and loss streak reset (capital ${this.riskManager.currentCapital.toFixed(2)})`;
+            logger.info(msg);
+            this.telegramAlert.send(msg);
+        } else if (hourly) {
+            const msg = `Hour rollover, trades in last hour: ${this.riskManager.tradesThisHour}`;
+            logger.info(msg);
+            this.telegramAlert.send(msg);
         }
     }
 
+    private async checkPriceFeeds(pair: string): Promise<[boolean, string]> {
+        const mids = await this.generator.fetchMidPrices(pair);
+        return this.preTradeValidator.checkFeeds(pair, mids);
+    }
+
     private async buildForcedSignal(pair: string): Promise<Signal | null> {
         try {
             const ob = await this.exchange.fetchOrderBook(pair);
@@ -371,6 +647,7 @@ class ArbBot {
                 expiry: Date.now() / 1000 + 5,
                 inventoryOk: true,
                 withinLimits: true,
+                sourceTimestamp: ob.timestamp,
             });
         } catch (e) {
             debug(
@@ -487,6 +764,11 @@ class ArbBot {
             );
         };
 
+        // The fees the executor booked for each leg, as in the PnL breakdown: the
+        // pool fee is already in the DEX fill price, gas is charged in quote terms.
+        const legFee = (venue: Venue): number =>
+            venue === Venue.BINANCE ? ctx.fees.cexFee : ctx.fees.gasCost;
+
         const recordLeg = (
             legVenue: string | null,
             legFillSize: number | null,
@@ -502,8 +784,7 @@ class ArbBot {
             const baseAmount = new Decimal(legFillSize);
             const quoteAmount = baseAmount.mul(legFillPrice);
 
-            const feeBps = venue === Venue.BINANCE ? Config.CEX_TAKER_BPS : Config.DEX_SWAP_BPS;
-            const fee = quoteAmount.mul(feeBps).div(10_000);
+            const fee = new Decimal(legFee(venue));
 
             this.inventory.recordTrade(
                 venue,
@@ -527,13 +808,15 @@ async function main(): Promise<void> {
         binanceApiKey: Config.BINANCE_API_KEY,
         binanceSecret: Config.BINANCE_SECRET!,
         pairs: ['ARB/USDC'],
-        tradeSize: 40,
         wsURL: Config.DEX_WS_URL,
         rpcURL: Config.ARBITRUM_RPC,
         dryRun: false,
         simulation: !process.env.PRODUCTION,
         debug: false,
         poolAddresses: ['0x011f31D20C8778c8Beb1093b73E3A5690Ee6271b'],
+        cycles: process.env.CYCLE_BASES
+            ? { anchor: 'USDC', bases: process.env.CYCLE_BASES.split(',') }
+            : undefined,
         signalConfig: {
             min_spread_bps: 10,
             min_profit_usd: 0.01,
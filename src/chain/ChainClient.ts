@@ -78,6 +78,10 @@ export class ChainClient {
         );
     }
 
+    getBlockNumber(): Promise<number> {
+        return this.withRetry((provider) => provider.getBlockNumber(), 'getBlockNumber', false);
+    }
+
     getGasPrice(): Promise<GasPrice> {
         return this.withRetry(async (provider) => {
             const fee: FeeData = await provider.getFeeData();
@@ -97,8 +101,16 @@ export class ChainClient {
         }, 'getGasPrice');
     }
 
-    estimateGas(tx: TransactionRequest): Promise<bigint> {
-        return this.withRetry((provider) => provider.estimateGas({ ...tx }), 'estimateGas');
+    estimateGas(tx: TransactionRequest, from?: Address): Promise<bigint> {
+        const request: EtherTransactionRequest = {
+            to: tx.to.checksum,
+            from: from?.checksum,
+            data: tx.data,
+            value: tx.value.raw,
+            chainId: tx.chainId,
+        };
+
+        return this.withRetry((provider) => provider.estimateGas(request), 'estimateGas');
     }
 
     sendTransaction(signedTransaction: string): Promise<string> {
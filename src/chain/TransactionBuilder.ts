@@ -14,6 +14,7 @@ export class TransactionBuilder {
     private _gasLimit?: bigint;
     private _maxFeePerGas?: bigint;
     private _maxPriorityFee?: bigint;
+    private _chainId?: number;
 
     constructor(
         private client: ChainClient,
@@ -45,9 +46,17 @@ export class TransactionBuilder {
         return this;
     }
 
+    chainId(id: number): this {
+        this._chainId = id;
+        return this;
+    }
+
     async withGasEstimate(buffer: number = 1.2): Promise<this> {
         const tx = this.build();
-        const estimate: bigint = await this.client.estimateGas(tx);
+        const estimate: bigint = await this.client.estimateGas(
+            tx,
+            new Address(this.wallet.address),
+        );
 
         const scale = 100n;
         const bufferScaled = BigInt(Math.round(buffer * 100));
@@ -76,7 +85,7 @@ export class TransactionBuilder {
             gasLimit: this._gasLimit,
             maxFeePerGas: this._maxFeePerGas,
             maxPriorityFee: this._maxPriorityFee,
-            chainId: 11155111,
+            chainId: this._chainId ?? 11155111,
         });
     }
 
@@ -51,6 +51,9 @@ export class Config {
 
     static readonly CHAIN_ID = Config.PRODUCTION ? 42161 : 421614;
 
+    // Private relay for DEX-first legs; empty disables bundle submission
+    static readonly FLASHBOTS_RELAY_URL = process.env.FLASHBOTS_RELAY_URL || '';
+
     // Trading pair
     static readonly PAIR = 'ETH/USDC';
     static readonly WETH_ADDRESS = Config.PRODUCTION
@@ -61,6 +64,7 @@ export class Config {
         : '0x0000000000000000000000000000000000000000';
 
     static readonly CEX_TAKER_BPS = Config.PRODUCTION ? 10.0 : 0;
+    static readonly CEX_MAKER_BPS = Config.PRODUCTION ? 2.0 : 0;
     static readonly DEX_SWAP_BPS = 30.0;
     static readonly GAS_COST_USD = 0.1;
 
@@ -28,7 +28,7 @@ export type NormalizedOrder = {
     avg_fill_price: Decimal;
     fee: Decimal;
     fee_asset: string;
-    status: 'filled' | 'partially_filled' | 'expired';
+    status: 'open' | 'filled' | 'partially_filled' | 'expired';
     timestamp: number;
 };
 
@@ -173,11 +173,13 @@ export class ExchangeClient {
         }
     }
 
+    // A client order id lets a caller whose request timed out find the order later.
     async createLimitIocOrder(
         symbol: string,
         side: 'buy' | 'sell',
         amount: number,
         price: number,
+        clientOrderId?: string,
     ): Promise<NormalizedOrder> {
         try {
             this.log('create_limit_ioc_order_request', {
@@ -185,9 +187,11 @@ export class ExchangeClient {
                 side,
                 amount,
                 price,
+                clientOrderId,
             });
             const order = await this.exchange.createOrder(symbol, 'limit', side, amount, price, {
                 timeInForce: 'IOC',
+                ...(clientOrderId ? { clientOrderId } : {}),
             });
             const normalized = this.normalizeOrder(order);
             this.log('create_limit_ioc_order_response', {
@@ -202,6 +206,32 @@ export class ExchangeClient {
         }
     }
 
+    // Binance rejects a post-only order that would match on arrival, so it can
+    // only ever rest on the book and pay the maker fee.
+    async createPostOnlyOrder(
+        symbol: string,
+        side: 'buy' | 'sell',
+        amount: number,
+        price: number,
+    ): Promise<NormalizedOrder> {
+        try {
+            this.log('create_post_only_order_request', { symbol, side, amount, price });
+            const order = await this.exchange.createOrder(symbol, 'limit', side, amount, price, {
+                postOnly: true,
+            });
+            const normalized = this.normalizeOrder(order);
+            this.log('create_post_only_order_response', {
+                id: normalized.id,
+                status: normalized.status,
+                filled: normalized.amount_filled.toString(),
+            });
+            return normalized;
+        } catch (err) {
+            this.logError('create_post_only_order', err);
+            throw err;
+        }
+    }
+
     async createMarketOrder(
         symbol: string,
         side: 'buy' | 'sell',
@@ -251,6 +281,38 @@ export class ExchangeClient {
         }
     }
 
+    async cancelOrderByClientId(clientOrderId: string, symbol: string) {
+        try {
+            this.log('cancel_order_by_client_id_request', { clientOrderId, symbol });
+            const res = await this.exchange.cancelOrder(clientOrderId, symbol, {
+                origClientOrderId: clientOrderId,
+            });
+            this.log('cancel_order_by_client_id_response', { id: res.id, status: res.status });
+            return res;
+        } catch (err) {
+            this.logError('cancel_order_by_client_id', err);
+            throw err;
+        }
+    }
+
+    async fetchOrderByClientId(clientOrderId: string, symbol: string): Promise<NormalizedOrder> {
+        try {
+            this.log('fetch_order_by_client_id_request', { clientOrderId, symbol });
+            const order = await this.exchange.fetchOrder(clientOrderId, symbol, {
+                origClientOrderId: clientOrderId,
+            });
+            const normalized = this.normalizeOrder(order);
+            this.log('fetch_order_by_client_id_response', {
+                id: normalized.id,
+                status: normalized.status,
+            });
+            return normalized;
+        } catch (err) {
+            this.logError('fetch_order_by_client_id', err);
+            throw err;
+        }
+    }
+
     async getTradingFees(symbol: string): Promise<{ maker: Decimal; taker: Decimal }> {
         try {
             this.log('get_trading_fees_request', { symbol });
@@ -280,6 +342,8 @@ export class ExchangeClient {
             order.status === 'closed' || filled.equals(amount) || filled.greaterThan(amount);
         if (fullyFilled) {
             status = 'filled';
+        } else if (order.status === 'open') {
+            status = 'open';
         } else if (filled.gt(0)) {
             status = 'partially_filled';
         }
@@ -0,0 +1,285 @@
+import { ExchangeClient, NormalizedOrder } from '../exchange/ExchangeClient';
+import { OrderBookAnalyzer } from '../exchange/OrderBookAnalyzer';
+import { getLogger } from '../logger';
+import { Config } from '../config';
+import { FillSimulator, SimulatedFill } from './simulation';
+import { UnwindFill, UnwindHandlers } from './unwind';
+import { LegOrder, LegQuote, LegResult, LegSide, TimeoutError, VenueLeg, waitFor } from './venues';
+
+export type BinanceLegConfig = {
+    name?: string;
+    orderTimeout?: number;
+    pollInterval?: number;
+    depthBps?: number;
+};
+
+const DEFAULT_BINANCE_LEG_CONFIG: Required<BinanceLegConfig> = {
+    name: 'cex',
+    orderTimeout: 5,
+    pollInterval: 0.25,
+    depthBps: 10,
+};
+
+// Orders go through ExchangeClient, or the fill simulator when one is given.
+export class BinanceLeg implements VenueLeg {
+    private readonly config: Required<BinanceLegConfig>;
+    private readonly logger = getLogger('BinanceLeg');
+
+    constructor(
+        private readonly exchange: ExchangeClient,
+        private readonly simulator: FillSimulator | null = null,
+        config: BinanceLegConfig = {},
+    ) {
+        this.config = { ...DEFAULT_BINANCE_LEG_CONFIG, ...config };
+    }
+
+    get name(): string {
+        return this.config.name;
+    }
+
+    public async quote(pair: string, side: LegSide, size: number): Promise<LegQuote | null> {
+        const book = await this.exchange.fetchOrderBook(pair);
+        if (!book.bids.length || !book.asks.length) return null;
+
+        const analyzer = new OrderBookAnalyzer(book);
+        const walk = analyzer.walkTheBook(side, size);
+        return {
+            price: walk.avg_price.toNumber(),
+            touch: (side === 'buy' ? book.best_ask : book.best_bid)[0].toNumber(),
+            capacity: analyzer
+                .depthAtBps(side === 'buy' ? 'ask' : 'bid', this.config.depthBps)
+                .toNumber(),
+            timestamp: book.timestamp,
+        };
+    }
+
+    public async execute(order: LegOrder): Promise<LegResult> {
+        if (order.mode === 'post_only') return this.post(order);
+
+        if (this.simulator) {
+            const sim = await this.simulator.fillCex(
+                order.pair,
+                order.side,
+                order.size,
+                order.limitPrice,
+            );
+            return this.fromSimulated(sim);
+        }
+
+        const startedAt = Date.now();
+        const clientOrderId = this.clientOrderId(order);
+        let placed: NormalizedOrder;
+        try {
+            placed = await waitFor(
+                this.exchange.createLimitIocOrder(
+                    order.pair,
+                    order.side,
+                    order.size,
+                    order.limitPrice,
+                    clientOrderId,
+                ),
+                this.config.orderTimeout,
+            );
+        } catch (error) {
+            if (!(error instanceof TimeoutError)) throw error;
+            const late = await this.recoverTimedOut(clientOrderId, order.pair);
+            if (!late) throw error;
+            order.onSubmitted?.(late.id);
+            return this.toResult(late, order.pair, true);
+        }
+        order.onSubmitted?.(placed.id);
+
+        const remaining = Math.max(0, this.config.orderTimeout - (Date.now() - startedAt) / 1000);
+        const [result, cancelled] = await this.settle(placed, order.pair, remaining);
+
+        return this.toResult(result, order.pair, cancelled);
+    }
+
+    // In simulation a resting order fills at the first poll where the book
+    // crosses it; whatever is left then counts as cancelled.
+    public async fetchFill(order: LegOrder, reference: string): Promise<LegResult> {
+        if (this.simulator) {
+            const sim = await this.simulator.fillCexMaker(
+                order.pair,
+                order.side,
+                order.size,
+                order.limitPrice,
+            );
+            if (sim.filled <= 0) return { ...this.unfilledResult(reference), pending: true };
+            return this.fromSimulated(sim, reference);
+        }
+
+        const current = await this.exchange.fetchOrderStatus(reference, order.pair);
+        return { ...this.toResult(current, order.pair, false), pending: current.status === 'open' };
+    }
+
+    public async cancel(order: LegOrder, reference: string): Promise<LegResult> {
+        if (this.simulator) return this.unfilledResult(reference);
+
+        const [final] = await this.settle(
+            await this.exchange.fetchOrderStatus(reference, order.pair),
+            order.pair,
+            0,
+        );
+        return this.toResult(final, order.pair, false);
+    }
+
+    public unwindHandlers(order: LegOrder, aggressiveLimitBps: number): UnwindHandlers {
+        const { pair, side } = order;
+        const market = async (size: number): Promise<UnwindFill> => {
+            if (this.simulator) {
+                const fill = await this.simulator.fillCex(
+                    pair,
+                    side,
+                    size,
+                    side === 'sell' ? 0 : Number.MAX_VALUE,
+                );
+                return { filled: fill.filled, price: fill.price, error: this.unfilled(fill) };
+            }
+            const placed = await this.exchange.createMarketOrder(pair, side, size);
+            return {
+                filled: placed.amount_filled.toNumber(),
+                price: placed.avg_fill_price.toNumber(),
+            };
+        };
+
+        return {
+            aggressive_limit: async (size: number) => {
+                const book = await this.exchange.fetchOrderBook(pair);
+                const offset = aggressiveLimitBps / 10_000;
+                const limit =
+                    side === 'sell'
+                        ? book.best_bid[0].mul(1 - offset).toNumber()
+                        : book.best_ask[0].mul(1 + offset).toNumber();
+
+                if (this.simulator) {
+                    const fill = await this.simulator.fillCex(pair, side, size, limit);
+                    return { filled: fill.filled, price: fill.price, error: this.unfilled(fill) };
+                }
+                const placed = await this.exchange.createLimitIocOrder(pair, side, size, limit);
+                const [settled] = await this.settle(placed, pair, this.config.orderTimeout);
+                return {
+                    filled: settled.amount_filled.toNumber(),
+                    price: settled.avg_fill_price.toNumber(),
+                };
+            },
+            market,
+            chunked: market,
+        };
+    }
+
+    private async post(order: LegOrder): Promise<LegResult> {
+        if (this.simulator) {
+            return { ...this.unfilledResult(`sim-${order.id}`), pending: true };
+        }
+
+        const placed = await waitFor(
+            this.exchange.createPostOnlyOrder(order.pair, order.side, order.size, order.limitPrice),
+            this.config.orderTimeout,
+        );
+        order.onSubmitted?.(placed.id);
+        return { ...this.toResult(placed, order.pair, false), pending: placed.status === 'open' };
+    }
+
+    // The create request timed out but may still have reached the exchange: cancel
+    // whatever is left of it and read back what filled. Null when the exchange has
+    // no such order, i.e. it was never placed.
+    private async recoverTimedOut(
+        clientOrderId: string,
+        symbol: string,
+    ): Promise<NormalizedOrder | null> {
+        try {
+            await this.exchange.cancelOrderByClientId(clientOrderId, symbol);
+        } catch (error) {
+            this.logger.warn(
+                `Cancel ${clientOrderId} failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+        }
+        try {
+            return await this.exchange.fetchOrderByClientId(clientOrderId, symbol);
+        } catch {
+            return null;
+        }
+    }
+
+    // Binance accepts up to 36 of [.A-Za-z0-9:/_-]; signal ids keep their
+    // distinguishing slice or cycle suffix at the end.
+    private clientOrderId(order: LegOrder): string {
+        return order.id.replace(/[^.A-Za-z0-9:/_-]/g, '').slice(-36);
+    }
+
+    // Polls until the order is terminal; on timeout cancels it and re-reads the order so
+    // any fill that landed before the cancel is reported.
+    private async settle(
+        order: NormalizedOrder,
+        symbol: string,
+        timeoutSeconds: number,
+    ): Promise<[NormalizedOrder, boolean]> {
+        const deadline = Date.now() + timeoutSeconds * 1000;
+        let current = order;
+
+        while (current.status === 'open') {
+            if (Date.now() >= deadline) {
+                try {
+                    await this.exchange.cancelOrder(current.id, symbol);
+                } catch (error) {
+                    this.logger.warn(
+                        `Cancel ${current.id} failed: ${error instanceof Error ? error.message : String(error)}`,
+                    );
+                }
+                const final = await this.exchange.fetchOrderStatus(current.id, symbol);
+                return [final, true];
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, this.config.pollInterval * 1000));
+            current = await this.exchange.fetchOrderStatus(current.id, symbol);
+        }
+
+        return [current, false];
+    }
+
+    private toResult(order: NormalizedOrder, pair: string, cancelled: boolean): LegResult {
+        const price = order.avg_fill_price.toNumber();
+        const filled = order.amount_filled.toNumber();
+        return {
+            success: order.status === 'filled',
+            price,
+            filled,
+            reference: order.id,
+            error: cancelled ? 'CEX timeout - cancelled' : order.status,
+            fees: { cex: this.feeInQuote(order, pair, price, filled), dex: 0, gas: 0 },
+        };
+    }
+
+    private fromSimulated(sim: SimulatedFill, reference?: string): LegResult {
+        return {
+            success: sim.success,
+            price: sim.price,
+            filled: sim.filled,
+            reference,
+            error: sim.error,
+            fees: { cex: sim.fee, dex: 0, gas: 0 },
+        };
+    }
+
+    private unfilledResult(reference: string): LegResult {
+        return { success: false, price: 0, filled: 0, reference };
+    }
+
+    private feeInQuote(order: NormalizedOrder, pair: string, price: number, filled: number) {
+        const fee = order.fee.toNumber();
+        if (fee === 0) return 0;
+
+        const [base, quote] = pair.toUpperCase().split('/');
+        const asset = order.fee_asset.toUpperCase();
+        if (asset === quote) return fee;
+        if (asset === base) return fee * price;
+
+        this.logger.warn(`Cannot convert ${asset} fee on ${pair}, using taker rate`);
+        return (price * filled * Config.CEX_TAKER_BPS) / 10_000;
+    }
+
+    private unfilled(fill: { filled: number; error?: string }): string | undefined {
+        return fill.filled > 0 ? undefined : (fill.error ?? 'not filled');
+    }
+}
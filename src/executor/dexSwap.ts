@@ -0,0 +1,245 @@
+import { getAddress, Interface, MaxUint256, Transaction } from 'ethers';
+import { ChainClient } from '../chain/ChainClient';
+import { TransactionBuilder } from '../chain/TransactionBuilder';
+import { TransactionFailed } from '../chain/Errors';
+import { Priority } from '../chain/types/GasPrice';
+import { WalletManager } from '../core/WalletManager';
+import { Address } from '../core/types/Address';
+import { TokenAmount } from '../core/types/TokenAmount';
+import { TransactionReceipt } from '../core/types/TransactionReceipt';
+import { TransactionRequest } from '../core/types/TransactionRequest';
+import { Route } from '../pricing/Route';
+import { RouterSwapArgs, SwapParamsBuilder } from '../pricing/SwapParamsBuilder';
+import { Config } from '../config';
+import { getLogger } from '../logger';
+
+export type SwapFill = {
+    txHash: string;
+    amountIn: bigint;
+    amountOut: bigint;
+    receipt: TransactionReceipt;
+};
+
+export type SignedSwap = {
+    signedTx: string;
+    txHash: string;
+};
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const SWAP_TOPIC = '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+
+const ROUTER_ABI = [
+    {
+        type: 'function',
+        name: 'swapExactTokensForTokens',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'amountIn', type: 'uint256' },
+            { name: 'amountOutMin', type: 'uint256' },
+            { name: 'path', type: 'address[]' },
+            { name: 'to', type: 'address' },
+            { name: 'deadline', type: 'uint256' },
+        ],
+        outputs: [{ name: 'amounts', type: 'uint256[]' }],
+    },
+];
+
+const ERC20_ABI = [
+    {
+        type: 'function',
+        name: 'allowance',
+        stateMutability: 'view',
+        inputs: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+        ],
+        outputs: [{ name: '', type: 'uint256' }],
+    },
+    {
+        type: 'function',
+        name: 'approve',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'spender', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'bool' }],
+    },
+];
+
+const topicToAddress = (topic: string): string => getAddress('0x' + topic.slice(-40));
+
+export const parseSwapFill = (
+    receipt: TransactionReceipt,
+    route: Route,
+    recipient: Address,
+): { amountIn: bigint; amountOut: bigint } => {
+    const tokenIn = route.path[0];
+    const tokenOut = route.path[route.path.length - 1];
+    let amountIn = 0n;
+    let amountOut = 0n;
+
+    for (const log of receipt.logs) {
+        if (log.topics.length !== 3 || log.topics[0].toLowerCase() !== TRANSFER_TOPIC) continue;
+
+        const from = topicToAddress(log.topics[1]);
+        const to = topicToAddress(log.topics[2]);
+        if (tokenIn.address.equals(log.address) && recipient.equals(from)) {
+            amountIn += BigInt(log.data);
+        }
+        if (tokenOut.address.equals(log.address) && recipient.equals(to)) {
+            amountOut += BigInt(log.data);
+        }
+    }
+
+    if (amountIn > 0n && amountOut > 0n) {
+        return { amountIn, amountOut };
+    }
+
+    // Fallback for tokens that do not emit standard Transfer events: read pool Swap events.
+    const firstPool = route.pools[0];
+    const lastPool = route.pools[route.pools.length - 1];
+    const swapLogs = route.pools.length
+        ? receipt.logs.filter((log) => log.topics[0]?.toLowerCase() === SWAP_TOPIC)
+        : [];
+    for (const log of swapLogs) {
+        const words = log.data
+            .slice(2)
+            .match(/.{64}/g)
+            ?.map((word) => BigInt('0x' + word));
+        if (!words || words.length < 4) continue;
+        const [amount0In, amount1In, amount0Out, amount1Out] = words;
+
+        if (amountIn === 0n && firstPool.address.equals(log.address)) {
+            amountIn = firstPool.token0.equals(tokenIn) ? amount0In : amount1In;
+        }
+        if (amountOut === 0n && lastPool.address.equals(log.address)) {
+            amountOut = lastPool.token0.equals(tokenOut) ? amount0Out : amount1Out;
+        }
+    }
+
+    if (amountIn === 0n || amountOut === 0n) {
+        throw new Error(`Unable to derive swap fill from receipt ${receipt.txHash}`);
+    }
+
+    return { amountIn, amountOut };
+};
+
+export class DexSwapper {
+    private readonly logger = getLogger('DexSwapper');
+    private readonly routerInterface = new Interface(ROUTER_ABI);
+    private readonly erc20Interface = new Interface(ERC20_ABI);
+
+    constructor(
+        private readonly chain: ChainClient,
+        private readonly wallet: WalletManager,
+        private readonly router: Address = new Address(Config.ROUTER),
+        private readonly receiptTimeout: number = 60,
+    ) {}
+
+    get address(): Address {
+        return new Address(this.wallet.address);
+    }
+
+    public async ensureAllowance(token: Address, amount: bigint): Promise<void> {
+        const request = new TransactionRequest({
+            to: token,
+            value: new TokenAmount(0n, 18),
+            data: this.erc20Interface.encodeFunctionData('allowance', [
+                this.address.checksum,
+                this.router.checksum,
+            ]),
+        });
+        const raw = await this.chain.call(request);
+        const allowance = this.erc20Interface.decodeFunctionResult('allowance', raw)[0] as bigint;
+        if (allowance >= amount) return;
+
+        this.logger.info(`Approving router ${this.router.checksum} for ${token.checksum}`);
+        const data = this.erc20Interface.encodeFunctionData('approve', [
+            this.router.checksum,
+            MaxUint256,
+        ]);
+        await this.sendAndConfirm(token, data);
+    }
+
+    public async swap(
+        route: Route,
+        args: RouterSwapArgs,
+        onSubmitted?: (txHash: string) => void,
+    ): Promise<SwapFill> {
+        await this.ensureAllowance(route.path[0].address, args.amountIn);
+
+        const data = this.encodeSwap(args);
+        const receipt = await this.sendAndConfirm(this.router, data, onSubmitted);
+        const fill = parseSwapFill(receipt, route, this.address);
+        this.logger.info(
+            `Swap ${route.toString()} confirmed in block ${receipt.blockNumber}: in=${fill.amountIn} out=${fill.amountOut}`,
+        );
+
+        return { txHash: receipt.txHash, ...fill, receipt };
+    }
+
+    public async signSwap(route: Route, args: RouterSwapArgs): Promise<SignedSwap> {
+        await this.ensureAllowance(route.path[0].address, args.amountIn);
+
+        const data = this.encodeSwap(args);
+        const signedTx = await this.buildSigned(this.router, data);
+        return { signedTx, txHash: Transaction.from(signedTx).hash! };
+    }
+
+    public async fetchFill(
+        txHash: string,
+        route: Route,
+        timeout: number = 0,
+    ): Promise<SwapFill | null> {
+        const receipt =
+            timeout > 0
+                ? await this.chain.waitForReceipt(txHash, timeout).catch(() => null)
+                : await this.chain.getReceipt(txHash);
+        if (!receipt) return null;
+        if (!receipt.status) {
+            throw new TransactionFailed(txHash, receipt);
+        }
+
+        return { txHash, ...parseSwapFill(receipt, route, this.address), receipt };
+    }
+
+    private encodeSwap(args: RouterSwapArgs): string {
+        if (args.amountOutMin <= 0n) {
+            throw new Error('Refusing to swap without amountOutMin protection');
+        }
+
+        const { method, args: callArgs } = SwapParamsBuilder.toSwapParams(args);
+        return this.routerInterface.encodeFunctionData(method, callArgs);
+    }
+
+    private async buildSigned(to: Address, data: string): Promise<string> {
+        const nonce = await this.chain.getNonce(this.address);
+        const builder = new TransactionBuilder(this.chain, this.wallet)
+            .to(to)
+            .data(data)
+            .nonce(nonce)
+            .chainId(Config.CHAIN_ID);
+        await builder.withGasEstimate();
+        await builder.withGasPrice(Priority.HIGH);
+
+        return builder.buildAndSign();
+    }
+
+    private async sendAndConfirm(
+        to: Address,
+        data: string,
+        onSubmitted?: (txHash: string) => void,
+    ): Promise<TransactionReceipt> {
+        const signedTx = await this.buildSigned(to, data);
+        const txHash = await this.chain.sendTransaction(signedTx);
+        onSubmitted?.(txHash);
+
+        const receipt = await this.chain.waitForReceipt(txHash, this.receiptTimeout);
+        if (!receipt.status) {
+            throw new TransactionFailed(txHash, receipt);
+        }
+
+        return receipt;
+    }
+}
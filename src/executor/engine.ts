@@ -1,10 +1,36 @@
 import { ExchangeClient } from '../exchange/ExchangeClient';
 import { InventoryTracker } from '../inventory/tracker';
 import { PricingEngine } from '../pricing/PricingEngine';
-import { Token } from '../pricing/Token';
-import { Address } from '../core/types/Address';
-import { Direction, Signal } from '../strategy/signal';
-import { CircuitBreaker, ReplayProtection } from './recovery';
+import { Direction, Signal, SignalLeg } from '../strategy/signal';
+import {
+    CircuitBreakerConfig,
+    CircuitBreakerRegistry,
+    ReplayProtection,
+    classifyFailure,
+} from './recovery';
+import { DexSwapper } from './dexSwap';
+import { BundleSubmitter } from './flashbots';
+import { FillSimulator, SimulationConfig } from './simulation';
+import { PositionLocks } from './locks';
+import { ExecutorEvents, LegNumber } from './events';
+import { UnwindConfig, UnwindOutcome, UnwindStrategy } from './unwind';
+import { SlicePlan, SlicePlanner, SlicingConfig } from './slicing';
+import { MakerConfig, MakerQuote, MakerQuoter } from './maker';
+import { BinanceLeg } from './binanceLeg';
+import { UniswapV2Leg, UniswapV2LegConfig } from './uniswapV2Leg';
+import {
+    LegMode,
+    LegOrder,
+    LegResult,
+    LegSide,
+    SignalVenues,
+    TimeoutError,
+    waitFor,
+} from './venues';
+import { ExecutionJournal } from './journal';
+import { SwapParamsBuilder } from '../pricing/SwapParamsBuilder';
+import { getLogger } from '../logger';
+import { Config } from '../config';
 import Decimal from 'decimal.js';
 
 export enum ExecutorState {
@@ -18,6 +44,34 @@ export enum ExecutorState {
     UNWINDING,
 }
 
+export type PartialFillAction = 'hedge' | 'unwind' | 'hold';
+
+export type PartialFillOutcome = {
+    requested: number;
+    filled: number;
+    notional: number;
+    action: PartialFillAction;
+    reason: string;
+};
+
+// All amounts in quote currency. dexFee is informational: the LP fee is already
+// reflected in the DEX fill price, so it is not deducted from PnL a second time.
+export type FeeBreakdown = {
+    cexFee: number;
+    dexFee: number;
+    gasCost: number;
+    total: number;
+};
+
+export type CycleLegFill = {
+    venue: string;
+    pair: string;
+    side: LegSide;
+    size: number;
+    price: number;
+    reference: string | null;
+};
+
 export type ExecutionContext = {
     signal: Signal;
     state: ExecutorState;
@@ -29,9 +83,16 @@ export type ExecutionContext = {
     leg2TxHash: string | null;
     leg2FillPrice: number | null;
     leg2FillSize: number | null;
+    // Journaled so a recovered DEX receipt is charged the same LP fee as a live fill.
+    dexFeeBps: number | null;
     startedAt: number;
     finishedAt: number | null;
     actualNetPnl: number | null;
+    partialFill: PartialFillOutcome | null;
+    unwind: UnwindOutcome | null;
+    fees: FeeBreakdown;
+    // Fills of a CYCLE signal in execution order; empty for pair trades.
+    cycleFills: CycleLegFill[];
     error: string | null;
 };
 
@@ -41,16 +102,25 @@ export type ExecutorConfig = {
     minFillRatio?: number;
     useFlashbots?: boolean;
     simulationMode?: boolean;
+    simulation?: SimulationConfig;
+    journalPath?: string | null;
+    minNotional?: number;
+    gasCostUsd?: number;
+    orderPollInterval?: number;
+    maxOpenPositions?: number;
+    circuitBreaker?: CircuitBreakerConfig;
+    breakerStatePath?: string | null;
+    replayStatePath?: string | null;
+    unwind?: UnwindConfig;
+    executionMode?: 'single' | 'sliced' | 'maker';
+    slicing?: SlicingConfig;
+    maker?: MakerConfig;
+    // Options for the default DEX venue, e.g. the tokens its pairs resolve to.
+    dexLeg?: UniswapV2LegConfig;
+    venues?: Partial<SignalVenues>;
 };
 
-type LegExecutionResult = {
-    success: boolean;
-    price: number;
-    filled: number;
-    orderId?: string;
-    txHash?: string;
-    error?: string;
-};
+type VenueRole = keyof SignalVenues;
 
 const defaultExecutorConfig: Required<ExecutorConfig> = {
     leg1Timeout: 5,
@@ -58,90 +128,420 @@ const defaultExecutorConfig: Required<ExecutorConfig> = {
     minFillRatio: 0.8,
     useFlashbots: true,
     simulationMode: true,
+    simulation: {},
+    journalPath: null,
+    minNotional: Config.MIN_NOTIONAL,
+    gasCostUsd: Config.GAS_COST_USD,
+    orderPollInterval: 0.25,
+    maxOpenPositions: 1,
+    circuitBreaker: {},
+    breakerStatePath: null,
+    replayStatePath: null,
+    unwind: {},
+    executionMode: 'single',
+    slicing: {},
+    maker: {},
+    dexLeg: {},
+    venues: {},
 };
 
-class TimeoutError extends Error {
-    constructor(message: string) {
-        super(message);
-        this.name = 'TimeoutError';
-    }
+const MAKER_NO_EDGE = 'No maker edge';
+const MAKER_EXPIRED = 'Maker order expired';
+const MAKER_CANCELLED = 'Maker order cancelled - DEX price moved';
+const MAKER_MISSES = [MAKER_NO_EDGE, MAKER_EXPIRED, MAKER_CANCELLED];
+const BUNDLE_NOT_INCLUDED = /^Bundle not included/;
+
+// PnL a finished execution locked in. A failed trade still paid the fees of
+// the legs that filled and whatever unwinding them lost; null when nothing filled.
+export function realizedPnl(context: ExecutionContext): number | null {
+    if (context.actualNetPnl !== null) return context.actualNetPnl;
+    const unwindLoss = context.unwind?.lossUsd ?? 0;
+    if (!context.leg1FillSize && context.fees.total === 0 && unwindLoss === 0) return null;
+    return -(context.fees.total + unwindLoss);
+}
+
+// Whether a venue ever saw an order for this context. Rejections before submission
+// and maker quotes that never filled carry no execution outcome.
+export function legSubmitted(context: ExecutionContext): boolean {
+    if (!context.leg1Venue) return false;
+    return context.leg1FillSize !== null || !MAKER_MISSES.includes(context.error ?? '');
 }
 
 export class Executor {
-    private exchange: ExchangeClient;
-    private priceEngine: PricingEngine;
     private inventory: InventoryTracker;
     private config: Required<ExecutorConfig>;
-    private circuitBreaker: CircuitBreaker;
+    private venues: SignalVenues;
+    private circuitBreakers: CircuitBreakerRegistry;
     private replayProtection: ReplayProtection;
-    private readonly tokenMap: Record<string, string> = {
-        ETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-        WETH: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
-        USDT: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
-        USDC: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
-    };
-    private readonly decimalsMap: Record<string, number> = {
-        ETH: 18,
-        WETH: 18,
-        USDT: 6,
-        USDC: 6,
-    };
+    private unwindStrategy: UnwindStrategy;
+    private slicePlanner: SlicePlanner;
+    private makerQuoter: MakerQuoter;
+    private locks = new PositionLocks();
+    private openContexts = new Map<string, ExecutionContext>();
+    private journal: ExecutionJournal | null;
+    private logger = getLogger('Executor');
+    public readonly events = new ExecutorEvents();
 
     constructor(
         exchangeClient: ExchangeClient,
         priceEngine: PricingEngine,
         inventoryTracker: InventoryTracker,
         config: ExecutorConfig = {},
+        dexSwapper: DexSwapper | null = null,
+        bundleSubmitter: BundleSubmitter | null = null,
+        swapParams: SwapParamsBuilder = new SwapParamsBuilder(),
     ) {
-        this.exchange = exchangeClient;
-        this.priceEngine = priceEngine;
         this.inventory = inventoryTracker;
         this.config = { ...defaultExecutorConfig, ...config };
-        this.circuitBreaker = new CircuitBreaker();
-        this.replayProtection = new ReplayProtection();
+        this.circuitBreakers = new CircuitBreakerRegistry(
+            this.config.circuitBreaker,
+            this.config.breakerStatePath,
+        );
+        this.replayProtection = new ReplayProtection(60, this.config.replayStatePath);
+
+        const simulator = this.config.simulationMode
+            ? new FillSimulator(exchangeClient, priceEngine, this.config.simulation)
+            : null;
+        this.venues = {
+            cex:
+                this.config.venues.cex ??
+                new BinanceLeg(exchangeClient, simulator, {
+                    orderTimeout: this.config.leg1Timeout,
+                    pollInterval: this.config.orderPollInterval,
+                }),
+            dex:
+                this.config.venues.dex ??
+                new UniswapV2Leg(
+                    priceEngine,
+                    simulator,
+                    { gasCostUsd: this.config.gasCostUsd, ...this.config.dexLeg },
+                    dexSwapper,
+                    bundleSubmitter,
+                    swapParams,
+                ),
+        };
+        if (this.venues.cex.name === this.venues.dex.name) {
+            throw new Error(`Both signal sides use venue ${this.venues.cex.name}`);
+        }
+
+        this.unwindStrategy = new UnwindStrategy(this.config.unwind);
+        this.slicePlanner = new SlicePlanner(this.config.slicing);
+        this.makerQuoter = new MakerQuoter({
+            gasCostUsd: this.config.gasCostUsd,
+            ...this.config.maker,
+        });
+        this.journal = this.config.journalPath
+            ? new ExecutionJournal(this.config.journalPath)
+            : null;
     }
 
     public async execute(signal: Signal): Promise<ExecutionContext> {
         let context = this.createContext(signal);
 
-        if (this.circuitBreaker.isOpen()) {
-            context.state = ExecutorState.FAILED;
-            context.error = 'Circuit breaker open';
-            return context;
+        if (this.replayProtection.isDuplicate(signal)) {
+            return this.reject(context, 'Duplicate signal');
         }
 
-        if (this.replayProtection.isDuplicate(signal)) {
-            context.state = ExecutorState.FAILED;
-            context.error = 'Duplicate signal';
-            return context;
+        // Both swaps of a pool arb have to land in one transaction; legs cannot do that.
+        if (signal.direction === Direction.DEX_ARB) {
+            return this.reject(context, 'DEX arb signals need an atomic executor');
         }
 
-        context.state = ExecutorState.VALIDATING;
-        if (!signal.isValid()) {
-            context.state = ExecutorState.FAILED;
-            context.error = 'Signal invalid';
-            return context;
+        if (this.openContexts.size >= this.config.maxOpenPositions) {
+            return this.reject(
+                context,
+                `Max open positions reached (${this.config.maxOpenPositions})`,
+            );
         }
 
-        if (this.config.useFlashbots) {
-            context = await this.executeDexFirst(context);
-        } else {
-            context = await this.executeCexFirst(context);
+        const conflict = this.locks.tryAcquire(signal.signalId, PositionLocks.keysFor(signal));
+        if (conflict) {
+            return this.reject(
+                context,
+                `Locked: ${conflict} held by ${this.locks.holder(conflict)}`,
+            );
+        }
+
+        const blocked = this.reserveBreakers(signal.pair);
+        if (blocked) {
+            this.locks.release(signal.signalId);
+            return this.reject(context, `Circuit breaker open: ${blocked}`);
+        }
+        this.openContexts.set(signal.signalId, context);
+
+        let settled = false;
+        try {
+            this.transition(context, ExecutorState.VALIDATING);
+            if (!signal.isValid()) {
+                this.fail(context, 'Signal invalid');
+                return this.finish(context);
+            }
+            this.events.emit('signal_accepted', { context });
+
+            if (signal.direction === Direction.CYCLE) {
+                context = await this.executeCycle(context);
+            } else if (this.config.executionMode === 'sliced') {
+                context = await this.executeSliced(context);
+            } else if (this.config.executionMode === 'maker') {
+                context = await this.executeMaker(context);
+            } else if (this.config.useFlashbots) {
+                context = await this.executeDexFirst(context);
+            } else {
+                context = await this.executeCexFirst(context);
+            }
+            settled = true;
+        } finally {
+            this.openContexts.delete(signal.signalId);
+            this.locks.release(signal.signalId);
+            if (!settled) {
+                for (const venue of this.venueNames())
+                    this.circuitBreakers.get(venue, signal.pair).release();
+            }
         }
 
         this.replayProtection.markExecuted(signal);
+        this.recordBreakerOutcome(context);
+
+        context.finishedAt = Date.now() / 1000;
+        this.journal?.record(context);
+        return this.finish(context);
+    }
+
+    public async recover(): Promise<ExecutionContext[]> {
+        if (!this.journal) return [];
+
+        const settled = (c: ExecutionContext) =>
+            c.state === ExecutorState.DONE || c.state === ExecutorState.FAILED;
+        const incomplete = this.journal.latest().filter((c) => !settled(c));
+        const recovered: ExecutionContext[] = [];
+
+        for (const context of incomplete) {
+            this.logger.warn(
+                `Recovering ${context.signal.signalId} from state ${ExecutorState[context.state]}`,
+            );
+            try {
+                await this.reconcile(context);
+            } catch (error) {
+                this.fail(
+                    context,
+                    `Recovery failed: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+            this.replayProtection.markExecuted(context.signal);
+            context.finishedAt = Date.now() / 1000;
+            this.journal.record(context);
+            recovered.push(this.finish(context));
+        }
+
+        // Settled executions are never replayed, so only the open ones need to stay.
+        this.journal.compact(recovered.filter((c) => !settled(c)));
+        return recovered;
+    }
+
+    public async executeAll(signals: Signal[]): Promise<ExecutionContext[]> {
+        return Promise.all(signals.map((signal) => this.execute(signal)));
+    }
+
+    public openPositions(): ExecutionContext[] {
+        return Array.from(this.openContexts.values());
+    }
+
+    // Base units bought (positive) or sold (negative) by first legs whose hedge has
+    // not filled yet. Inventory only sees them once the trade settles.
+    public unhedgedExposure(): Record<string, number> {
+        const exposure: Record<string, number> = {};
+        for (const context of this.openContexts.values()) {
+            if (context.signal.direction === Direction.CYCLE || !context.leg1Venue) continue;
+            const unhedged = (context.leg1FillSize ?? 0) - (context.leg2FillSize ?? 0);
+            if (unhedged <= 0) continue;
+            const role = this.roleOf(context.leg1Venue);
+            const { side } = this.legOrder(context.signal, role, unhedged);
+            const base = context.signal.pair.split('/')[0];
+            exposure[base] = (exposure[base] ?? 0) + (side === 'buy' ? unhedged : -unhedged);
+        }
+        return exposure;
+    }
+
+    // The venue a pair trade fills first, and so the one a failed trade unwinds on.
+    public firstLeg(): 'cex' | 'dex' {
+        if (this.config.executionMode === 'maker') return 'cex';
+        return this.config.useFlashbots ? 'dex' : 'cex';
+    }
+
+    public isCircuitBreakerOpen(pair?: string): boolean {
+        if (pair === undefined) return this.circuitBreakers.openKeys().length > 0;
+        return this.venueNames().some((venue) => this.circuitBreakers.isOpen(venue, pair));
+    }
+
+    public openCircuitBreakers(): string[] {
+        return this.circuitBreakers.openKeys();
+    }
+
+    private venueNames(): string[] {
+        return [this.venues.cex.name, this.venues.dex.name];
+    }
+
+    private roleOf(venue: string): VenueRole {
+        if (venue === this.venues.cex.name) return 'cex';
+        if (venue === this.venues.dex.name) return 'dex';
+        throw new Error(`Unsupported venue: ${venue}`);
+    }
+
+    // Every venue the trade touches must admit it; half-open breakers hand out
+    // a limited number of probe slots, which are given back if any venue refuses.
+    private reserveBreakers(pair: string): string | null {
+        const reserved: string[] = [];
+        for (const venue of this.venueNames()) {
+            if (!this.circuitBreakers.get(venue, pair).allowRequest()) {
+                for (const held of reserved) this.circuitBreakers.get(held, pair).release();
+                return CircuitBreakerRegistry.key(venue, pair);
+            }
+            reserved.push(venue);
+        }
+        return null;
+    }
+
+    // A failure is charged to the venue of the last leg attempted; the other
+    // venue's probe, if any, is released without a verdict.
+    private recordBreakerOutcome(context: ExecutionContext): void {
+        const { pair } = context.signal;
+        if (context.state === ExecutorState.DONE) {
+            for (const venue of this.venueNames()) this.circuitBreakers.recordSuccess(venue, pair);
+            return;
+        }
+
+        // A maker quote that never filled, or a bundle no builder picked up, says
+        // nothing about venue health.
+        const error = context.error ?? '';
+        if (
+            context.leg1FillSize === null &&
+            (MAKER_MISSES.includes(error) || BUNDLE_NOT_INCLUDED.test(error))
+        ) {
+            for (const venue of this.venueNames()) this.circuitBreakers.get(venue, pair).release();
+            return;
+        }
+
+        const failedVenue = context.leg2Venue || context.leg1Venue;
+        for (const venue of this.venueNames()) {
+            if (venue === failedVenue) {
+                this.circuitBreakers.recordFailure(venue, pair, classifyFailure(context.error));
+            } else {
+                this.circuitBreakers.get(venue, pair).release();
+            }
+        }
+    }
+
+    private transition(context: ExecutionContext, state: ExecutorState): void {
+        context.state = state;
+        this.journal?.record(context);
+
+        if (state === ExecutorState.LEG1_PENDING || state === ExecutorState.LEG2_PENDING) {
+            const leg = state === ExecutorState.LEG1_PENDING ? 1 : 2;
+            const venue = leg === 1 ? context.leg1Venue : context.leg2Venue;
+            this.events.emit('leg_submitted', { context, leg, venue });
+        } else if (state === ExecutorState.LEG1_FILLED) {
+            this.legFilled(context, 1);
+        }
+    }
+
+    private legFilled(context: ExecutionContext, leg: LegNumber): void {
+        this.events.emit('leg_filled', {
+            context,
+            leg,
+            venue: leg === 1 ? context.leg1Venue : context.leg2Venue,
+            price: (leg === 1 ? context.leg1FillPrice : context.leg2FillPrice) ?? 0,
+            size: (leg === 1 ? context.leg1FillSize : context.leg2FillSize) ?? 0,
+        });
+    }
+
+    private finish(context: ExecutionContext): ExecutionContext {
         if (context.state === ExecutorState.DONE) {
-            this.circuitBreaker.recordSuccess();
+            this.events.emit('done', { context });
         } else {
-            this.circuitBreaker.recordFailure();
+            this.events.emit('failed', { context, error: context.error ?? 'Unknown error' });
         }
+        return context;
+    }
 
-        context.finishedAt = Date.now() / 1000;
+    // Turned away before anything was placed, so listeners can tell it from a failed trade.
+    private reject(context: ExecutionContext, error: string): ExecutionContext {
+        this.fail(context, error);
+        this.events.emit('rejected', { context, error });
         return context;
     }
 
-    public isCircuitBreakerOpen(): boolean {
-        return this.circuitBreaker.isOpen();
+    private fail(context: ExecutionContext, error: string): void {
+        context.error = error;
+        this.transition(context, ExecutorState.FAILED);
+    }
+
+    private async reconcile(context: ExecutionContext): Promise<void> {
+        if (context.state <= ExecutorState.VALIDATING) {
+            this.fail(context, 'Interrupted before execution');
+            return;
+        }
+        if (context.signal.direction === Direction.CYCLE) {
+            const held = (context.cycleFills ?? []).length;
+            this.fail(
+                context,
+                `Recovered - cycle interrupted after ${held} legs, manual check required`,
+            );
+            return;
+        }
+
+        if (context.state === ExecutorState.LEG1_PENDING) {
+            const leg1 = await this.fetchLegOutcome(
+                context,
+                context.leg1Venue,
+                context.leg1OrderId,
+            );
+            if (!leg1 || leg1.filled <= 0) {
+                this.fail(
+                    context,
+                    context.leg1OrderId
+                        ? 'Recovered - leg1 not filled'
+                        : 'Recovered - leg1 outcome unknown, manual check required',
+                );
+                return;
+            }
+            context.leg1FillPrice = leg1.price;
+            context.leg1FillSize = leg1.filled;
+            this.addFees(context, leg1);
+            this.transition(context, ExecutorState.LEG1_FILLED);
+        }
+
+        if (
+            context.state === ExecutorState.LEG1_FILLED ||
+            context.state === ExecutorState.LEG2_PENDING
+        ) {
+            const leg2 = await this.fetchLegOutcome(context, context.leg2Venue, context.leg2TxHash);
+            if (leg2 && leg2.filled > 0) {
+                context.leg2FillPrice = leg2.price;
+                context.leg2FillSize = leg2.filled;
+                this.addFees(context, leg2);
+                this.legFilled(context, 2);
+                context.actualNetPnl = this.calculatePnl(context);
+                this.transition(context, ExecutorState.DONE);
+                return;
+            }
+            this.transition(context, ExecutorState.UNWINDING);
+        }
+
+        await this.unwind(context);
+        this.fail(context, this.unwoundError(context, 'Recovered'));
+    }
+
+    private async fetchLegOutcome(
+        context: ExecutionContext,
+        venue: string,
+        reference: string | null,
+    ): Promise<LegResult | null> {
+        if (!reference) return null;
+
+        const role = this.roleOf(venue);
+        const order = this.legOrder(context.signal, role, context.signal.size.toNumber());
+        order.feeBps = context.dexFeeBps ?? undefined;
+        return this.venues[role].cancel(order, reference);
     }
 
     private createContext(signal: Signal): ExecutionContext {
@@ -156,317 +556,695 @@ export class Executor {
             leg2TxHash: null,
             leg2FillPrice: null,
             leg2FillSize: null,
+            dexFeeBps: null,
             startedAt: Date.now() / 1000,
             finishedAt: null,
             actualNetPnl: null,
+            partialFill: null,
+            unwind: null,
+            fees: { cexFee: 0, dexFee: 0, gasCost: 0, total: 0 },
+            cycleFills: [],
             error: null,
         };
     }
 
+    // Each slice is a full paired trade on its own child context (journaled under
+    // `<signalId>_s<n>` so recovery sees it); the parent only aggregates fills.
+    private async executeSliced(context: ExecutionContext): Promise<ExecutionContext> {
+        const { signal } = context;
+        const total = signal.size.toNumber();
+        const slices: ExecutionContext[] = [];
+        let filled = 0;
+        let stopReason: string | null = null;
+
+        while (slices.length < this.slicePlanner.maxSlices && total - filled > total * 1e-9) {
+            if (slices.length > 0) await this.sleep(this.slicePlanner.sliceIntervalMs);
+
+            const plan = await this.slicePlanner.plan(
+                total - filled,
+                signal.direction,
+                signal.pair,
+                this.venues,
+            );
+            if (!plan) {
+                stopReason = 'Edge below minimum on re-quote';
+                break;
+            }
+
+            const slice = this.createContext(this.sliceSignal(signal, plan, slices.length + 1));
+            slices.push(slice);
+            const result = this.config.useFlashbots
+                ? await this.executeDexFirst(slice)
+                : await this.executeCexFirst(slice);
+            if (result.state !== ExecutorState.DONE) {
+                stopReason = result.error;
+                break;
+            }
+            filled += Math.min(result.leg1FillSize ?? 0, result.leg2FillSize ?? 0);
+        }
+
+        return this.aggregateSlices(context, slices, stopReason);
+    }
+
+    private sliceSignal(parent: Signal, plan: SlicePlan, index: number): Signal {
+        const ratio = plan.size / parent.size.toNumber();
+        const gross = plan.cexPrice.mul(plan.size).mul(plan.edgeBps).div(10_000);
+        const fees = parent.expectedFees.mul(ratio);
+
+        return new Signal({
+            signalId: `${parent.signalId}_s${index}`,
+            pair: parent.pair,
+            direction: parent.direction,
+            cexPrice: plan.cexPrice,
+            dexPrice: plan.dexPrice,
+            spreadBps: plan.edgeBps,
+            size: plan.size,
+            expectedGrossPnl: gross,
+            expectedFees: fees,
+            expectedNetPnl: gross.sub(fees),
+            score: parent.score,
+            expiry: parent.expiry,
+            inventoryOk: parent.inventoryOk,
+            withinLimits: parent.withinLimits,
+            sourceTimestamp: plan.timestamp,
+        });
+    }
+
+    private aggregateSlices(
+        context: ExecutionContext,
+        slices: ExecutionContext[],
+        stopReason: string | null,
+    ): ExecutionContext {
+        const done = slices.filter((s) => s.state === ExecutorState.DONE);
+        const vwap = (fills: [number | null, number | null][]): [number, number] => {
+            const size = fills.reduce((sum, [, s]) => sum + (s ?? 0), 0);
+            const cost = fills.reduce((sum, [p, s]) => sum + (p ?? 0) * (s ?? 0), 0);
+            return [size, size > 0 ? cost / size : 0];
+        };
+
+        if (slices.length > 0) {
+            const last = slices[slices.length - 1];
+            context.leg1Venue = last.leg1Venue;
+            context.leg2Venue = last.leg2Venue;
+            context.leg1OrderId = last.leg1OrderId;
+            context.leg2TxHash = last.leg2TxHash;
+        }
+        [context.leg1FillSize, context.leg1FillPrice] = vwap(
+            done.map((s) => [s.leg1FillPrice, s.leg1FillSize]),
+        );
+        [context.leg2FillSize, context.leg2FillPrice] = vwap(
+            done.map((s) => [s.leg2FillPrice, s.leg2FillSize]),
+        );
+        for (const slice of slices) {
+            context.fees.cexFee += slice.fees.cexFee;
+            context.fees.dexFee += slice.fees.dexFee;
+            context.fees.gasCost += slice.fees.gasCost;
+        }
+        context.fees.total = context.fees.cexFee + context.fees.gasCost;
+
+        // Failed slices were unwound: their fees and unwind loss still count.
+        context.actualNetPnl = slices.reduce((sum, s) => sum + (realizedPnl(s) ?? 0), 0);
+
+        const failed = slices.find((s) => s.state !== ExecutorState.DONE);
+        if (failed?.unwind && !failed.unwind.flattened) {
+            context.unwind = failed.unwind;
+            this.fail(context, `Slice ${failed.signal.signalId}: ${failed.error}`);
+            return context;
+        }
+        if (done.length === 0) {
+            this.fail(context, stopReason ?? 'No slices executed');
+            return context;
+        }
+
+        const requested = context.signal.size.toNumber();
+        const executed = Math.min(context.leg1FillSize, context.leg2FillSize);
+        if (executed < requested * (1 - 1e-9)) {
+            context.partialFill = {
+                requested,
+                filled: executed,
+                notional: executed * context.leg1FillPrice,
+                action: 'hedge',
+                reason: `Sliced execution stopped after ${done.length} slices: ${stopReason}`,
+            };
+        }
+        this.transition(context, ExecutorState.DONE);
+        return context;
+    }
+
     private async executeCexFirst(context: ExecutionContext): Promise<ExecutionContext> {
         const { signal } = context;
 
-        context.state = ExecutorState.LEG1_PENDING;
-        context.leg1Venue = 'cex';
+        context.leg1Venue = this.venues.cex.name;
+        this.transition(context, ExecutorState.LEG1_PENDING);
 
-        let leg1: LegExecutionResult;
+        let leg1: LegResult;
         try {
-            leg1 = await this.waitFor(this.executeCexLeg(signal), this.config.leg1Timeout);
+            leg1 = await this.executeLeg(context, 1, signal, signal.size.toNumber());
         } catch (error) {
             if (error instanceof TimeoutError) {
-                context.state = ExecutorState.FAILED;
-                context.error = 'CEX timeout';
+                this.fail(context, 'CEX timeout');
                 return context;
             }
-            context.state = ExecutorState.FAILED;
-            context.error = error instanceof Error ? error.message : 'CEX rejected';
+            this.fail(context, error instanceof Error ? error.message : 'CEX rejected');
             return context;
         }
 
-        if (!leg1.success) {
-            context.state = ExecutorState.FAILED;
-            context.error = leg1.error ?? 'CEX rejected';
+        if (!leg1.success && leg1.filled <= 0) {
+            this.fail(context, leg1.error ?? 'CEX rejected');
             return context;
         }
 
-        if (leg1.filled / signal.size.toNumber() < this.config.minFillRatio) {
-            context.state = ExecutorState.FAILED;
-            context.error = 'Partial fill below threshold';
-            return context;
-        }
+        return this.hedgeCexFill(context, signal, leg1);
+    }
 
-        context.leg1OrderId = leg1.orderId ?? null;
+    // Second half of a CEX-first trade: record the CEX fill and hedge it on the DEX,
+    // unwinding the CEX side when the hedge fails.
+    private async hedgeCexFill(
+        context: ExecutionContext,
+        signal: Signal,
+        leg1: LegResult,
+    ): Promise<ExecutionContext> {
+        context.leg1OrderId = leg1.reference ?? context.leg1OrderId;
         context.leg1FillPrice = leg1.price;
         context.leg1FillSize = leg1.filled;
-        context.state = ExecutorState.LEG1_FILLED;
+        this.addFees(context, leg1);
+        this.transition(context, ExecutorState.LEG1_FILLED);
+
+        if (leg1.filled / signal.size.toNumber() < this.config.minFillRatio) {
+            context.partialFill = this.decidePartialFill(signal, leg1.price, leg1.filled);
+            this.logger.warn(
+                `Partial fill ${leg1.filled}/${signal.size.toString()} on ${signal.signalId}: ${context.partialFill.action} (${context.partialFill.reason})`,
+            );
+
+            if (context.partialFill.action === 'hold') {
+                this.fail(context, 'Partial fill below threshold - held');
+                return context;
+            }
+            if (context.partialFill.action === 'unwind') {
+                this.transition(context, ExecutorState.UNWINDING);
+                await this.unwind(context);
+                this.fail(context, this.unwoundError(context, 'Partial fill below threshold'));
+                return context;
+            }
+        }
 
-        context.state = ExecutorState.LEG2_PENDING;
-        context.leg2Venue = 'dex';
+        context.leg2Venue = this.venues.dex.name;
+        this.transition(context, ExecutorState.LEG2_PENDING);
 
-        let leg2: LegExecutionResult;
+        let leg2: LegResult;
         try {
-            leg2 = await this.waitFor(
-                this.executeDexLeg(signal, context.leg1FillSize),
-                this.config.leg2Timeout,
-            );
+            leg2 = await this.executeLeg(context, 2, signal, context.leg1FillSize);
         } catch (error) {
             if (error instanceof TimeoutError) {
-                context.state = ExecutorState.UNWINDING;
+                this.transition(context, ExecutorState.UNWINDING);
                 await this.unwind(context);
-                context.state = ExecutorState.FAILED;
-                context.error = 'DEX timeout - unwound';
+                this.fail(context, this.unwoundError(context, 'DEX timeout'));
                 return context;
             }
-            context.state = ExecutorState.UNWINDING;
+            this.transition(context, ExecutorState.UNWINDING);
             await this.unwind(context);
-            context.state = ExecutorState.FAILED;
-            context.error =
-                error instanceof Error ? `${error.message} - unwound` : 'DEX failed - unwound';
+            this.fail(
+                context,
+                this.unwoundError(context, error instanceof Error ? error.message : 'DEX failed'),
+            );
             return context;
         }
 
         if (!leg2.success) {
-            context.state = ExecutorState.UNWINDING;
+            this.transition(context, ExecutorState.UNWINDING);
             await this.unwind(context);
-            context.state = ExecutorState.FAILED;
-            context.error = 'DEX failed - unwound';
+            this.fail(context, this.unwoundError(context, 'DEX failed'));
             return context;
         }
 
-        context.leg2TxHash = leg2.txHash ?? null;
+        context.leg2TxHash = leg2.reference ?? null;
         context.leg2FillPrice = leg2.price;
         context.leg2FillSize = leg2.filled;
+        this.addFees(context, leg2);
+        this.legFilled(context, 2);
         context.actualNetPnl = this.calculatePnl(context);
-        context.state = ExecutorState.DONE;
+        this.transition(context, ExecutorState.DONE);
         return context;
     }
 
+    // Rests a post-only order on the cex side priced to clear the dex side, and fires the
+    // dex leg once it fills. The dex side is re-quoted on every poll and the order is
+    // pulled if it moves away.
+    private async executeMaker(context: ExecutionContext): Promise<ExecutionContext> {
+        const { signal } = context;
+        const size = signal.size.toNumber();
+        const hedgeSide = this.legOrder(signal, 'dex', size).side;
+
+        const [ask, bid, hedge] = await Promise.all([
+            this.venues.cex.quote(signal.pair, 'buy', size),
+            this.venues.cex.quote(signal.pair, 'sell', size),
+            this.venues.dex.quote(signal.pair, hedgeSide, size),
+        ]);
+        if (!ask || !bid || !hedge) {
+            this.fail(context, `No quote for ${signal.pair}`);
+            return context;
+        }
+        const quote = this.makerQuoter.quote(signal.direction, size, new Decimal(hedge.price), {
+            bid: new Decimal(bid.touch),
+            ask: new Decimal(ask.touch),
+        });
+        if (!quote) {
+            this.fail(context, MAKER_NO_EDGE);
+            return context;
+        }
+
+        const makerSignal = this.makerSignal(signal, quote, bid.timestamp);
+        context.leg1Venue = this.venues.cex.name;
+        this.transition(context, ExecutorState.LEG1_PENDING);
+
+        let leg1: LegResult;
+        try {
+            leg1 = await this.restMakerOrder(context, makerSignal, quote);
+        } catch (error) {
+            if (error instanceof TimeoutError) {
+                this.fail(context, 'CEX timeout');
+                return context;
+            }
+            this.fail(context, error instanceof Error ? error.message : 'CEX rejected');
+            return context;
+        }
+        if (leg1.filled <= 0) {
+            this.fail(context, leg1.error ?? MAKER_EXPIRED);
+            return context;
+        }
+
+        return this.hedgeCexFill(context, makerSignal, leg1);
+    }
+
+    private async restMakerOrder(
+        context: ExecutionContext,
+        signal: Signal,
+        quote: MakerQuote,
+    ): Promise<LegResult> {
+        const price = quote.price.toNumber();
+        const order: LegOrder = {
+            ...this.legOrder(signal, 'cex', quote.size, 'post_only'),
+            price,
+            limitPrice: price,
+            onSubmitted: (reference) => {
+                context.leg1OrderId = reference;
+                this.journal?.record(context);
+            },
+        };
+        const hedgeSide = order.side === 'buy' ? 'sell' : 'buy';
+        const deadline = Date.now() + this.makerQuoter.quoteTimeoutSeconds * 1000;
+
+        const placed = await this.venues.cex.execute(order);
+        if (!placed.pending || !placed.reference) return placed;
+
+        let reason = MAKER_EXPIRED;
+        for (;;) {
+            const fill = await this.venues.cex.fetchFill(order, placed.reference);
+            if (!fill.pending) return fill;
+
+            if (Date.now() >= deadline) break;
+            const hedge = await this.venues.dex.quote(signal.pair, hedgeSide, quote.size);
+            const hedgePrice = hedge ? new Decimal(hedge.price) : null;
+            if (this.makerQuoter.shouldCancel(signal.direction, quote, hedgePrice)) {
+                this.logger.info(
+                    `Cancelling maker order for ${signal.signalId}: hedge at ${hedgePrice?.toString() ?? 'n/a'}`,
+                );
+                reason = MAKER_CANCELLED;
+                break;
+            }
+            await this.sleep(this.config.orderPollInterval * 1000);
+        }
+
+        // A fill that lands before the cancel is still hedged.
+        const result = await this.venues.cex.cancel(order, placed.reference);
+        return result.success ? result : { ...result, error: reason };
+    }
+
+    private makerSignal(parent: Signal, quote: MakerQuote, bookTime: number): Signal {
+        const gross = quote.dexPrice.sub(quote.price).abs().mul(quote.size);
+
+        return new Signal({
+            signalId: parent.signalId,
+            pair: parent.pair,
+            direction: parent.direction,
+            cexPrice: quote.price,
+            dexPrice: quote.dexPrice,
+            spreadBps: quote.edgeBps,
+            size: quote.size,
+            expectedGrossPnl: gross,
+            expectedFees: parent.expectedFees,
+            expectedNetPnl: gross.sub(parent.expectedFees),
+            score: parent.score,
+            expiry: parent.expiry,
+            inventoryOk: parent.inventoryOk,
+            withinLimits: parent.withinLimits,
+            timestamp: parent.timestamp,
+            sourceTimestamp: bookTime,
+        });
+    }
+
+    // Hedge the filled base on the DEX when the residual edge beats gas plus the cost of
+    // unwinding on the CEX; dust below MIN_NOTIONAL cannot be unwound there at all.
+    private decidePartialFill(
+        signal: Signal,
+        fillPrice: number,
+        filled: number,
+    ): PartialFillOutcome {
+        const notional = filled * fillPrice;
+        const dexPrice = signal.dexPrice.toNumber();
+        const grossEdge =
+            signal.direction === Direction.BUY_CEX_SELL_DEX
+                ? (dexPrice - fillPrice) * filled
+                : (fillPrice - dexPrice) * filled;
+        const hedgePnl =
+            grossEdge - (notional * Config.DEX_SWAP_BPS) / 10_000 - this.config.gasCostUsd;
+        const base = { requested: signal.size.toNumber(), filled, notional };
+
+        if (notional < this.config.minNotional) {
+            return hedgePnl > 0
+                ? { ...base, action: 'hedge', reason: `hedge pnl ${hedgePnl.toFixed(4)} > 0` }
+                : {
+                      ...base,
+                      action: 'hold',
+                      reason: `notional ${notional.toFixed(2)} below min ${this.config.minNotional}, hedge pnl ${hedgePnl.toFixed(4)}`,
+                  };
+        }
+
+        const unwindCost = (notional * Config.CEX_TAKER_BPS) / 10_000;
+        return hedgePnl >= -unwindCost
+            ? {
+                  ...base,
+                  action: 'hedge',
+                  reason: `hedge pnl ${hedgePnl.toFixed(4)} >= unwind cost -${unwindCost.toFixed(4)}`,
+              }
+            : {
+                  ...base,
+                  action: 'unwind',
+                  reason: `hedge pnl ${hedgePnl.toFixed(4)} < unwind cost -${unwindCost.toFixed(4)}`,
+              };
+    }
+
     private async executeDexFirst(context: ExecutionContext): Promise<ExecutionContext> {
         const { signal } = context;
 
-        context.state = ExecutorState.LEG1_PENDING;
-        context.leg1Venue = 'dex';
+        context.leg1Venue = this.venues.dex.name;
+        this.transition(context, ExecutorState.LEG1_PENDING);
 
-        let leg1: LegExecutionResult;
+        let leg1: LegResult;
         try {
-            leg1 = await this.waitFor(
-                this.executeDexLeg(signal, signal.size.toNumber()),
-                this.config.leg2Timeout,
-            );
+            leg1 = await this.executeLeg(context, 1, signal, signal.size.toNumber(), 'bundle');
         } catch (error) {
             if (error instanceof TimeoutError) {
-                context.state = ExecutorState.FAILED;
-                context.error = 'DEX timeout';
+                this.fail(context, 'DEX timeout');
                 return context;
             }
-            context.state = ExecutorState.FAILED;
-            context.error = error instanceof Error ? error.message : 'DEX failed';
+            this.fail(context, error instanceof Error ? error.message : 'DEX failed');
             return context;
         }
 
         if (!leg1.success) {
-            context.state = ExecutorState.FAILED;
-            context.error = 'DEX failed (no cost via Flashbots)';
+            this.logger.info(`DEX leg not executed for ${signal.signalId}: ${leg1.error}`);
+            this.fail(context, leg1.error ?? 'DEX failed');
             return context;
         }
 
+        context.leg1OrderId = leg1.reference ?? null;
         context.leg1FillPrice = leg1.price;
         context.leg1FillSize = leg1.filled;
-        context.state = ExecutorState.LEG1_FILLED;
+        this.addFees(context, leg1);
+        this.transition(context, ExecutorState.LEG1_FILLED);
 
-        context.state = ExecutorState.LEG2_PENDING;
-        context.leg2Venue = 'cex';
+        context.leg2Venue = this.venues.cex.name;
+        this.transition(context, ExecutorState.LEG2_PENDING);
 
-        let leg2: LegExecutionResult;
+        let leg2: LegResult;
         try {
-            leg2 = await this.waitFor(
-                this.executeCexLeg(signal, context.leg1FillSize),
-                this.config.leg1Timeout,
-            );
+            leg2 = await this.executeLeg(context, 2, signal, context.leg1FillSize);
         } catch (error) {
             if (error instanceof TimeoutError) {
-                context.state = ExecutorState.UNWINDING;
+                this.transition(context, ExecutorState.UNWINDING);
                 await this.unwind(context);
-                context.state = ExecutorState.FAILED;
-                context.error = 'CEX timeout after DEX - unwound';
+                this.fail(context, this.unwoundError(context, 'CEX timeout after DEX'));
                 return context;
             }
-            context.state = ExecutorState.UNWINDING;
+            this.transition(context, ExecutorState.UNWINDING);
             await this.unwind(context);
-            context.state = ExecutorState.FAILED;
-            context.error =
-                error instanceof Error
-                    ? `${error.message} after DEX - unwound`
-                    : 'CEX failed after DEX - unwound';
+            this.fail(
+                context,
+                this.unwoundError(
+                    context,
+                    error instanceof Error ? `${error.message} after DEX` : 'CEX failed after DEX',
+                ),
+            );
             return context;
         }
 
         if (!leg2.success) {
-            context.state = ExecutorState.UNWINDING;
+            this.transition(context, ExecutorState.UNWINDING);
+            if (leg2.filled > 0) {
+                // A late or partial CEX fill already hedges part of the DEX leg.
+                context.leg2TxHash = leg2.reference ?? null;
+                context.leg2FillPrice = leg2.price;
+                context.leg2FillSize = leg2.filled;
+                this.addFees(context, leg2);
+                this.legFilled(context, 2);
+                await this.unwind(context, context.leg1FillSize - leg2.filled);
+                this.fail(
+                    context,
+                    this.unwoundError(
+                        context,
+                        `CEX filled ${leg2.filled} after DEX`,
+                        'unwound residual',
+                    ),
+                );
+                return context;
+            }
             await this.unwind(context);
-            context.state = ExecutorState.FAILED;
-            context.error = 'CEX failed after DEX - unwound';
+            this.fail(context, this.unwoundError(context, 'CEX failed after DEX'));
             return context;
         }
 
-        context.leg2TxHash = leg2.orderId ?? null;
+        context.leg2TxHash = leg2.reference ?? null;
         context.leg2FillPrice = leg2.price;
         context.leg2FillSize = leg2.filled;
+        this.addFees(context, leg2);
+        this.legFilled(context, 2);
         context.actualNetPnl = this.calculatePnl(context);
-        context.state = ExecutorState.DONE;
+        this.transition(context, ExecutorState.DONE);
         return context;
     }
 
-    private async executeCexLeg(signal: Signal, size?: number): Promise<LegExecutionResult> {
-        const actualSize = size ?? signal.size.toNumber();
-        if (this.config.simulationMode) {
-            await this.sleep(100);
-            return {
-                success: true,
-                price: signal.cexPrice.mul(1.0001).toNumber(),
-                filled: actualSize,
-            };
-        }
-
-        const side = signal.direction === Direction.BUY_CEX_SELL_DEX ? 'buy' : 'sell';
-        const result = await this.exchange.createLimitIocOrder(
-            signal.pair,
-            side,
-            actualSize,
-            signal.cexPrice.mul(1.001).toNumber(),
-        );
-
-        return {
-            success: result.status === 'filled',
-            price: result.avg_fill_price.toNumber(),
-            filled: result.amount_filled.toNumber(),
-            orderId: result.id,
-            error: result.status,
-        };
-    }
+    // Runs the legs in order, each spending what the previous one returned. leg1/leg2
+    // track the first and last legs; a leg that fills nothing reverses every
+    // earlier leg, last first, back into the anchor.
+    private async executeCycle(context: ExecutionContext): Promise<ExecutionContext> {
+        const { signal } = context;
+        let amount = signal.size.toNumber();
+        let spent: number | null = null;
 
-    private async executeDexLeg(signal: Signal, size: number): Promise<LegExecutionResult> {
-        if (this.config.simulationMode) {
-            await this.sleep(500);
-            return {
-                success: true,
-                price: signal.dexPrice.mul(0.9998).toNumber(),
-                filled: size,
-                txHash: `sim-${signal.signalId}`,
-            };
-        }
+        for (const [index, leg] of signal.legs.entries()) {
+            const venue = this.venues[leg.venue];
+            const last = index === signal.legs.length - 1;
+            if (index === 0) {
+                context.leg1Venue = venue.name;
+                this.transition(context, ExecutorState.LEG1_PENDING);
+            } else {
+                context.leg2Venue = venue.name;
+                this.transition(context, ExecutorState.LEG2_PENDING);
+            }
 
-        try {
-            const [baseSymbolRaw, quoteSymbolRaw] = signal.pair.split('/');
-            const baseSymbol = baseSymbolRaw.toUpperCase();
-            const quoteSymbol = quoteSymbolRaw.toUpperCase();
-            const baseAddress = this.tokenMap[baseSymbol];
-            const quoteAddress = this.tokenMap[quoteSymbol];
-            if (!baseAddress || !quoteAddress) {
-                return {
+            const order = this.cycleOrder(signal, leg, index, amount);
+            let result: LegResult;
+            try {
+                result = await waitFor(venue.execute(order), this.config.leg2Timeout);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                result = {
                     success: false,
                     price: 0,
                     filled: 0,
-                    error: `Unsupported DEX pair ${signal.pair}`,
+                    error: error instanceof TimeoutError ? `${venue.name} timeout` : message,
                 };
             }
 
-            const baseDecimals = this.decimalsMap[baseSymbol] ?? 18;
-            const quoteDecimals = this.decimalsMap[quoteSymbol] ?? 18;
-            const gasPriceGwei = await this.priceEngine.fetchGasPriceGwei();
-
-            if (signal.direction === Direction.BUY_CEX_SELL_DEX) {
-                const amountInWei = this.toWei(size, baseDecimals);
-                const quote = await this.priceEngine.getQuote(
-                    new Token(baseSymbol, baseDecimals, new Address(baseAddress)),
-                    new Token(quoteSymbol, quoteDecimals, new Address(quoteAddress)),
-                    amountInWei,
-                    gasPriceGwei,
-                );
-                if (!quote.isValid || quote.simulatedOutput <= 0n) {
-                    return {
-                        success: false,
-                        price: 0,
-                        filled: 0,
-                        error: 'DEX quote invalid for sell leg',
-                    };
+            if (result.filled <= 0) {
+                const reason = `Cycle leg ${index + 1} failed: ${result.error ?? 'not filled'}`;
+                if (context.cycleFills.length === 0) {
+                    this.fail(context, reason);
+                    return context;
                 }
-
-                const quoteOut = this.fromWei(quote.simulatedOutput, quoteDecimals);
-                const execPrice = quoteOut.div(size).toNumber();
-                return {
-                    success: true,
-                    price: execPrice,
-                    filled: size,
-                    txHash: `dex-${signal.signalId}-${Math.floor(Date.now() / 1000)}`,
-                };
+                this.transition(context, ExecutorState.UNWINDING);
+                await this.unwindCycle(context);
+                this.fail(context, this.unwoundError(context, reason));
+                return context;
             }
 
-            const quoteToSpend = new Decimal(size).mul(signal.cexPrice);
-            const amountInQuoteWei = this.toWei(quoteToSpend, quoteDecimals);
-            const quote = await this.priceEngine.getQuote(
-                new Token(quoteSymbol, quoteDecimals, new Address(quoteAddress)),
-                new Token(baseSymbol, baseDecimals, new Address(baseAddress)),
-                amountInQuoteWei,
-                gasPriceGwei,
-            );
-            if (!quote.isValid || quote.simulatedOutput <= 0n) {
-                return {
-                    success: false,
-                    price: 0,
-                    filled: 0,
-                    error: 'DEX quote invalid for buy leg',
-                };
-            }
+            context.cycleFills.push({
+                venue: venue.name,
+                pair: leg.pair,
+                side: order.side,
+                size: result.filled,
+                price: result.price,
+                reference: result.reference ?? null,
+            });
+            this.addFees(context, result);
+            spent ??= leg.side === 'buy' ? result.filled * result.price : result.filled;
+            amount = leg.side === 'buy' ? result.filled : result.filled * result.price;
 
-            const baseOut = this.fromWei(quote.simulatedOutput, baseDecimals);
-            const filledBase = baseOut.toNumber();
-            if (filledBase <= 0) {
-                return { success: false, price: 0, filled: 0, error: 'DEX produced zero fill' };
+            if (index === 0) {
+                context.leg1OrderId = result.reference ?? null;
+                context.leg1FillPrice = result.price;
+                context.leg1FillSize = result.filled;
+                this.transition(context, ExecutorState.LEG1_FILLED);
             }
+            if (last) {
+                context.leg2TxHash = result.reference ?? null;
+                context.leg2FillPrice = result.price;
+                context.leg2FillSize = result.filled;
+                this.legFilled(context, 2);
+            }
+        }
 
-            return {
-                success: true,
-                price: quoteToSpend.div(baseOut).toNumber(),
-                filled: filledBase,
-                txHash: `dex-${signal.signalId}-${Math.floor(Date.now() / 1000)}`,
-            };
-        } catch (error) {
-            return {
-                success: false,
-                price: 0,
-                filled: 0,
-                error: error instanceof Error ? error.message : 'DEX execution failed',
+        context.actualNetPnl = amount - (spent ?? 0) - context.fees.total;
+        this.transition(context, ExecutorState.DONE);
+        return context;
+    }
+
+    // Buys are sized in base from the quote on hand at the slipped limit, so the
+    // order never needs more than the previous leg returned.
+    private cycleOrder(signal: Signal, leg: SignalLeg, index: number, amount: number): LegOrder {
+        const slip = leg.venue === 'cex' ? (leg.side === 'buy' ? 1.001 : 0.999) : 1;
+        const limitPrice = leg.price * slip;
+        return {
+            id: `${signal.signalId}_c${index + 1}`,
+            pair: leg.pair,
+            side: leg.side,
+            size: leg.side === 'buy' ? amount / limitPrice : amount,
+            price: leg.price,
+            limitPrice,
+            pool: leg.pool,
+        };
+    }
+
+    private async unwindCycle(context: ExecutionContext): Promise<void> {
+        const fills = [...context.cycleFills].reverse();
+        this.events.emit('unwind_started', { context, size: fills[0]?.size ?? 0 });
+
+        for (const fill of fills) {
+            const side: LegSide = fill.side === 'buy' ? 'sell' : 'buy';
+            const order: LegOrder = {
+                id: `${context.signal.signalId}_unwind`,
+                pair: fill.pair,
+                side,
+                size: fill.size,
+                price: fill.price,
+                limitPrice: fill.price,
             };
+            const handlers = this.venues[this.roleOf(fill.venue)].unwindHandlers(
+                order,
+                this.unwindStrategy.aggressiveLimitBps,
+            );
+
+            const outcome = await this.unwindStrategy.run(fill.size, side, fill.price, handlers);
+            context.unwind = outcome;
+            this.journal?.record(context);
+            if (!outcome.flattened) {
+                this.logger.error(
+                    `Unwind of ${context.signal.signalId} stuck on ${fill.pair}: ${outcome.remaining} left (${outcome.error})`,
+                );
+                this.events.emit('unwind_failed', { context, outcome });
+                return;
+            }
         }
     }
 
-    private async unwind(context: ExecutionContext): Promise<void> {
-        if (this.config.simulationMode) {
-            await this.sleep(100);
-            return;
-        }
+    // Every leg is bounded by leg2Timeout; venues apply their own order timeouts inside it.
+    private async executeLeg(
+        context: ExecutionContext,
+        leg: LegNumber,
+        signal: Signal,
+        size: number,
+        mode?: LegMode,
+    ): Promise<LegResult> {
+        const role = this.roleOf(leg === 1 ? context.leg1Venue : context.leg2Venue);
+        const order = this.legOrder(signal, role, size, mode);
+        order.onSubmitted = (reference, feeBps) => {
+            if (leg === 1) context.leg1OrderId = reference;
+            else context.leg2TxHash = reference;
+            if (feeBps !== undefined) context.dexFeeBps = feeBps;
+            this.journal?.record(context);
+        };
+        return waitFor(this.venues[role].execute(order), this.config.leg2Timeout);
+    }
 
-        if (!context.leg1FillSize) {
+    // Each side trades at its own signal price. The cex side may slip 10 bps past it;
+    // the dex side is bounded by the cex price, which also sizes a buy in quote terms.
+    private legOrder(signal: Signal, role: VenueRole, size: number, mode?: LegMode): LegOrder {
+        const buy = (signal.direction === Direction.BUY_CEX_SELL_DEX) === (role === 'cex');
+        const price = role === 'cex' ? signal.cexPrice : signal.dexPrice;
+        const limitPrice =
+            role === 'cex' ? signal.cexPrice.mul(buy ? 1.001 : 0.999) : signal.cexPrice;
+
+        return {
+            id: signal.signalId,
+            pair: signal.pair,
+            side: buy ? 'buy' : 'sell',
+            size,
+            price: price.toNumber(),
+            limitPrice: limitPrice.toNumber(),
+            mode,
+        };
+    }
+
+    private addFees(context: ExecutionContext, leg: LegResult): void {
+        if (!leg.fees) return;
+        const fees = context.fees;
+        fees.cexFee += leg.fees.cex;
+        fees.dexFee += leg.fees.dex;
+        fees.gasCost += leg.fees.gas;
+        fees.total = fees.cexFee + fees.gasCost;
+    }
+
+    private async unwind(
+        context: ExecutionContext,
+        size: number | null = context.leg1FillSize,
+    ): Promise<void> {
+        this.events.emit('unwind_started', { context, size: size ?? 0 });
+        if (!size || size <= 0) {
             throw new Error('Cannot unwind without leg1 fill size');
         }
 
-        if (context.leg1Venue === 'cex') {
-            const side = context.signal.direction === Direction.BUY_CEX_SELL_DEX ? 'sell' : 'buy';
-            await this.exchange.createMarketOrder(context.signal.pair, side, context.leg1FillSize);
-            return;
-        }
+        const { signal } = context;
+        const role = this.roleOf(context.leg1Venue);
+        const order = this.legOrder(this.reverseSignalDirection(signal), role, size);
+        const entryPrice =
+            context.leg1FillPrice ??
+            (role === 'cex' ? signal.cexPrice : signal.dexPrice).toNumber();
+        const handlers = this.venues[role].unwindHandlers(
+            order,
+            this.unwindStrategy.aggressiveLimitBps,
+        );
 
-        if (context.leg1Venue === 'dex') {
-            const reverseSignal = this.reverseSignalDirection(context.signal);
-            const unwindResult = await this.executeDexLeg(reverseSignal, context.leg1FillSize);
-            if (!unwindResult.success) {
-                throw new Error(unwindResult.error ?? 'DEX unwind failed');
-            }
-            return;
+        const outcome = await this.unwindStrategy.run(size, order.side, entryPrice, handlers);
+        context.unwind = outcome;
+        this.journal?.record(context);
+
+        if (!outcome.flattened) {
+            this.logger.error(
+                `Unwind of ${signal.signalId} incomplete: ${outcome.remaining} left (${outcome.error})`,
+            );
+            this.events.emit('unwind_failed', { context, outcome });
         }
+    }
 
-        throw new Error(`Unsupported unwind venue: ${context.leg1Venue}`);
+    private unwoundError(
+        context: ExecutionContext,
+        reason: string,
+        unwound: string = 'unwound',
+    ): string {
+        const outcome = context.unwind;
+        if (!outcome || outcome.flattened) return `${reason} - ${unwound}`;
+        return `${reason} - unwind failed with ${outcome.remaining} left: ${outcome.error}`;
     }
 
     private reverseSignalDirection(signal: Signal): Signal {
@@ -491,6 +1269,7 @@ export class Executor {
             inventoryOk: signal.inventoryOk,
             withinLimits: signal.withinLimits,
             timestamp: signal.timestamp,
+            sourceTimestamp: signal.sourceTimestamp,
         });
     }
 
@@ -503,33 +1282,19 @@ export class Executor {
             return 0;
         }
 
-        const { signal } = context;
+        const size = Math.min(context.leg1FillSize, context.leg2FillSize ?? context.leg1FillSize);
+        const [cexPrice, dexPrice] =
+            this.roleOf(context.leg1Venue) === 'cex'
+                ? [context.leg1FillPrice, context.leg2FillPrice]
+                : [context.leg2FillPrice, context.leg1FillPrice];
         const gross =
-            signal.direction === Direction.BUY_CEX_SELL_DEX
-                ? (context.leg2FillPrice - context.leg1FillPrice) * context.leg1FillSize
-                : (context.leg1FillPrice - context.leg2FillPrice) * context.leg1FillSize;
-        const fees = context.leg1FillSize * context.leg1FillPrice * 0.004;
-        return gross - fees;
-    }
-
-    private async waitFor<T>(promise: Promise<T>, timeoutSeconds: number): Promise<T> {
-        const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new TimeoutError('Timed out')), timeoutSeconds * 1000);
-        });
-        return Promise.race([promise, timeoutPromise]);
+            context.signal.direction === Direction.BUY_CEX_SELL_DEX
+                ? (dexPrice - cexPrice) * size
+                : (cexPrice - dexPrice) * size;
+        return gross - context.fees.total;
     }
 
     private sleep(ms: number): Promise<void> {
         return new Promise((resolve) => setTimeout(resolve, ms));
     }
-
-    private toWei(amount: Decimal.Value, decimals: number): bigint {
-        const dec = new Decimal(amount);
-        const wei = dec.mul(new Decimal(10).pow(decimals));
-        return BigInt(wei.toFixed(0));
-    }
-
-    private fromWei(amount: bigint, decimals: number): Decimal {
-        return new Decimal(amount.toString()).div(new Decimal(10).pow(decimals));
-    }
 }
@@ -0,0 +1,71 @@
+import type { ExecutionContext } from './engine';
+import type { UnwindOutcome } from './unwind';
+import { getLogger } from '../logger';
+
+export type LegNumber = 1 | 2;
+
+export type ExecutorEventMap = {
+    signal_accepted: { context: ExecutionContext };
+    leg_submitted: { context: ExecutionContext; leg: LegNumber; venue: string };
+    leg_filled: {
+        context: ExecutionContext;
+        leg: LegNumber;
+        venue: string;
+        price: number;
+        size: number;
+    };
+    unwind_started: { context: ExecutionContext; size: number };
+    unwind_failed: { context: ExecutionContext; outcome: UnwindOutcome };
+    done: { context: ExecutionContext };
+    failed: { context: ExecutionContext; error: string };
+    rejected: { context: ExecutionContext; error: string };
+};
+
+export type ExecutorEventType = keyof ExecutorEventMap;
+
+export type ExecutorEventListener<K extends ExecutorEventType> = (
+    event: ExecutorEventMap[K],
+) => void | Promise<void>;
+
+// Listeners run synchronously in registration order; a throwing or rejecting
+// listener is logged and never interrupts execution.
+export class ExecutorEvents {
+    private readonly listeners = new Map<ExecutorEventType, Set<ExecutorEventListener<never>>>();
+    private readonly logger = getLogger('ExecutorEvents');
+
+    on<K extends ExecutorEventType>(type: K, listener: ExecutorEventListener<K>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(type, set);
+        }
+        set.add(listener as ExecutorEventListener<never>);
+        return () => this.off(type, listener);
+    }
+
+    off<K extends ExecutorEventType>(type: K, listener: ExecutorEventListener<K>): void {
+        this.listeners.get(type)?.delete(listener as ExecutorEventListener<never>);
+    }
+
+    emit<K extends ExecutorEventType>(type: K, event: ExecutorEventMap[K]): void {
+        const set = this.listeners.get(type);
+        if (!set) return;
+
+        for (const listener of set) {
+            try {
+                const result = (listener as ExecutorEventListener<K>)(event);
+                if (result instanceof Promise) {
+                    result.catch((error) => this.report(type, error));
+                }
+            } catch (error) {
+                this.report(type, error);
+            }
+        }
+    }
+
+    private report(type: ExecutorEventType, error: unknown): void {
+        this.logger.error(
+            `Listener for ${type} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
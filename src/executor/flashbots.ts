@@ -0,0 +1,147 @@
+import { id, toQuantity } from 'ethers';
+import { ChainClient } from '../chain/ChainClient';
+import { WalletManager } from '../core/WalletManager';
+import { getLogger } from '../logger';
+
+export class RelayError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RelayError';
+    }
+}
+
+export type BundleSubmitterConfig = {
+    targetBlocks?: number;
+    pollInterval?: number;
+    requestTimeout?: number;
+};
+
+export type BundleResult = {
+    included: boolean;
+    blockNumber: number | null;
+    targetBlocks: number[];
+    txHashes: string[];
+    error: string | null;
+};
+
+const DEFAULT_BUNDLE_CONFIG: Required<BundleSubmitterConfig> = {
+    targetBlocks: 3,
+    pollInterval: 1,
+    requestTimeout: 10,
+};
+
+export class BundleSubmitter {
+    private readonly logger = getLogger('BundleSubmitter');
+    private readonly config: Required<BundleSubmitterConfig>;
+    private requestId = 0;
+
+    constructor(
+        private readonly relayUrl: string,
+        private readonly authSigner: WalletManager,
+        private readonly chain: ChainClient,
+        config: BundleSubmitterConfig = {},
+    ) {
+        if (!relayUrl) throw new Error('Relay URL is required');
+        this.config = { ...DEFAULT_BUNDLE_CONFIG, ...config };
+    }
+
+    public async simulate(signedTxs: string[], blockNumber: number): Promise<void> {
+        await this.request('eth_callBundle', [
+            {
+                txs: signedTxs,
+                blockNumber: toQuantity(blockNumber),
+                stateBlockNumber: 'latest',
+            },
+        ]);
+    }
+
+    public async send(signedTxs: string[], targetBlock: number): Promise<string | null> {
+        const result = (await this.request('eth_sendBundle', [
+            { txs: signedTxs, blockNumber: toQuantity(targetBlock) },
+        ])) as { bundleHash?: string } | null;
+        return result?.bundleHash ?? null;
+    }
+
+    public async submit(signedTxs: string[], txHashes: string[]): Promise<BundleResult> {
+        const current = await this.chain.getBlockNumber();
+        const targetBlocks = Array.from(
+            { length: this.config.targetBlocks },
+            (_, i) => current + 1 + i,
+        );
+        const result: BundleResult = {
+            included: false,
+            blockNumber: null,
+            targetBlocks,
+            txHashes,
+            error: null,
+        };
+
+        try {
+            await this.simulate(signedTxs, targetBlocks[0]);
+            for (const block of targetBlocks) {
+                await this.send(signedTxs, block);
+            }
+        } catch (error) {
+            result.error = error instanceof Error ? error.message : String(error);
+            this.logger.warn(`Bundle rejected before inclusion: ${result.error}`);
+            return result;
+        }
+
+        const lastTarget = targetBlocks[targetBlocks.length - 1];
+        let block = current;
+        while (block <= lastTarget) {
+            await new Promise((r) => setTimeout(r, this.config.pollInterval * 1000));
+            block = await this.chain.getBlockNumber();
+
+            const receipt = await this.chain.getReceipt(txHashes[0], false);
+            if (receipt && targetBlocks.includes(receipt.blockNumber)) {
+                result.included = true;
+                result.blockNumber = receipt.blockNumber;
+                this.logger.info(`Bundle included in block ${receipt.blockNumber}`);
+                return result;
+            }
+        }
+
+        result.error = `Bundle not included in blocks ${targetBlocks[0]}-${lastTarget}`;
+        this.logger.info(result.error);
+        return result;
+    }
+
+    private async request(method: string, params: unknown[]): Promise<unknown> {
+        const body = JSON.stringify({ jsonrpc: '2.0', id: ++this.requestId, method, params });
+        const signature = await this.authSigner.signMessage(id(body));
+
+        const controller = new AbortController();
+        const timeoutHandle = setTimeout(
+            () => controller.abort(),
+            this.config.requestTimeout * 1000,
+        );
+
+        try {
+            const response = await fetch(this.relayUrl, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'X-Flashbots-Signature': `${this.authSigner.address}:${signature}`,
+                },
+                body,
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                throw new RelayError(`${method} failed with HTTP ${response.status}`);
+            }
+
+            const payload = (await response.json()) as {
+                result?: unknown;
+                error?: { message?: string };
+            };
+            if (payload.error) {
+                throw new RelayError(`${method} failed: ${payload.error.message ?? 'unknown'}`);
+            }
+
+            return payload.result ?? null;
+        } finally {
+            clearTimeout(timeoutHandle);
+        }
+    }
+}
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import path from 'path';
+import { Signal } from '../strategy/signal';
+import type { ExecutionContext } from './engine';
+
+type SerializedSignal = Omit<
+    Signal,
+    | 'cexPrice'
+    | 'dexPrice'
+    | 'size'
+    | 'expectedGrossPnl'
+    | 'expectedFees'
+    | 'expectedNetPnl'
+    | 'isValid'
+    | 'ageSeconds'
+    | 'contentHash'
+> & {
+    cexPrice: string;
+    dexPrice: string;
+    size: string;
+    expectedGrossPnl: string;
+    expectedFees: string;
+    expectedNetPnl: string;
+};
+
+type JournalEntry = Omit<ExecutionContext, 'signal'> & {
+    signal: SerializedSignal;
+    recordedAt: number;
+};
+
+export class ExecutionJournal {
+    private readonly filepath: string;
+
+    constructor(filepath: string) {
+        this.filepath = filepath;
+        fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    }
+
+    record(context: ExecutionContext): void {
+        fs.appendFileSync(this.filepath, ExecutionJournal.line(context), 'utf8');
+    }
+
+    // Replaces the journal with just these executions, dropping every other entry.
+    // Written to a temp file and renamed, so a crash mid-write keeps the old journal.
+    compact(open: ExecutionContext[]): void {
+        const tmp = `${this.filepath}.tmp`;
+        fs.writeFileSync(tmp, open.map((c) => ExecutionJournal.line(c)).join(''), 'utf8');
+        fs.renameSync(tmp, this.filepath);
+    }
+
+    latest(): ExecutionContext[] {
+        if (!fs.existsSync(this.filepath)) return [];
+
+        const bySignal = new Map<string, JournalEntry>();
+        const lines = fs.readFileSync(this.filepath, 'utf8').split('\n');
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as JournalEntry;
+                bySignal.set(entry.signal.signalId, entry);
+            } catch {
+                // A crash mid-write can leave a truncated last line; skip it.
+                continue;
+            }
+        }
+
+        return Array.from(bySignal.values()).map((entry) => {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { recordedAt, signal, ...rest } = entry;
+            return { ...rest, signal: ExecutionJournal.deserializeSignal(signal) };
+        });
+    }
+
+    private static line(context: ExecutionContext): string {
+        const entry: JournalEntry = {
+            ...context,
+            signal: ExecutionJournal.serializeSignal(context.signal),
+            recordedAt: Date.now() / 1000,
+        };
+        return `${JSON.stringify(entry)}\n`;
+    }
+
+    private static serializeSignal(signal: Signal): SerializedSignal {
+        return {
+            signalId: signal.signalId,
+            pair: signal.pair,
+            direction: signal.direction,
+            cexPrice: signal.cexPrice.toString(),
+            dexPrice: signal.dexPrice.toString(),
+            spreadBps: signal.spreadBps,
+            size: signal.size.toString(),
+            expectedGrossPnl: signal.expectedGrossPnl.toString(),
+            expectedFees: signal.expectedFees.toString(),
+            expectedNetPnl: signal.expectedNetPnl.toString(),
+            score: signal.score,
+            timestamp: signal.timestamp,
+            sourceTimestamp: signal.sourceTimestamp,
+            expiry: signal.expiry,
+            inventoryOk: signal.inventoryOk,
+            withinLimits: signal.withinLimits,
+            legs: signal.legs,
+        };
+    }
+
+    private static deserializeSignal(data: SerializedSignal): Signal {
+        return new Signal({ ...data });
+    }
+}
@@ -0,0 +1,44 @@
+import { Direction, Signal } from '../strategy/signal';
+
+export class PositionLocks {
+    private readonly held = new Map<string, string>();
+
+    // Keys cover the pair and every venue balance the trade draws down, so two
+    // signals spending the same inventory never run at the same time.
+    static keysFor(signal: Signal): string[] {
+        const [base, quote] = signal.pair.toUpperCase().split('/');
+        const spends =
+            signal.direction === Direction.CYCLE
+                ? signal.legs.map((leg) => {
+                      const [legBase, legQuote] = leg.pair.toUpperCase().split('/');
+                      return `${leg.venue}:${leg.side === 'sell' ? legBase : legQuote}`;
+                  })
+                : signal.direction === Direction.BUY_CEX_SELL_DEX
+                  ? [`cex:${quote}`, `dex:${base}`]
+                  : [`dex:${quote}`, `cex:${base}`];
+        return [`pair:${signal.pair.toUpperCase()}`, ...spends.map((k) => `asset:${k}`)];
+    }
+
+    get size(): number {
+        return this.held.size;
+    }
+
+    holder(key: string): string | null {
+        return this.held.get(key) ?? null;
+    }
+
+    // All-or-nothing: returns the first conflicting key, or null once every key is held.
+    tryAcquire(owner: string, keys: string[]): string | null {
+        const conflict = keys.find((key) => this.held.has(key));
+        if (conflict) return conflict;
+
+        for (const key of keys) this.held.set(key, owner);
+        return null;
+    }
+
+    release(owner: string): void {
+        for (const [key, holder] of this.held) {
+            if (holder === owner) this.held.delete(key);
+        }
+    }
+}
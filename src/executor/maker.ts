@@ -0,0 +1,99 @@
+import Decimal from 'decimal.js';
+import { Direction } from '../strategy/signal';
+import { Config } from '../config';
+
+export type MakerConfig = {
+    minEdgeBps?: number;
+    cancelEdgeBps?: number;
+    quoteTimeoutSeconds?: number;
+    makerFeeBps?: number;
+    gasCostUsd?: number;
+};
+
+export type Touch = {
+    bid: Decimal;
+    ask: Decimal;
+};
+
+export type MakerQuote = {
+    size: number;
+    price: Decimal;
+    dexPrice: Decimal;
+    edgeBps: number;
+};
+
+const DEFAULT_MAKER_CONFIG: Required<MakerConfig> = {
+    minEdgeBps: 5,
+    cancelEdgeBps: 0,
+    quoteTimeoutSeconds: 30,
+    makerFeeBps: Config.CEX_MAKER_BPS,
+    gasCostUsd: Config.GAS_COST_USD,
+};
+
+export class MakerQuoter {
+    private readonly config: Required<MakerConfig>;
+
+    constructor(config: MakerConfig = {}) {
+        this.config = { ...DEFAULT_MAKER_CONFIG, ...config };
+        if (this.config.cancelEdgeBps > this.config.minEdgeBps) {
+            throw new Error(
+                `Maker cancel edge ${this.config.cancelEdgeBps} above min edge ${this.config.minEdgeBps}`,
+            );
+        }
+    }
+
+    get quoteTimeoutSeconds(): number {
+        return this.config.quoteTimeoutSeconds;
+    }
+
+    // The resting price is the worst CEX price that still clears the hedge fill,
+    // maker fee and gas by minEdgeBps. When that price would cross the book a
+    // post-only order is rejected, so it joins the touch on its own side instead.
+    public quote(
+        direction: Direction,
+        size: number,
+        hedgePrice: Decimal,
+        touch: Touch,
+    ): MakerQuote | null {
+        if (size <= 0 || hedgePrice.lte(0)) return null;
+
+        const gasPerUnit = new Decimal(this.config.gasCostUsd).div(size);
+        const costBps = new Decimal(this.config.makerFeeBps + this.config.minEdgeBps).div(10_000);
+        let price: Decimal;
+        if (direction === Direction.BUY_CEX_SELL_DEX) {
+            price = hedgePrice.sub(gasPerUnit).div(costBps.add(1));
+            if (price.gte(touch.ask)) price = touch.bid;
+        } else {
+            if (costBps.gte(1)) return null;
+            price = hedgePrice.add(gasPerUnit).div(new Decimal(1).sub(costBps));
+            if (price.lte(touch.bid)) price = touch.ask;
+        }
+        if (price.lte(0)) return null;
+
+        const edgeBps = this.edgeBps(direction, size, price, hedgePrice);
+        if (edgeBps < this.config.minEdgeBps - 1e-9) return null;
+
+        return { size, price, dexPrice: hedgePrice, edgeBps };
+    }
+
+    // True once the hedge price has moved far enough that a fill at the resting
+    // price would no longer clear cancelEdgeBps.
+    public shouldCancel(
+        direction: Direction,
+        quote: MakerQuote,
+        hedgePrice: Decimal | null,
+    ): boolean {
+        if (!hedgePrice || hedgePrice.lte(0)) return true;
+        return (
+            this.edgeBps(direction, quote.size, quote.price, hedgePrice) < this.config.cancelEdgeBps
+        );
+    }
+
+    private edgeBps(direction: Direction, size: number, price: Decimal, dexPrice: Decimal): number {
+        const gasPerUnit = new Decimal(this.config.gasCostUsd).div(size);
+        const fee = price.mul(this.config.makerFeeBps).div(10_000);
+        const gross =
+            direction === Direction.BUY_CEX_SELL_DEX ? dexPrice.sub(price) : price.sub(dexPrice);
+        return gross.sub(fee).sub(gasPerUnit).div(price).mul(10_000).toNumber();
+    }
+}
@@ -1,85 +1,303 @@
+import fs from 'fs';
+import path from 'path';
 import { Signal } from '../strategy/signal';
 
+// Write-then-rename so a crash never leaves a half-written state file.
+export function writeJsonAtomic(filepath: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(filepath), { recursive: true });
+    const tmp = `${filepath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data), 'utf8');
+    fs.renameSync(tmp, filepath);
+}
+
+export enum BreakerState {
+    CLOSED = 'closed',
+    OPEN = 'open',
+    HALF_OPEN = 'half_open',
+}
+
+export type FailureKind = 'timeout' | 'reject' | 'revert';
+
 export type CircuitBreakerConfig = {
     failureThreshold?: number;
     windowSeconds?: number;
     cooldownSeconds?: number;
+    halfOpenProbes?: number;
+    probeSuccessesToClose?: number;
+    failureWeights?: Partial<Record<FailureKind, number>>;
+};
+
+export type CircuitBreakerSnapshot = {
+    state: BreakerState;
+    trippedAt: number | null;
+    failures: { at: number; kind: FailureKind }[];
+    probeSuccesses: number;
 };
 
 const DEFAULT_CB_CONFIG: Required<CircuitBreakerConfig> = {
     failureThreshold: 3,
     windowSeconds: 300,
     cooldownSeconds: 600,
+    halfOpenProbes: 1,
+    probeSuccessesToClose: 1,
+    failureWeights: { timeout: 1, reject: 1, revert: 1 },
 };
 
+export function classifyFailure(error: string | null): FailureKind {
+    const message = (error ?? '').toLowerCase();
+    if (message.includes('timeout') || message.includes('not included')) return 'timeout';
+    if (
+        message.includes('revert') ||
+        message.includes('insufficient_output_amount') ||
+        message.includes('dex failed')
+    ) {
+        return 'revert';
+    }
+    return 'reject';
+}
+
 export class CircuitBreaker {
     private config: Required<CircuitBreakerConfig>;
-    private failures: number[];
+    private failures: { at: number; kind: FailureKind }[];
     private trippedAt: number | null;
+    private state: BreakerState;
+    private probesInFlight = 0;
+    private probeSuccesses = 0;
 
-    constructor(config: CircuitBreakerConfig = {}) {
-        this.config = { ...DEFAULT_CB_CONFIG, ...config };
-        this.failures = [];
-        this.trippedAt = null;
+    constructor(config: CircuitBreakerConfig = {}, snapshot: CircuitBreakerSnapshot | null = null) {
+        this.config = {
+            ...DEFAULT_CB_CONFIG,
+            ...config,
+            failureWeights: { ...DEFAULT_CB_CONFIG.failureWeights, ...config.failureWeights },
+        };
+        this.failures = snapshot?.failures ?? [];
+        this.trippedAt = snapshot?.trippedAt ?? null;
+        this.state = snapshot?.state ?? BreakerState.CLOSED;
+        this.probeSuccesses = snapshot?.probeSuccesses ?? 0;
     }
 
-    recordFailure(): void {
+    get currentState(): BreakerState {
+        this.refresh();
+        return this.state;
+    }
+
+    recordFailure(kind: FailureKind = 'reject'): void {
         const now = Date.now() / 1000;
-        this.failures.push(now);
-        const cutoff = now - this.config.windowSeconds;
-        this.failures = this.failures.filter((t) => t > cutoff);
+        this.releaseProbe();
+
+        this.failures.push({ at: now, kind });
 
-        if (this.failures.length >= this.config.failureThreshold) {
+        // Any failure while probing sends the breaker straight back to open.
+        if (this.state === BreakerState.HALF_OPEN) {
             this.trip();
+            return;
         }
-    }
 
-    recordSuccess(): void {}
+        const cutoff = now - this.config.windowSeconds;
+        this.failures = this.failures.filter((f) => f.at > cutoff);
 
-    private trip(): void {
-        this.trippedAt = Date.now() / 1000;
+        const weight = this.failures.reduce(
+            (sum, f) => sum + (this.config.failureWeights[f.kind] ?? 1),
+            0,
+        );
+        if (weight >= this.config.failureThreshold) {
+            this.trip();
+        }
     }
 
-    isOpen(): boolean {
-        if (this.trippedAt === null) return false;
-        const now = Date.now() / 1000;
-        if (now - this.trippedAt > this.config.cooldownSeconds) {
+    recordSuccess(): void {
+        this.releaseProbe();
+        if (this.state !== BreakerState.HALF_OPEN) return;
+
+        this.probeSuccesses += 1;
+        if (this.probeSuccesses >= this.config.probeSuccessesToClose) {
+            this.state = BreakerState.CLOSED;
             this.trippedAt = null;
             this.failures = [];
-            return false;
+            this.probeSuccesses = 0;
         }
+    }
+
+    // Reserves a probe slot while half-open; callers must follow up with
+    // recordSuccess, recordFailure or release.
+    allowRequest(): boolean {
+        this.refresh();
+        if (this.state === BreakerState.CLOSED) return true;
+        if (this.state === BreakerState.OPEN) return false;
+        if (this.probesInFlight >= this.config.halfOpenProbes) return false;
+
+        this.probesInFlight += 1;
         return true;
     }
 
+    release(): void {
+        this.releaseProbe();
+    }
+
+    isOpen(): boolean {
+        this.refresh();
+        if (this.state === BreakerState.OPEN) return true;
+        if (this.state === BreakerState.HALF_OPEN) {
+            return this.probesInFlight >= this.config.halfOpenProbes;
+        }
+        return false;
+    }
+
     timeUntilReset(): number {
-        if (this.trippedAt === null) return 0;
+        if (this.trippedAt === null || this.state !== BreakerState.OPEN) return 0;
         const elapsed = Date.now() / 1000 - this.trippedAt;
         return Math.max(0, this.config.cooldownSeconds - elapsed);
     }
+
+    failureCounts(): Record<FailureKind, number> {
+        const counts: Record<FailureKind, number> = { timeout: 0, reject: 0, revert: 0 };
+        for (const failure of this.failures) counts[failure.kind] += 1;
+        return counts;
+    }
+
+    snapshot(): CircuitBreakerSnapshot {
+        return {
+            state: this.state,
+            trippedAt: this.trippedAt,
+            failures: [...this.failures],
+            probeSuccesses: this.probeSuccesses,
+        };
+    }
+
+    private trip(): void {
+        this.state = BreakerState.OPEN;
+        this.trippedAt = Date.now() / 1000;
+        this.probeSuccesses = 0;
+    }
+
+    private refresh(): void {
+        if (this.state !== BreakerState.OPEN || this.trippedAt === null) return;
+        const now = Date.now() / 1000;
+        if (now - this.trippedAt > this.config.cooldownSeconds) {
+            this.state = BreakerState.HALF_OPEN;
+            this.probesInFlight = 0;
+            this.probeSuccesses = 0;
+        }
+    }
+
+    private releaseProbe(): void {
+        if (this.state === BreakerState.HALF_OPEN && this.probesInFlight > 0) {
+            this.probesInFlight -= 1;
+        }
+    }
+}
+
+// One breaker per venue and pair, persisted as JSON so a restart does not
+// forget a tripped venue.
+export class CircuitBreakerRegistry {
+    private readonly breakers = new Map<string, CircuitBreaker>();
+
+    constructor(
+        private readonly config: CircuitBreakerConfig = {},
+        private readonly statePath: string | null = null,
+    ) {
+        this.load();
+    }
+
+    static key(venue: string, pair: string): string {
+        return `${venue}:${pair.toUpperCase()}`;
+    }
+
+    get(venue: string, pair: string): CircuitBreaker {
+        const key = CircuitBreakerRegistry.key(venue, pair);
+        let breaker = this.breakers.get(key);
+        if (!breaker) {
+            breaker = new CircuitBreaker(this.config);
+            this.breakers.set(key, breaker);
+        }
+        return breaker;
+    }
+
+    isOpen(venue: string, pair: string): boolean {
+        return this.breakers.get(CircuitBreakerRegistry.key(venue, pair))?.isOpen() ?? false;
+    }
+
+    openKeys(): string[] {
+        return Array.from(this.breakers.entries())
+            .filter(([, breaker]) => breaker.isOpen())
+            .map(([key]) => key);
+    }
+
+    recordSuccess(venue: string, pair: string): void {
+        this.get(venue, pair).recordSuccess();
+        this.persist();
+    }
+
+    recordFailure(venue: string, pair: string, kind: FailureKind): void {
+        this.get(venue, pair).recordFailure(kind);
+        this.persist();
+    }
+
+    private load(): void {
+        if (!this.statePath || !fs.existsSync(this.statePath)) return;
+
+        const raw = JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as Record<
+            string,
+            CircuitBreakerSnapshot
+        >;
+        for (const [key, snapshot] of Object.entries(raw)) {
+            this.breakers.set(key, new CircuitBreaker(this.config, snapshot));
+        }
+    }
+
+    private persist(): void {
+        if (!this.statePath) return;
+
+        const state: Record<string, CircuitBreakerSnapshot> = {};
+        for (const [key, breaker] of this.breakers) state[key] = breaker.snapshot();
+
+        writeJsonAtomic(this.statePath, state);
+    }
 }
 
+// Keyed by the signal's content hash and persisted, so neither a fresh signalId
+// for the same opportunity nor a restart inside the TTL can execute it twice.
 export class ReplayProtection {
     private executed: Map<string, number>;
     private ttl: number;
 
-    constructor(ttlSeconds: number = 60) {
+    constructor(
+        ttlSeconds: number = 60,
+        private readonly statePath: string | null = null,
+    ) {
         this.executed = new Map();
         this.ttl = ttlSeconds;
+        this.load();
     }
 
     isDuplicate(signal: Signal): boolean {
         this.cleanup();
-        return this.executed.has(signal.signalId);
+        return this.executed.has(signal.contentHash());
     }
 
     markExecuted(signal: Signal): void {
-        this.executed.set(signal.signalId, Date.now() / 1000);
+        this.cleanup();
+        this.executed.set(signal.contentHash(), Date.now() / 1000);
+        this.persist();
     }
 
     private cleanup(): void {
         const cutoff = Date.now() / 1000 - this.ttl;
-        for (const [id, ts] of this.executed.entries()) {
-            if (ts <= cutoff) this.executed.delete(id);
+        for (const [hash, ts] of this.executed.entries()) {
+            if (ts <= cutoff) this.executed.delete(hash);
         }
     }
+
+    private load(): void {
+        if (!this.statePath || !fs.existsSync(this.statePath)) return;
+
+        const raw = JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as Record<string, number>;
+        for (const [hash, ts] of Object.entries(raw)) this.executed.set(hash, ts);
+        this.cleanup();
+    }
+
+    private persist(): void {
+        if (!this.statePath) return;
+        writeJsonAtomic(this.statePath, Object.fromEntries(this.executed));
+    }
 }
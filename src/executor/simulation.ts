@@ -0,0 +1,155 @@
+import Decimal from 'decimal.js';
+import { ExchangeClient } from '../exchange/ExchangeClient';
+import { OrderBookAnalyzer } from '../exchange/OrderBookAnalyzer';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { Token } from '../pricing/Token';
+import { Config } from '../config';
+
+export type SimulationConfig = {
+    cexLatencyMs?: number;
+    dexLatencyMs?: number;
+    latencyJitterMs?: number;
+    cexFailureProbability?: number;
+    dexFailureProbability?: number;
+    cexTakerFeeBps?: number;
+    cexMakerFeeBps?: number;
+    random?: () => number;
+};
+
+export type SimulatedFill = {
+    success: boolean;
+    price: number;
+    filled: number;
+    fee: number;
+    error?: string;
+};
+
+const DEFAULT_SIMULATION_CONFIG: Required<SimulationConfig> = {
+    cexLatencyMs: 100,
+    dexLatencyMs: 500,
+    latencyJitterMs: 0,
+    cexFailureProbability: 0,
+    dexFailureProbability: 0,
+    cexTakerFeeBps: Config.CEX_TAKER_BPS,
+    cexMakerFeeBps: Config.CEX_MAKER_BPS,
+    random: Math.random,
+};
+
+export class FillSimulator {
+    private readonly config: Required<SimulationConfig>;
+
+    constructor(
+        private readonly exchange: ExchangeClient,
+        private readonly pricing: PricingEngine,
+        config: SimulationConfig = {},
+    ) {
+        this.config = { ...DEFAULT_SIMULATION_CONFIG, ...config };
+    }
+
+    // IOC semantics: only book levels at or better than the limit price fill, the rest expires.
+    public async fillCex(
+        pair: string,
+        side: 'buy' | 'sell',
+        size: number,
+        limitPrice: number,
+    ): Promise<SimulatedFill> {
+        await this.delay(this.config.cexLatencyMs);
+        if (this.config.random() < this.config.cexFailureProbability) {
+            return { success: false, price: 0, filled: 0, fee: 0, error: 'Simulated CEX reject' };
+        }
+
+        const book = await this.exchange.fetchOrderBook(pair);
+        const walk = new OrderBookAnalyzer(book).walkTheBook(side, size);
+        const limit = new Decimal(limitPrice);
+        const fills = walk.fills.filter((f) =>
+            side === 'buy' ? f.price.lte(limit) : f.price.gte(limit),
+        );
+
+        const filled = fills.reduce((sum, f) => sum.add(f.qty), new Decimal(0));
+        if (filled.lte(0)) {
+            return { success: false, price: 0, filled: 0, fee: 0, error: 'expired' };
+        }
+        const cost = fills.reduce((sum, f) => sum.add(f.cost), new Decimal(0));
+        const fullyFilled = filled.gte(size);
+
+        return {
+            success: fullyFilled,
+            price: cost.div(filled).toNumber(),
+            filled: filled.toNumber(),
+            fee: cost.mul(this.config.cexTakerFeeBps).div(10_000).toNumber(),
+            error: fullyFilled ? undefined : 'partially_filled',
+        };
+    }
+
+    // A resting order fills at its own price against whatever the current book
+    // has crossed through it; nothing crossing means it is still open.
+    public async fillCexMaker(
+        pair: string,
+        side: 'buy' | 'sell',
+        size: number,
+        price: number,
+    ): Promise<SimulatedFill> {
+        await this.delay(this.config.cexLatencyMs);
+
+        const book = await this.exchange.fetchOrderBook(pair);
+        const limit = new Decimal(price);
+        const crossed = (side === 'buy' ? book.asks : book.bids)
+            .filter(([level]) => (side === 'buy' ? level.lte(limit) : level.gte(limit)))
+            .reduce((sum, [, qty]) => sum.add(qty), new Decimal(0));
+
+        const filled = Decimal.min(crossed, size);
+        if (filled.lte(0)) {
+            return { success: false, price: 0, filled: 0, fee: 0, error: 'open' };
+        }
+        const fullyFilled = filled.gte(size);
+
+        return {
+            success: fullyFilled,
+            price,
+            filled: filled.toNumber(),
+            fee: filled.mul(limit).mul(this.config.cexMakerFeeBps).div(10_000).toNumber(),
+            error: fullyFilled ? undefined : 'partially_filled',
+        };
+    }
+
+    public async fillDex(
+        tokenIn: Token,
+        tokenOut: Token,
+        amountIn: bigint,
+        amountOutMin: bigint,
+        poolAddress?: string,
+    ): Promise<{ success: boolean; amountOut: bigint; feeBps: number; error?: string }> {
+        await this.delay(this.config.dexLatencyMs);
+        if (this.config.random() < this.config.dexFailureProbability) {
+            return { success: false, amountOut: 0n, feeBps: 0, error: 'Simulated DEX revert' };
+        }
+
+        // Looked up after the delay: a refresh in the meantime replaces the pool.
+        const pool = poolAddress
+            ? (this.pricing
+                  .getPools(tokenIn, tokenOut)
+                  .find((p) => p.address.equals(poolAddress)) ?? null)
+            : this.pricing.getPool(tokenIn, tokenOut);
+        if (!pool) {
+            return {
+                success: false,
+                amountOut: 0n,
+                feeBps: 0,
+                error: `No pool for ${tokenIn.name}/${tokenOut.name}`,
+            };
+        }
+
+        const amountOut = pool.getAmountOut(amountIn, tokenIn);
+        const feeBps = Number(pool.feeBps);
+        if (amountOut < amountOutMin) {
+            return { success: false, amountOut: 0n, feeBps, error: 'INSUFFICIENT_OUTPUT_AMOUNT' };
+        }
+
+        return { success: true, amountOut, feeBps };
+    }
+
+    public async delay(baseMs: number): Promise<void> {
+        const ms = baseMs + this.config.random() * this.config.latencyJitterMs;
+        await new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
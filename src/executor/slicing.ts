@@ -0,0 +1,79 @@
+import Decimal from 'decimal.js';
+import { Direction } from '../strategy/signal';
+import { SignalVenues } from './venues';
+
+export type SlicingConfig = {
+    maxSlices?: number;
+    sliceIntervalMs?: number;
+    minEdgeBps?: number;
+};
+
+export type SlicePlan = {
+    size: number;
+    cexPrice: Decimal;
+    dexPrice: Decimal;
+    edgeBps: number;
+    timestamp: number;
+};
+
+const DEFAULT_SLICING_CONFIG: Required<SlicingConfig> = {
+    maxSlices: 10,
+    sliceIntervalMs: 500,
+    minEdgeBps: 10,
+};
+
+export class SlicePlanner {
+    private readonly config: Required<SlicingConfig>;
+
+    constructor(config: SlicingConfig = {}) {
+        this.config = { ...DEFAULT_SLICING_CONFIG, ...config };
+    }
+
+    get maxSlices(): number {
+        return this.config.maxSlices;
+    }
+
+    get sliceIntervalMs(): number {
+        return this.config.sliceIntervalMs;
+    }
+
+    // Next child size is the smallest of what is left and what each venue fills
+    // within its own depth limit (book depth near the touch, pool price impact).
+    // Prices are re-quoted for that size; null means the edge is gone.
+    public async plan(
+        remaining: number,
+        direction: Direction,
+        pair: string,
+        venues: SignalVenues,
+    ): Promise<SlicePlan | null> {
+        const buyOnCex = direction === Direction.BUY_CEX_SELL_DEX;
+        const cexSide = buyOnCex ? 'buy' : 'sell';
+        const dexSide = buyOnCex ? 'sell' : 'buy';
+
+        const [cexProbe, dexProbe] = await Promise.all([
+            venues.cex.quote(pair, cexSide, remaining),
+            venues.dex.quote(pair, dexSide, remaining),
+        ]);
+        if (!cexProbe || !dexProbe) return null;
+
+        const size = Math.min(remaining, cexProbe.capacity, dexProbe.capacity);
+        if (size <= 0) return null;
+
+        const [cex, dex] =
+            size < remaining
+                ? await Promise.all([
+                      venues.cex.quote(pair, cexSide, size),
+                      venues.dex.quote(pair, dexSide, size),
+                  ])
+                : [cexProbe, dexProbe];
+        if (!cex || !dex || cex.price <= 0 || dex.price <= 0) return null;
+
+        const cexPrice = new Decimal(cex.price);
+        const dexPrice = new Decimal(dex.price);
+        const edge = buyOnCex ? dexPrice.sub(cexPrice) : cexPrice.sub(dexPrice);
+        const edgeBps = edge.div(cexPrice).mul(10_000).toNumber();
+        if (edgeBps < this.config.minEdgeBps) return null;
+
+        return { size, cexPrice, dexPrice, edgeBps, timestamp: cex.timestamp };
+    }
+}
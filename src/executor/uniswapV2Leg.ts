@@ -0,0 +1,442 @@
+import Decimal from 'decimal.js';
+import { Address } from '../core/types/Address';
+import { TransactionFailed } from '../chain/Errors';
+import { PricingEngine, Quote } from '../pricing/PricingEngine';
+import { PriceImpactAnalyzer } from '../pricing/PriceImpactAnalyzer';
+import { Route } from '../pricing/Route';
+import { SwapParamsBuilder } from '../pricing/SwapParamsBuilder';
+import { Token } from '../pricing/Token';
+import { UniswapV2Pair } from '../pricing/UniswapV2Pair';
+import { Config } from '../config';
+import { FeeProvider } from '../strategy/feeProvider';
+import { DexSwapper, SwapFill } from './dexSwap';
+import { BundleSubmitter } from './flashbots';
+import { FillSimulator } from './simulation';
+import { UnwindHandlers } from './unwind';
+import { LegOrder, LegQuote, LegResult, LegSide, VenueLeg } from './venues';
+
+export type UniswapV2LegConfig = {
+    name?: string;
+    gasCostUsd?: number;
+    maxImpactPct?: bigint;
+    tokens?: Record<string, Token>;
+    // Prices the gas of a mined swap; without it only ETH-based pairs can.
+    ethUsd?: Pick<FeeProvider, 'fetchEthUsd'> | null;
+};
+
+const WETH = new Address('0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2');
+
+const ETH_SYMBOLS = ['ETH', 'WETH'];
+const USD_SYMBOLS = ['USDT', 'USDC', 'DAI'];
+
+const DEFAULT_TOKENS: Record<string, Token> = {
+    ETH: new Token('ETH', 18, WETH),
+    WETH: new Token('WETH', 18, WETH),
+    USDT: new Token('USDT', 6, new Address('0xdAC17F958D2ee523a2206206994597C13D831ec7')),
+    USDC: new Token('USDC', 6, new Address('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48')),
+};
+
+const DEFAULT_UNISWAP_V2_LEG_CONFIG: Required<UniswapV2LegConfig> = {
+    name: 'dex',
+    gasCostUsd: Config.GAS_COST_USD,
+    maxImpactPct: 1n,
+    tokens: DEFAULT_TOKENS,
+    ethUsd: null,
+};
+
+type SwapAmounts = {
+    baseToken: Token;
+    quoteToken: Token;
+    isSell: boolean;
+    tokenIn: Token;
+    tokenOut: Token;
+    amountIn: bigint;
+};
+
+// Sells spend exactly `size` base; buys spend `size * limitPrice` of quote, so
+// the base received is what that notional buys at the pool price.
+export class UniswapV2Leg implements VenueLeg {
+    private readonly config: Required<UniswapV2LegConfig>;
+    private submissions: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly pricing: PricingEngine,
+        private readonly simulator: FillSimulator | null = null,
+        config: UniswapV2LegConfig = {},
+        private readonly dexSwapper: DexSwapper | null = null,
+        private readonly bundleSubmitter: BundleSubmitter | null = null,
+        private readonly swapParams: SwapParamsBuilder = new SwapParamsBuilder(),
+    ) {
+        this.config = { ...DEFAULT_UNISWAP_V2_LEG_CONFIG, ...config };
+    }
+
+    get name(): string {
+        return this.config.name;
+    }
+
+    public async quote(pair: string, side: LegSide, size: number): Promise<LegQuote | null> {
+        if (size <= 0) return null;
+
+        const [baseToken, quoteToken] = this.resolveTokens(pair);
+        const pool = await this.currentPool(baseToken, quoteToken);
+        if (!pool) return null;
+
+        let quoteWei: bigint;
+        try {
+            const baseWei = this.toWei(size, baseToken.decimals);
+            quoteWei =
+                side === 'sell'
+                    ? pool.getAmountOut(baseWei, baseToken)
+                    : pool.getAmountIn(baseWei, baseToken);
+        } catch {
+            return null;
+        }
+
+        const touch = this.fromWei(pool.getSpotPrice(baseToken), 18);
+        const tokenIn = side === 'sell' ? baseToken : quoteToken;
+        const maxIn = this.fromWei(
+            new PriceImpactAnalyzer(pool).findMaxSizeForImpact(tokenIn, this.config.maxImpactPct),
+            tokenIn.decimals,
+        );
+
+        return {
+            price: this.fromWei(quoteWei, quoteToken.decimals).div(size).toNumber(),
+            touch: touch.toNumber(),
+            capacity: (side === 'sell' ? maxIn : maxIn.div(touch)).toNumber(),
+            timestamp: Date.now(),
+        };
+    }
+
+    public async execute(order: LegOrder): Promise<LegResult> {
+        if (order.mode === 'post_only') {
+            return { success: false, price: 0, filled: 0, error: 'Post-only not supported on DEX' };
+        }
+        try {
+            if (this.simulator) return await this.simulate(order, this.simulator);
+            const dexSwapper = this.dexSwapper;
+            if (!dexSwapper) {
+                return { success: false, price: 0, filled: 0, error: 'DEX swapper not configured' };
+            }
+            // Falling back to the public mempool would expose a leg the caller expects
+            // to be private and free on revert.
+            if (order.mode === 'bundle' && !this.bundleSubmitter) {
+                return {
+                    success: false,
+                    price: 0,
+                    filled: 0,
+                    error: 'Bundle submitter not configured',
+                };
+            }
+
+            return await this.serialized(() => this.submit(order, dexSwapper));
+        } catch (error) {
+            return {
+                success: false,
+                price: 0,
+                filled: 0,
+                error: error instanceof Error ? error.message : 'DEX execution failed',
+            };
+        }
+    }
+
+    public async fetchFill(order: LegOrder, reference: string): Promise<LegResult> {
+        return this.receiptFill(order, reference, 0);
+    }
+
+    // A submitted swap cannot be recalled: this waits out its deadline and
+    // reports whatever was mined.
+    public async cancel(order: LegOrder, reference: string): Promise<LegResult> {
+        return this.receiptFill(order, reference, this.swapParams.deadlineSeconds);
+    }
+
+    public unwindHandlers(order: LegOrder): UnwindHandlers {
+        const swap = async (size: number) => {
+            const result = await this.execute({ ...order, size, mode: undefined });
+            return {
+                filled: result.filled,
+                price: result.price,
+                error: result.success ? undefined : (result.error ?? 'DEX unwind failed'),
+            };
+        };
+
+        return {
+            market: swap,
+            chunked: swap,
+            alt_pool: async (size: number) => {
+                const result = await this.swapViaAlternativePool({ ...order, size });
+                return {
+                    filled: result.filled,
+                    price: result.price,
+                    error: result.success ? undefined : result.error,
+                };
+            },
+        };
+    }
+
+    private async submit(order: LegOrder, dexSwapper: DexSwapper): Promise<LegResult> {
+        const amounts = this.swapAmounts(order);
+        const { isSell, tokenIn, tokenOut, amountIn } = amounts;
+
+        let quote: Quote;
+        if (order.pool) {
+            const pool = this.orderPool(order, tokenIn, tokenOut);
+            if (!pool) {
+                return { success: false, price: 0, filled: 0, error: `No pool ${order.pool}` };
+            }
+            quote = await this.pricing.quoteRoute(new Route([pool], [tokenIn, tokenOut]), amountIn);
+        } else {
+            const gasPriceGwei = await this.pricing.fetchGasPriceGwei();
+            quote = await this.pricing.getQuote(tokenIn, tokenOut, amountIn, gasPriceGwei);
+        }
+        if (!quote.isValid || quote.simulatedOutput <= 0n) {
+            return {
+                success: false,
+                price: 0,
+                filled: 0,
+                error: `DEX quote invalid for ${isSell ? 'sell' : 'buy'} leg`,
+            };
+        }
+
+        const swapArgs = this.swapParams.fromQuote(quote, dexSwapper.address, order.pair);
+        const feeBps = this.routeFeeBps(quote.route);
+        const onSubmitted = (txHash: string) => order.onSubmitted?.(txHash, feeBps);
+
+        if (order.mode === 'bundle' && this.bundleSubmitter) {
+            const signed = await dexSwapper.signSwap(quote.route, swapArgs);
+            onSubmitted(signed.txHash);
+
+            const bundle = await this.bundleSubmitter.submit([signed.signedTx], [signed.txHash]);
+            if (!bundle.included) {
+                return {
+                    success: false,
+                    price: 0,
+                    filled: 0,
+                    error: bundle.error ?? 'Bundle not included',
+                };
+            }
+
+            const fill = await dexSwapper.fetchFill(signed.txHash, quote.route);
+            if (!fill) {
+                return { success: false, price: 0, filled: 0, error: 'Bundle receipt missing' };
+            }
+            return this.toResult(fill, amounts, feeBps);
+        }
+
+        const fill = await dexSwapper.swap(quote.route, swapArgs, onSubmitted);
+        return this.toResult(fill, amounts, feeBps);
+    }
+
+    // Every live swap signs with the wallet's pending nonce, so a second swap sent
+    // before the first is mined or its bundle resolved would reuse it. Submissions
+    // from this leg run one at a time; a failed one does not block the next.
+    private serialized<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.submissions.then(task, task);
+        this.submissions = run.catch(() => undefined);
+        return run;
+    }
+
+    private async simulate(order: LegOrder, simulator: FillSimulator): Promise<LegResult> {
+        const amounts = this.swapAmounts(order);
+        const { tokenIn, tokenOut, amountIn } = amounts;
+        const pool = this.orderPool(order, tokenIn, tokenOut);
+        if (!pool) {
+            return {
+                success: false,
+                price: 0,
+                filled: 0,
+                error: order.pool
+                    ? `No pool ${order.pool}`
+                    : `No pool for ${tokenIn.name}/${tokenOut.name}`,
+            };
+        }
+        // The live path's reference: the route output at quote time, before latency.
+        const quoted = new Route([pool], [tokenIn, tokenOut]).getOutput(amountIn);
+        const sim = await simulator.fillDex(
+            tokenIn,
+            tokenOut,
+            amountIn,
+            this.swapParams.minOutput(quoted, order.pair),
+            order.pool,
+        );
+        if (!sim.success) {
+            return { success: false, price: 0, filled: 0, error: sim.error };
+        }
+        return this.toResult(
+            { txHash: `sim-${order.id}`, amountIn, amountOut: sim.amountOut },
+            amounts,
+            sim.feeBps,
+        );
+    }
+
+    private async receiptFill(
+        order: LegOrder,
+        reference: string,
+        timeoutSeconds: number,
+    ): Promise<LegResult> {
+        if (!this.dexSwapper) throw new Error('DEX swapper not configured');
+
+        const amounts = this.swapAmounts(order);
+        const route = new Route([], [amounts.tokenIn, amounts.tokenOut]);
+        try {
+            const fill = await this.dexSwapper.fetchFill(reference, route, timeoutSeconds);
+            if (!fill) {
+                return {
+                    success: false,
+                    price: 0,
+                    filled: 0,
+                    reference,
+                    pending: timeoutSeconds === 0,
+                };
+            }
+            return await this.toResult(fill, amounts, order.feeBps ?? Config.DEX_SWAP_BPS);
+        } catch (error) {
+            if (!(error instanceof TransactionFailed)) throw error;
+            return { success: false, price: 0, filled: 0, reference, error: error.message };
+        }
+    }
+
+    private async swapViaAlternativePool(order: LegOrder): Promise<LegResult> {
+        const amounts = this.swapAmounts(order);
+        const route = this.pricing.findAlternativeRoute(
+            amounts.tokenIn,
+            amounts.tokenOut,
+            amounts.amountIn,
+        );
+        if (!route) {
+            return { success: false, price: 0, filled: 0, error: 'No alternative pool' };
+        }
+
+        const expectedOut = route.getOutput(amounts.amountIn);
+        const feeBps = this.routeFeeBps(route);
+        if (this.simulator || !this.dexSwapper) {
+            return this.toResult(
+                {
+                    txHash: `sim-${order.id}-alt`,
+                    amountIn: amounts.amountIn,
+                    amountOut: expectedOut,
+                },
+                amounts,
+                feeBps,
+            );
+        }
+
+        const args = this.swapParams.fromRoute(
+            route,
+            amounts.amountIn,
+            expectedOut,
+            this.dexSwapper.address,
+            order.pair,
+        );
+        const dexSwapper = this.dexSwapper;
+        const fill = await this.serialized(() => dexSwapper.swap(route, args));
+        return this.toResult(fill, amounts, feeBps);
+    }
+
+    // Live quotes re-read reserves first so every re-quote sees the current pool.
+    private async currentPool(baseToken: Token, quoteToken: Token): Promise<UniswapV2Pair | null> {
+        const pool = this.pricing.getPool(baseToken, quoteToken);
+        if (!pool || this.simulator) return pool;
+        await this.pricing.refreshPool(pool.address);
+        return this.pricing.getPool(baseToken, quoteToken);
+    }
+
+    // A pinned pool (one hop of a cycle) must be traded as signalled; the best
+    // route between the same tokens may be a different pool at a different price.
+    private orderPool(order: LegOrder, tokenIn: Token, tokenOut: Token): UniswapV2Pair | null {
+        if (!order.pool) return this.pricing.getPool(tokenIn, tokenOut);
+        const pinned = order.pool;
+        return (
+            this.pricing.getPools(tokenIn, tokenOut).find((p) => p.address.equals(pinned)) ?? null
+        );
+    }
+
+    private swapAmounts(order: LegOrder): SwapAmounts {
+        const [baseToken, quoteToken] = this.resolveTokens(order.pair);
+        const isSell = order.side === 'sell';
+
+        const [tokenIn, tokenOut] = isSell ? [baseToken, quoteToken] : [quoteToken, baseToken];
+        const amountIn = isSell
+            ? this.toWei(order.size, baseToken.decimals)
+            : this.toWei(new Decimal(order.size).mul(order.limitPrice), quoteToken.decimals);
+
+        return { baseToken, quoteToken, isSell, tokenIn, tokenOut, amountIn };
+    }
+
+    private resolveTokens(pair: string): [Token, Token] {
+        const [baseSymbol, quoteSymbol] = pair.toUpperCase().split('/');
+        const baseToken = this.config.tokens[baseSymbol];
+        const quoteToken = this.config.tokens[quoteSymbol];
+        if (!baseToken || !quoteToken) {
+            throw new Error(`Unsupported DEX pair ${pair}`);
+        }
+        return [baseToken, quoteToken];
+    }
+
+    private async toResult(
+        fill: Pick<SwapFill, 'txHash' | 'amountIn' | 'amountOut'> &
+            Partial<Pick<SwapFill, 'receipt'>>,
+        { isSell, baseToken, quoteToken }: SwapAmounts,
+        feeBps: number,
+    ): Promise<LegResult> {
+        const baseAmount = this.fromWei(
+            isSell ? fill.amountIn : fill.amountOut,
+            baseToken.decimals,
+        );
+        const quoteAmount = this.fromWei(
+            isSell ? fill.amountOut : fill.amountIn,
+            quoteToken.decimals,
+        );
+        if (baseAmount.lte(0)) {
+            return { success: false, price: 0, filled: 0, error: 'DEX produced zero fill' };
+        }
+
+        const price = quoteAmount.div(baseAmount).toNumber();
+        const notional = quoteAmount.toNumber();
+        const gasCost = fill.receipt
+            ? await this.gasCostUsd(
+                  Number(fill.receipt.txFee.humanString),
+                  baseToken,
+                  quoteToken,
+                  price,
+              )
+            : this.config.gasCostUsd;
+
+        return {
+            success: true,
+            price,
+            filled: baseAmount.toNumber(),
+            reference: fill.txHash,
+            fees: { cex: 0, dex: (notional * feeBps) / 10_000, gas: gasCost },
+        };
+    }
+
+    // The fee is paid in ETH whatever the pair; an ETH/USD pair's own fill price
+    // stands in when no ETH/USD source is configured or it cannot be read. Other
+    // ETH pairs (a cycle hop such as WETH/ARB) price ETH in the wrong unit.
+    private async gasCostUsd(
+        feeEth: number,
+        baseToken: Token,
+        quoteToken: Token,
+        price: number,
+    ): Promise<number> {
+        const ethUsd =
+            (await this.config.ethUsd?.fetchEthUsd()) ??
+            (ETH_SYMBOLS.includes(baseToken.name) && USD_SYMBOLS.includes(quoteToken.name)
+                ? price
+                : null);
+        return ethUsd === null ? this.config.gasCostUsd : feeEth * ethUsd;
+    }
+
+    private routeFeeBps(route: Route): number {
+        if (!route.pools.length) return Config.DEX_SWAP_BPS;
+        return route.pools.reduce((sum, pool) => sum + Number(pool.feeBps), 0);
+    }
+
+    private toWei(amount: Decimal.Value, decimals: number): bigint {
+        return BigInt(new Decimal(amount).mul(new Decimal(10).pow(decimals)).toFixed(0));
+    }
+
+    private fromWei(amount: bigint, decimals: number): Decimal {
+        return new Decimal(amount.toString()).div(new Decimal(10).pow(decimals));
+    }
+}
@@ -0,0 +1,159 @@
+import { getLogger } from '../logger';
+
+export type UnwindStep = 'aggressive_limit' | 'market' | 'chunked' | 'alt_pool';
+
+export type UnwindConfig = {
+    steps?: UnwindStep[];
+    attemptsPerStep?: number;
+    retryDelayMs?: number;
+    chunks?: number;
+    aggressiveLimitBps?: number;
+    maxLossUsd?: number;
+};
+
+export type UnwindFill = {
+    filled: number;
+    price: number;
+    error?: string;
+};
+
+export type UnwindStepHandler = (size: number) => Promise<UnwindFill>;
+
+// Venues only provide the steps they support; missing steps are skipped.
+export type UnwindHandlers = Partial<Record<UnwindStep, UnwindStepHandler>>;
+
+export type UnwindAttempt = {
+    step: UnwindStep;
+    requested: number;
+    filled: number;
+    price: number;
+    error: string | null;
+};
+
+export type UnwindOutcome = {
+    requested: number;
+    filled: number;
+    remaining: number;
+    avgPrice: number;
+    lossUsd: number;
+    flattened: boolean;
+    attempts: UnwindAttempt[];
+    error: string | null;
+};
+
+const DEFAULT_UNWIND_CONFIG: Required<UnwindConfig> = {
+    steps: ['aggressive_limit', 'market', 'chunked', 'alt_pool'],
+    attemptsPerStep: 2,
+    retryDelayMs: 250,
+    chunks: 4,
+    aggressiveLimitBps: 20,
+    maxLossUsd: 50,
+};
+
+const DUST_RATIO = 1e-9;
+
+export class UnwindStrategy {
+    private readonly config: Required<UnwindConfig>;
+    private readonly logger = getLogger('UnwindStrategy');
+
+    constructor(config: UnwindConfig = {}) {
+        this.config = { ...DEFAULT_UNWIND_CONFIG, ...config };
+        if (this.config.chunks < 1) {
+            throw new Error(`Invalid unwind chunks: ${this.config.chunks}`);
+        }
+    }
+
+    get aggressiveLimitBps(): number {
+        return this.config.aggressiveLimitBps;
+    }
+
+    // Works through the configured steps until the position is flat, every
+    // retry budget is spent, or the realized loss passes maxLossUsd. Loss is
+    // measured against the entry price of the leg being unwound.
+    public async run(
+        size: number,
+        side: 'buy' | 'sell',
+        entryPrice: number,
+        handlers: UnwindHandlers,
+    ): Promise<UnwindOutcome> {
+        const attempts: UnwindAttempt[] = [];
+        let filled = 0;
+        let cost = 0;
+        let error: string | null = null;
+
+        const remaining = () => Math.max(0, size - filled);
+        const isFlat = () => remaining() <= size * DUST_RATIO;
+        const lossUsd = () =>
+            side === 'sell' ? entryPrice * filled - cost : cost - entryPrice * filled;
+
+        steps: for (const step of this.config.steps) {
+            const handler = handlers[step];
+            if (!handler) continue;
+
+            for (let attempt = 0; attempt < this.config.attemptsPerStep && !isFlat(); attempt++) {
+                const sizes = step === 'chunked' ? this.split(remaining()) : [remaining()];
+
+                for (const requested of sizes) {
+                    if (lossUsd() > this.config.maxLossUsd) {
+                        error = `Unwind loss ${lossUsd().toFixed(2)} exceeds max ${this.config.maxLossUsd}`;
+                        break steps;
+                    }
+
+                    const chunk = Math.min(requested, remaining());
+                    const fill = await this.attempt(handler, chunk);
+                    attempts.push({
+                        step,
+                        requested: chunk,
+                        filled: fill.filled,
+                        price: fill.price,
+                        error: fill.error ?? null,
+                    });
+                    filled += fill.filled;
+                    cost += fill.filled * fill.price;
+
+                    if (fill.error) {
+                        error = `${step}: ${fill.error}`;
+                        this.logger.warn(
+                            `Unwind ${step} attempt ${attempt + 1} failed: ${fill.error}`,
+                        );
+                        break;
+                    }
+                }
+
+                if (!isFlat() && this.config.retryDelayMs > 0) {
+                    await new Promise((resolve) => setTimeout(resolve, this.config.retryDelayMs));
+                }
+            }
+
+            if (isFlat()) break;
+        }
+
+        const flattened = isFlat();
+        return {
+            requested: size,
+            filled,
+            remaining: remaining(),
+            avgPrice: filled > 0 ? cost / filled : 0,
+            lossUsd: lossUsd(),
+            flattened,
+            attempts,
+            error: flattened ? null : (error ?? 'Unwind steps exhausted'),
+        };
+    }
+
+    private split(size: number): number[] {
+        return Array.from({ length: this.config.chunks }, () => size / this.config.chunks);
+    }
+
+    private async attempt(handler: UnwindStepHandler, size: number): Promise<UnwindFill> {
+        try {
+            return await handler(size);
+        } catch (error) {
+            return {
+                filled: 0,
+                price: 0,
+                error: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import type { UnwindHandlers } from './unwind';
+
+export type LegSide = 'buy' | 'sell';
+
+// 'bundle' asks for private submission so a failed leg costs nothing. CEX venues
+// treat it as a normal order; a DEX venue without a private relay refuses it.
+export type LegMode = 'ioc' | 'post_only' | 'bundle';
+
+export type LegOrder = {
+    id: string;
+    pair: string;
+    side: LegSide;
+    size: number;
+    price: number;
+    limitPrice: number;
+    mode?: LegMode;
+    // Pool address a DEX leg must trade through, e.g. one hop of a cycle.
+    pool?: string;
+    // LP fee of the route a DEX leg went through, for a fill read back from its receipt.
+    feeBps?: number;
+    onSubmitted?: (reference: string, feeBps?: number) => void;
+};
+
+// cex is the venue trading fee, dex the LP fee already priced into the fill.
+export type LegFees = {
+    cex: number;
+    dex: number;
+    gas: number;
+};
+
+export type LegResult = {
+    success: boolean;
+    price: number;
+    filled: number;
+    reference?: string;
+    pending?: boolean;
+    error?: string;
+    fees?: LegFees;
+};
+
+// price is the average for the quoted size, touch the best price on that side
+// and capacity the base size the venue fills within its own depth limit.
+export type LegQuote = {
+    price: number;
+    touch: number;
+    capacity: number;
+    timestamp: number;
+};
+
+export interface VenueLeg {
+    readonly name: string;
+    quote(pair: string, side: LegSide, size: number): Promise<LegQuote | null>;
+    execute(order: LegOrder): Promise<LegResult>;
+    // Current state of a submitted order; pending while it can still fill.
+    fetchFill(order: LegOrder, reference: string): Promise<LegResult>;
+    // Stops the order where the venue allows it and reports what filled.
+    cancel(order: LegOrder, reference: string): Promise<LegResult>;
+    unwindHandlers(order: LegOrder, aggressiveLimitBps: number): UnwindHandlers;
+}
+
+// Signals name their two sides after the CEX/DEX setup they were built for;
+// either side can be backed by any venue.
+export type SignalVenues = {
+    cex: VenueLeg;
+    dex: VenueLeg;
+};
+
+export class TimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+export async function waitFor<T>(promise: Promise<T>, timeoutSeconds: number): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new TimeoutError('Timed out')), timeoutSeconds * 1000);
+    });
+    try {
+        return await Promise.race([promise, timeoutPromise]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
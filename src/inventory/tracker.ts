@@ -174,13 +174,18 @@ export class InventoryTracker {
         };
     }
 
-    inventorySkews(pair: string): Array<{ token: string; status?: string }> {
+    inventorySkews(
+        pair: string,
+    ): Array<{ token: string; status?: string; amounts: Partial<Record<Venue, Decimal>> }> {
         const [base, quote] = pair.split('/');
         return [base, quote].filter(Boolean).map((asset) => {
             const skew = this.skew(asset);
+            const amounts: Partial<Record<Venue, Decimal>> = {};
+            for (const venue of this.venues) amounts[venue] = skew.venues[venue].amount;
             return {
                 token: asset,
                 status: this.toSkewStatus(skew.maxDeviationPct),
+                amounts,
             };
         });
     }
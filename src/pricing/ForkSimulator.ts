@@ -3,6 +3,7 @@ import { Address } from '../core/types/Address';
 import { Token } from './Token';
 import { Route } from './Route';
 import { UniswapV2Pair } from './UniswapV2Pair';
+import { SwapParamsBuilder } from './SwapParamsBuilder';
 import { Config } from '../config';
 
 export interface SimulationResult {
@@ -22,6 +23,7 @@ export interface SwapParams {
 
 export class ForkSimulator {
     private provider: ethers.JsonRpcProvider;
+    private swapParams: SwapParamsBuilder;
     private static ROUTER_ADDRESS = Config.ROUTER;
     private static WETH_ADDRESS = Config.WETH_ADDRESS;
     private static TOKEN_FUNDERS = ForkSimulator.parseTokenFundersFromEnv();
@@ -73,6 +75,20 @@ export class ForkSimulator {
             outputs: [],
         },
     ];
+    private static PAIR_ABI = [
+        {
+            type: 'function',
+            name: 'swap',
+            stateMutability: 'nonpayable',
+            inputs: [
+                { name: 'amount0Out', type: 'uint256' },
+                { name: 'amount1Out', type: 'uint256' },
+                { name: 'to', type: 'address' },
+                { name: 'data', type: 'bytes' },
+            ],
+            outputs: [],
+        },
+    ];
     private static ROUTER_ABI = [
         {
             type: 'function',
@@ -146,8 +162,9 @@ export class ForkSimulator {
         }
     }
 
-    constructor(forkUrl: string) {
+    constructor(forkUrl: string, swapParams: SwapParamsBuilder = new SwapParamsBuilder()) {
         this.provider = new ethers.JsonRpcProvider(forkUrl);
+        this.swapParams = swapParams;
     }
 
     private async withImpersonatedAccount(address: string, fn: () => Promise<void>): Promise<void> {
@@ -202,40 +219,10 @@ export class ForkSimulator {
 
     public async ensureSenderReady(route: Route, amountIn: bigint, sender: Address): Promise<void> {
         const tokenIn = route.path[0];
-        const tokenInAddress = tokenIn.address.checksum;
         const senderAddress = sender.checksum;
         await this.withImpersonatedAccount(senderAddress, async () => {
             const signer = await this.provider.getSigner(senderAddress);
-            const token = new ethers.Contract(tokenInAddress, ForkSimulator.ERC20_ABI, signer);
-
-            let balance: bigint = await token.balanceOf(senderAddress);
-            if (balance < amountIn) {
-                const deficit = amountIn - balance;
-                if (tokenInAddress.toLowerCase() === ForkSimulator.WETH_ADDRESS.toLowerCase()) {
-                    const weth = new ethers.Contract(
-                        tokenInAddress,
-                        ForkSimulator.WETH_ABI,
-                        signer,
-                    );
-                    const wrapAmount = deficit + deficit / 10n + 1n;
-                    const tx = await weth.deposit({ value: wrapAmount });
-                    await tx.wait();
-                } else {
-                    const topUpAmount = deficit + deficit / 10n + 1n;
-                    await this.fundFromConfiguredFounder(
-                        tokenInAddress,
-                        senderAddress,
-                        topUpAmount,
-                    );
-                }
-
-                balance = await token.balanceOf(senderAddress);
-                if (balance < amountIn) {
-                    throw new Error(
-                        `Insufficient ${tokenIn.name} balance for ${senderAddress}: have ${balance}, need ${amountIn}`,
-                    );
-                }
-            }
+            const token = await this.ensureBalance(signer, tokenIn, amountIn);
 
             const allowance: bigint = await token.allowance(
                 senderAddress,
@@ -251,6 +238,38 @@ export class ForkSimulator {
         });
     }
 
+    private async ensureBalance(
+        signer: ethers.JsonRpcSigner,
+        tokenIn: Token,
+        amountIn: bigint,
+    ): Promise<ethers.Contract> {
+        const tokenInAddress = tokenIn.address.checksum;
+        const senderAddress = signer.address;
+        const token = new ethers.Contract(tokenInAddress, ForkSimulator.ERC20_ABI, signer);
+
+        let balance: bigint = await token.balanceOf(senderAddress);
+        if (balance < amountIn) {
+            const deficit = amountIn - balance;
+            if (tokenInAddress.toLowerCase() === ForkSimulator.WETH_ADDRESS.toLowerCase()) {
+                const weth = new ethers.Contract(tokenInAddress, ForkSimulator.WETH_ABI, signer);
+                const wrapAmount = deficit + deficit / 10n + 1n;
+                const tx = await weth.deposit({ value: wrapAmount });
+                await tx.wait();
+            } else {
+                const topUpAmount = deficit + deficit / 10n + 1n;
+                await this.fundFromConfiguredFounder(tokenInAddress, senderAddress, topUpAmount);
+            }
+
+            balance = await token.balanceOf(senderAddress);
+            if (balance < amountIn) {
+                throw new Error(
+                    `Insufficient ${tokenIn.name} balance for ${senderAddress}: have ${balance}, need ${amountIn}`,
+                );
+            }
+        }
+        return token;
+    }
+
     public async simulateSwap(
         router: Address,
         swapParams: SwapParams,
@@ -297,21 +316,87 @@ export class ForkSimulator {
         route: Route,
         amountIn: bigint,
         sender: Address,
+        expectedOutput: bigint = route.getOutput(amountIn),
     ): Promise<SimulationResult> {
         await this.ensureSenderReady(route, amountIn, sender);
 
-        const pathAddresses = route.path.map((t) => t.address.checksum);
-        const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 20);
-        const params: SwapParams = {
-            method: 'swapExactTokensForTokens',
-            args: [amountIn, 0n, pathAddresses, sender.checksum, deadline],
-        };
+        const params = SwapParamsBuilder.toSwapParams(
+            this.swapParams.fromRoute(route, amountIn, expectedOutput, sender),
+        );
 
         const routerAddress = new Address(ForkSimulator.ROUTER_ADDRESS);
 
         return this.simulateSwap(routerAddress, params, sender);
     }
 
+    // Runs quote -> base on buyPool and base -> quote on sellPool against the pair
+    // contracts directly, so the pools may come from different factories. The base
+    // leg is paid straight into sellPool, as an atomic arb contract would, and the
+    // fork is reverted afterwards. amountOut is the tokenIn returned to the sender.
+    public async simulatePoolArb(
+        buyPool: UniswapV2Pair,
+        sellPool: UniswapV2Pair,
+        tokenIn: Token,
+        amountIn: bigint,
+        sender: Address,
+    ): Promise<SimulationResult> {
+        const senderAddress = sender.checksum;
+        const snapshot: string = await this.provider.send('evm_snapshot', []);
+        try {
+            const tokenMid = buyPool.token0.equals(tokenIn) ? buyPool.token1 : buyPool.token0;
+            const midOut = buyPool.getAmountOut(amountIn, tokenIn);
+            const finalOut = sellPool.getAmountOut(midOut, tokenMid);
+            const outs = (pool: UniswapV2Pair, tokenOut: Token, amount: bigint) =>
+                pool.token0.equals(tokenOut) ? [amount, 0n] : [0n, amount];
+
+            let amountOut = 0n;
+            let gasUsed = 0n;
+            await this.withImpersonatedAccount(senderAddress, async () => {
+                const signer = await this.provider.getSigner(senderAddress);
+                const token = await this.ensureBalance(signer, tokenIn, amountIn);
+                const before: bigint = await token.balanceOf(senderAddress);
+
+                const pairAt = (pool: UniswapV2Pair) =>
+                    new ethers.Contract(pool.address.checksum, ForkSimulator.PAIR_ABI, signer);
+                const txs = [
+                    () => token.transfer(buyPool.address.checksum, amountIn),
+                    () =>
+                        pairAt(buyPool).swap(
+                            ...outs(buyPool, tokenMid, midOut),
+                            sellPool.address.checksum,
+                            '0x',
+                        ),
+                    () =>
+                        pairAt(sellPool).swap(
+                            ...outs(sellPool, tokenIn, finalOut),
+                            senderAddress,
+                            '0x',
+                        ),
+                ];
+                for (const send of txs) {
+                    const receipt = await (await send()).wait();
+                    gasUsed += receipt.gasUsed;
+                }
+
+                const after: bigint = await token.balanceOf(senderAddress);
+                amountOut = after - before + amountIn;
+            });
+
+            return { success: true, amountOut, gasUsed, logs: [] };
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } catch (error: any) {
+            return {
+                success: false,
+                amountOut: 0n,
+                gasUsed: 0n,
+                error: error.message || 'Unknown simulation error',
+                logs: [],
+            };
+        } finally {
+            await this.provider.send('evm_revert', [snapshot]).catch(() => undefined);
+        }
+    }
+
     public async compareSimulationVsCalculation(
         pair: UniswapV2Pair,
         amountIn: bigint,
@@ -329,7 +414,12 @@ export class ForkSimulator {
 
         const route = new Route([pair], [tokenIn, tokenOut]);
 
-        const simulationResult = await this.simulateRoute(route, amountIn, impersonatedSender);
+        const simulationResult = await this.simulateRoute(
+            route,
+            amountIn,
+            impersonatedSender,
+            calculated,
+        );
 
         const simulated = simulationResult.success ? simulationResult.amountOut : 0n;
         const diff = calculated > simulated ? calculated - simulated : simulated - calculated;
@@ -4,10 +4,13 @@ import { RouteFinder } from './RouteFinder';
 import { Address } from '../core/types/Address';
 import { Token } from './Token';
 import { Route } from './Route';
-import { ForkSimulator } from './ForkSimulator';
+import { ForkSimulator, SimulationResult } from './ForkSimulator';
+import { SwapParamsBuilder } from './SwapParamsBuilder';
 import { MempoolMonitor, ParsedSwap } from './MempoolMonitor';
 import { Priority } from '../chain/types/GasPrice';
 
+const IMPERSONATED_SENDER = new Address('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
+
 export class QuoteError extends Error {
     constructor(message: string) {
         super(message);
@@ -43,13 +46,21 @@ export class PricingEngine {
     private monitor: MempoolMonitor;
 
     private pools: Map<string, UniswapV2Pair>;
+    // Unix seconds each pool's reserves were last read from chain, by checksum.
+    private refreshedAt: Map<string, number>;
     private router: RouteFinder | null;
 
-    constructor(chainClient: ChainClient, forkUrl: string, wsUrl: string) {
+    constructor(
+        chainClient: ChainClient,
+        forkUrl: string,
+        wsUrl: string,
+        swapParams: SwapParamsBuilder = new SwapParamsBuilder(),
+    ) {
         this.client = chainClient;
-        this.simulator = new ForkSimulator(forkUrl);
+        this.simulator = new ForkSimulator(forkUrl, swapParams);
         this.monitor = new MempoolMonitor(wsUrl, this.onMempoolSwap.bind(this));
         this.pools = new Map();
+        this.refreshedAt = new Map();
         this.router = null;
     }
 
@@ -71,9 +82,11 @@ export class PricingEngine {
 
         try {
             const loadedPairs = await Promise.all(promises);
+            const now = Date.now() / 1000;
 
             for (const pair of loadedPairs) {
                 this.pools.set(pair.address.checksum, pair);
+                this.refreshedAt.set(pair.address.checksum, now);
             }
 
             this.router = new RouteFinder(Array.from(this.pools.values()));
@@ -87,6 +100,7 @@ export class PricingEngine {
         try {
             const newPair = await UniswapV2Pair.fromChain(address, this.client);
             this.pools.set(address.checksum, newPair);
+            this.refreshedAt.set(address.checksum, Date.now() / 1000);
 
             if (this.router) {
                 this.router = new RouteFinder(Array.from(this.pools.values()));
@@ -96,6 +110,48 @@ export class PricingEngine {
         }
     }
 
+    // A failed refresh keeps the old reserves, so this is how old the pool state is.
+    public poolRefreshedAt(address: Address): number | null {
+        return this.refreshedAt.get(address.checksum) ?? null;
+    }
+
+    public getPool(tokenA: Token, tokenB: Token): UniswapV2Pair | null {
+        return this.getPools(tokenA, tokenB)[0] ?? null;
+    }
+
+    // Every loaded pool for the pair, e.g. the Uniswap and Sushi V2 pools of WETH/USDC.
+    public getPools(tokenA: Token, tokenB: Token): UniswapV2Pair[] {
+        if (tokenA.equals(tokenB)) return [];
+        return Array.from(this.pools.values()).filter(
+            (pair) =>
+                (pair.token0.equals(tokenA) || pair.token1.equals(tokenA)) &&
+                (pair.token0.equals(tokenB) || pair.token1.equals(tokenB)),
+        );
+    }
+
+    public findAllRoutes(tokenIn: Token, tokenOut: Token, maxHops: number = 3): Route[] {
+        return this.router?.findAllRoutes(tokenIn, tokenOut, maxHops) ?? [];
+    }
+
+    // Best route for the swap that avoids the direct pool, used when the primary
+    // pool can't absorb a trade (e.g. while unwinding).
+    public findAlternativeRoute(tokenIn: Token, tokenOut: Token, amountIn: bigint): Route | null {
+        if (!this.router) return null;
+
+        const primary = this.getPool(tokenIn, tokenOut);
+        let best: Route | null = null;
+        let bestOutput = 0n;
+        for (const route of this.router.findAllRoutes(tokenIn, tokenOut)) {
+            if (primary && route.pools.includes(primary)) continue;
+            const output = route.getOutput(amountIn);
+            if (output > bestOutput) {
+                best = route;
+                bestOutput = output;
+            }
+        }
+        return best;
+    }
+
     public async getQuote(
         tokenIn: Token,
         tokenOut: Token,
@@ -117,8 +173,12 @@ export class PricingEngine {
             throw new QuoteError('No valid route found');
         }
 
-        const IMPERSONATED_SENDER = new Address('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266');
-        const simResult = await this.simulator.simulateRoute(route, amountIn, IMPERSONATED_SENDER);
+        const simResult = await this.simulator.simulateRoute(
+            route,
+            amountIn,
+            IMPERSONATED_SENDER,
+            route.getOutput(amountIn),
+        );
 
         if (!simResult.success) {
             throw new QuoteError(`Simulation failed: ${simResult.error}`);
@@ -134,6 +194,45 @@ export class PricingEngine {
         );
     }
 
+    // Quotes a route the caller has already chosen, e.g. a cycle hop pinned to one pool.
+    public async quoteRoute(route: Route, amountIn: bigint): Promise<Quote> {
+        const expectedOutput = route.getOutput(amountIn);
+        const simResult = await this.simulator.simulateRoute(
+            route,
+            amountIn,
+            IMPERSONATED_SENDER,
+            expectedOutput,
+        );
+
+        if (!simResult.success) {
+            throw new QuoteError(`Simulation failed: ${simResult.error}`);
+        }
+
+        return new Quote(
+            route,
+            amountIn,
+            expectedOutput,
+            simResult.amountOut,
+            simResult.gasUsed,
+            Date.now() / 1000,
+        );
+    }
+
+    public async simulatePoolArb(
+        buyPool: UniswapV2Pair,
+        sellPool: UniswapV2Pair,
+        tokenIn: Token,
+        amountIn: bigint,
+    ): Promise<SimulationResult> {
+        return this.simulator.simulatePoolArb(
+            buyPool,
+            sellPool,
+            tokenIn,
+            amountIn,
+            IMPERSONATED_SENDER,
+        );
+    }
+
     private onMempoolSwap(swap: ParsedSwap): void {
         if (!swap.tokenIn || !swap.tokenOut) return;
 
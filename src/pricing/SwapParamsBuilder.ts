@@ -0,0 +1,104 @@
+import { Address } from '../core/types/Address';
+import { Route } from './Route';
+import type { SwapParams } from './ForkSimulator';
+import type { Quote } from './PricingEngine';
+
+export type SwapParamsConfig = {
+    defaultSlippageBps?: number;
+    pairSlippageBps?: Record<string, number>;
+    deadlineSeconds?: number;
+};
+
+export type RouterSwapArgs = {
+    amountIn: bigint;
+    amountOutMin: bigint;
+    path: string[];
+    to: string;
+    deadline: bigint;
+};
+
+const DEFAULT_SWAP_PARAMS_CONFIG: Required<SwapParamsConfig> = {
+    defaultSlippageBps: 50,
+    pairSlippageBps: {},
+    deadlineSeconds: 60,
+};
+
+export class SwapParamsBuilder {
+    private readonly config: Required<SwapParamsConfig>;
+
+    constructor(config: SwapParamsConfig = {}) {
+        this.config = { ...DEFAULT_SWAP_PARAMS_CONFIG, ...config };
+        for (const [pair, bps] of Object.entries(this.config.pairSlippageBps)) {
+            SwapParamsBuilder.assertSlippage(bps, pair);
+        }
+        SwapParamsBuilder.assertSlippage(this.config.defaultSlippageBps, 'default');
+        if (this.config.deadlineSeconds <= 0) {
+            throw new Error('Deadline must be positive');
+        }
+    }
+
+    get deadlineSeconds(): number {
+        return this.config.deadlineSeconds;
+    }
+
+    public slippageBps(pair: string): number {
+        const [base, quote] = pair.toUpperCase().split('/');
+        const overrides = this.config.pairSlippageBps;
+        return (
+            overrides[pair] ??
+            overrides[`${base}/${quote}`] ??
+            overrides[`${quote}/${base}`] ??
+            this.config.defaultSlippageBps
+        );
+    }
+
+    public minOutput(expectedOutput: bigint, pair: string): bigint {
+        if (expectedOutput <= 0n) {
+            throw new Error('Expected output must be positive');
+        }
+        // Hundredths of a bp, so fractional tolerances such as 12.5 bps stay exact.
+        const keep = BigInt(Math.round((10_000 - this.slippageBps(pair)) * 100));
+        return (expectedOutput * keep) / 1_000_000n;
+    }
+
+    public deadline(now: number = Date.now() / 1000): bigint {
+        return BigInt(Math.floor(now) + this.config.deadlineSeconds);
+    }
+
+    public fromRoute(
+        route: Route,
+        amountIn: bigint,
+        expectedOutput: bigint,
+        recipient: Address,
+        pair: string = SwapParamsBuilder.pairOf(route),
+    ): RouterSwapArgs {
+        return {
+            amountIn,
+            amountOutMin: this.minOutput(expectedOutput, pair),
+            path: route.path.map((t) => t.address.checksum),
+            to: recipient.checksum,
+            deadline: this.deadline(),
+        };
+    }
+
+    public fromQuote(quote: Quote, recipient: Address, pair?: string): RouterSwapArgs {
+        return this.fromRoute(quote.route, quote.amountIn, quote.simulatedOutput, recipient, pair);
+    }
+
+    public static toSwapParams(args: RouterSwapArgs): SwapParams {
+        return {
+            method: 'swapExactTokensForTokens',
+            args: [args.amountIn, args.amountOutMin, args.path, args.to, args.deadline],
+        };
+    }
+
+    private static pairOf(route: Route): string {
+        return `${route.path[0].name}/${route.path[route.path.length - 1].name}`;
+    }
+
+    private static assertSlippage(bps: number, label: string): void {
+        if (!Number.isFinite(bps) || bps < 0 || bps >= 10_000) {
+            throw new Error(`Invalid slippage ${bps} bps for ${label}`);
+        }
+    }
+}
@@ -0,0 +1,256 @@
+import Decimal from 'decimal.js';
+import { FeeStructure } from './fees';
+import { SignalLeg } from './signal';
+import { NormalizedOrderBook } from '../exchange/ExchangeClient';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { Route } from '../pricing/Route';
+import { Token } from '../pricing/Token';
+import { UniswapV2Pair } from '../pricing/UniswapV2Pair';
+
+export type CycleStep =
+    | { venue: 'cex'; pair: string; side: 'buy' | 'sell' }
+    | { venue: 'dex'; pool: UniswapV2Pair; tokenIn: Token; tokenOut: Token };
+
+export type Cycle = {
+    label: string;
+    steps: CycleStep[];
+};
+
+export type CycleQuote = {
+    cycle: Cycle;
+    amountIn: number;
+    amountOut: number;
+    fees: number;
+    netPnl: number;
+    legs: SignalLeg[];
+};
+
+export type CycleFinderConfig = {
+    maxHops?: number;
+    searchIterations?: number;
+};
+
+const DEFAULT_CYCLE_FINDER_CONFIG: Required<CycleFinderConfig> = {
+    maxHops: 3,
+    searchIterations: 60,
+};
+
+const GOLDEN = (Math.sqrt(5) - 1) / 2;
+
+// Cycles start and end in the anchor token and mix DEX routes with CEX books
+// quoted in the anchor, e.g. USDC -> ETH -> ARB on the DEX, then ARB/USDC on
+// the CEX. Amounts are in the anchor, which is assumed to be a USD stablecoin
+// so gas can be netted against them. Every DEX hop is its own leg so each
+// can be filled and unwound against a single pool.
+export class CycleFinder {
+    private readonly config: Required<CycleFinderConfig>;
+
+    constructor(
+        private readonly pricing: PricingEngine,
+        private readonly fees: FeeStructure,
+        config: CycleFinderConfig = {},
+    ) {
+        this.config = { ...DEFAULT_CYCLE_FINDER_CONFIG, ...config };
+    }
+
+    // A plain CEX/DEX pair over one pool is left to SignalGenerator.generate;
+    // everything else that closes back into the anchor is returned.
+    public discover(anchor: Token, bases: Token[]): Cycle[] {
+        const cycles: Cycle[] = [];
+        const book = (token: Token) => `${token.name}/${anchor.name}`;
+
+        for (const base of bases) {
+            for (const route of this.routes(anchor, base)) {
+                if (route.numHops < 2) continue;
+                cycles.push(
+                    this.cycle(anchor, [
+                        ...this.dexSteps(route),
+                        { venue: 'cex', pair: book(base), side: 'sell' },
+                    ]),
+                );
+            }
+            for (const route of this.routes(base, anchor)) {
+                if (route.numHops < 2) continue;
+                cycles.push(
+                    this.cycle(anchor, [
+                        { venue: 'cex', pair: book(base), side: 'buy' },
+                        ...this.dexSteps(route),
+                    ]),
+                );
+            }
+            for (const other of bases) {
+                if (other.equals(base)) continue;
+                for (const route of this.routes(base, other)) {
+                    cycles.push(
+                        this.cycle(anchor, [
+                            { venue: 'cex', pair: book(base), side: 'buy' },
+                            ...this.dexSteps(route),
+                            { venue: 'cex', pair: book(other), side: 'sell' },
+                        ]),
+                    );
+                }
+            }
+        }
+
+        return cycles;
+    }
+
+    // Net PnL is concave in the starting amount (every leg has diminishing
+    // output), so a golden-section search over (0, maxIn] finds the best size.
+    public price(
+        cycle: Cycle,
+        books: Map<string, NormalizedOrderBook>,
+        maxIn: number,
+    ): CycleQuote | null {
+        if (maxIn <= 0) return null;
+
+        const net = (amountIn: number) =>
+            this.evaluate(cycle, books, amountIn)?.netPnl ?? Number.NEGATIVE_INFINITY;
+
+        let low = 0;
+        let high = maxIn;
+        let left = high - GOLDEN * (high - low);
+        let right = low + GOLDEN * (high - low);
+        let leftNet = net(left);
+        let rightNet = net(right);
+        for (let i = 0; i < this.config.searchIterations; i++) {
+            if (leftNet < rightNet) {
+                low = left;
+                left = right;
+                leftNet = rightNet;
+                right = low + GOLDEN * (high - low);
+                rightNet = net(right);
+            } else {
+                high = right;
+                right = left;
+                rightNet = leftNet;
+                left = high - GOLDEN * (high - low);
+                leftNet = net(left);
+            }
+        }
+
+        const best = this.evaluate(cycle, books, (low + high) / 2);
+        return best && best.netPnl > 0 ? best : null;
+    }
+
+    public evaluate(
+        cycle: Cycle,
+        books: Map<string, NormalizedOrderBook>,
+        amountIn: number,
+    ): CycleQuote | null {
+        if (amountIn <= 0) return null;
+
+        const taker = this.fees.cexTakerBps / 10_000;
+        const legs: SignalLeg[] = [];
+        let amount = amountIn;
+        let fees = 0;
+
+        for (const step of cycle.steps) {
+            if (step.venue === 'dex') {
+                const out = this.swapOut(step.pool, step.tokenIn, step.tokenOut, amount);
+                if (out === null || out <= 0) return null;
+                legs.push({
+                    venue: 'dex',
+                    pair: `${step.tokenIn.name}/${step.tokenOut.name}`,
+                    side: 'sell',
+                    size: amount,
+                    price: out / amount,
+                    pool: step.pool.address.checksum,
+                });
+                fees += this.fees.gasCostUsd;
+                amount = out;
+                continue;
+            }
+
+            const book = books.get(step.pair);
+            if (!book) return null;
+            if (step.side === 'buy') {
+                const bought = this.buyWithQuote(book.asks, amount);
+                if (bought === null) return null;
+                legs.push({ ...step, size: bought, price: amount / bought });
+                fees += amount * taker;
+                amount = bought;
+            } else {
+                const proceeds = this.sellBase(book.bids, amount);
+                if (proceeds === null) return null;
+                legs.push({ ...step, size: amount, price: proceeds / amount });
+                fees += proceeds * taker;
+                amount = proceeds;
+            }
+        }
+
+        return {
+            cycle,
+            amountIn,
+            amountOut: amount,
+            fees,
+            netPnl: amount - amountIn - fees,
+            legs,
+        };
+    }
+
+    private routes(tokenIn: Token, tokenOut: Token): Route[] {
+        return this.pricing.findAllRoutes(tokenIn, tokenOut, this.config.maxHops);
+    }
+
+    private dexSteps(route: Route): CycleStep[] {
+        return route.pools.map((pool, i) => ({
+            venue: 'dex',
+            pool,
+            tokenIn: route.path[i],
+            tokenOut: route.path[i + 1],
+        }));
+    }
+
+    private cycle(anchor: Token, steps: CycleStep[]): Cycle {
+        const path = [anchor.name];
+        for (const step of steps) {
+            if (step.venue === 'dex') {
+                path.push(step.tokenOut.name);
+            } else {
+                const [base, quote] = step.pair.split('/');
+                path.push(step.side === 'buy' ? base : quote);
+            }
+        }
+        return { label: path.join('>'), steps };
+    }
+
+    private swapOut(pool: UniswapV2Pair, tokenIn: Token, tokenOut: Token, amount: number) {
+        try {
+            const amountIn = BigInt(
+                new Decimal(amount).mul(new Decimal(10).pow(tokenIn.decimals)).toFixed(0),
+            );
+            const out = pool.getAmountOut(amountIn, tokenIn);
+            return new Decimal(out.toString())
+                .div(new Decimal(10).pow(tokenOut.decimals))
+                .toNumber();
+        } catch {
+            return null;
+        }
+    }
+
+    // Base bought by spending `notional` of quote up the asks, null when the book is too thin.
+    private buyWithQuote(asks: NormalizedOrderBook['asks'], notional: number): number | null {
+        let remaining = notional;
+        let bought = 0;
+        for (const [price, qty] of asks) {
+            const cost = Math.min(remaining, price.toNumber() * qty.toNumber());
+            bought += cost / price.toNumber();
+            remaining -= cost;
+            if (remaining <= 1e-12) return bought;
+        }
+        return null;
+    }
+
+    private sellBase(bids: NormalizedOrderBook['bids'], size: number): number | null {
+        let remaining = size;
+        let proceeds = 0;
+        for (const [price, qty] of bids) {
+            const take = Math.min(remaining, qty.toNumber());
+            proceeds += take * price.toNumber();
+            remaining -= take;
+            if (remaining <= 1e-12) return proceeds;
+        }
+        return null;
+    }
+}
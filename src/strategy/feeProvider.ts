@@ -0,0 +1,138 @@
+import { FeeStructure } from './fees';
+import { ChainClient } from '../chain/ChainClient';
+import { Priority } from '../chain/types/GasPrice';
+import { ExchangeClient } from '../exchange/ExchangeClient';
+import { PricingEngine } from '../pricing/PricingEngine';
+import { Route } from '../pricing/Route';
+import { Token } from '../pricing/Token';
+import { getLogger } from '../logger';
+
+export type FeeProviderConfig = {
+    tradingFeeRefreshSeconds?: number;
+    gasRefreshSeconds?: number;
+    ethUsdPair?: string;
+    priority?: Priority;
+};
+
+const DEFAULT_FEE_PROVIDER_CONFIG: Required<FeeProviderConfig> = {
+    tradingFeeRefreshSeconds: 3600,
+    gasRefreshSeconds: 12,
+    ethUsdPair: 'ETH/USDT',
+    priority: Priority.MEDIUM,
+};
+
+type Cached<T> = {
+    value: T;
+    fetchedAt: number;
+};
+
+type TradingFees = {
+    makerBps: number;
+    takerBps: number;
+};
+
+// Builds a FeeStructure per pair from the account's trading fees, the pool's own
+// fee tier and the current gas cost. Any source that cannot be read falls back
+// to the matching field of the static fee structure.
+export class FeeProvider {
+    private readonly config: Required<FeeProviderConfig>;
+    private readonly tradingFees = new Map<string, Cached<TradingFees>>();
+    private gasPriceWei: Cached<bigint> | null = null;
+    private ethUsd: Cached<number> | null = null;
+    private readonly logger = getLogger('FeeProvider');
+
+    constructor(
+        private readonly exchange: ExchangeClient,
+        private readonly chain: ChainClient,
+        private readonly pricing: PricingEngine,
+        private readonly fallback: FeeStructure,
+        config: FeeProviderConfig = {},
+    ) {
+        this.config = { ...DEFAULT_FEE_PROVIDER_CONFIG, ...config };
+    }
+
+    public async feesFor(pair: string, baseToken: Token, quoteToken: Token): Promise<FeeStructure> {
+        const pool = this.pricing.getPool(baseToken, quoteToken);
+        const cex = await this.fetchTradingFees(pair);
+        const gasCostUsd = pool
+            ? await this.gasCostUsd(new Route([pool], [baseToken, quoteToken]).estimateGas())
+            : null;
+
+        return new FeeStructure(
+            cex?.takerBps ?? this.fallback.cexTakerBps,
+            pool ? Number(pool.feeBps) : this.fallback.dexSwapBps,
+            gasCostUsd ?? this.fallback.gasCostUsd,
+            cex?.makerBps ?? this.fallback.cexMakerBps,
+        );
+    }
+
+    public async gasCostUsd(gasUnits: bigint): Promise<number | null> {
+        const [gasPriceWei, ethUsd] = await Promise.all([this.fetchGasPrice(), this.fetchEthUsd()]);
+        if (gasPriceWei === null || ethUsd === null) return null;
+        return (Number(gasUnits * gasPriceWei) / 1e18) * ethUsd;
+    }
+
+    // ETH/USD from the configured book's mid, cached as long as the gas price.
+    public async fetchEthUsd(): Promise<number | null> {
+        if (this.ethUsd && this.isFresh(this.ethUsd, this.config.gasRefreshSeconds)) {
+            return this.ethUsd.value;
+        }
+
+        try {
+            const book = await this.exchange.fetchOrderBook(this.config.ethUsdPair);
+            this.ethUsd = { value: book.mid_price.toNumber(), fetchedAt: Date.now() };
+            return this.ethUsd.value;
+        } catch (error) {
+            this.warn(`ETH price from ${this.config.ethUsdPair}`, error);
+            return this.ethUsd?.value ?? null;
+        }
+    }
+
+    private async fetchTradingFees(pair: string): Promise<TradingFees | null> {
+        const cached = this.tradingFees.get(pair);
+        if (cached && this.isFresh(cached, this.config.tradingFeeRefreshSeconds)) {
+            return cached.value;
+        }
+
+        try {
+            const { maker, taker } = await this.exchange.getTradingFees(pair);
+            const value = {
+                makerBps: maker.mul(10_000).toNumber(),
+                takerBps: taker.mul(10_000).toNumber(),
+            };
+            this.tradingFees.set(pair, { value, fetchedAt: Date.now() });
+            return value;
+        } catch (error) {
+            this.warn(`trading fees for ${pair}`, error);
+            return cached?.value ?? null;
+        }
+    }
+
+    private async fetchGasPrice(): Promise<bigint | null> {
+        if (this.gasPriceWei && this.isFresh(this.gasPriceWei, this.config.gasRefreshSeconds)) {
+            return this.gasPriceWei.value;
+        }
+
+        try {
+            const gas = await this.chain.getGasPrice();
+            this.gasPriceWei = {
+                value: gas.getMaxFee(this.config.priority),
+                fetchedAt: Date.now(),
+            };
+            return this.gasPriceWei.value;
+        } catch (error) {
+            this.warn('gas price', error);
+            return this.gasPriceWei?.value ?? null;
+        }
+    }
+
+    private isFresh(cached: Cached<unknown>, refreshSeconds: number): boolean {
+        return Date.now() - cached.fetchedAt < refreshSeconds * 1000;
+    }
+
+    private warn(what: string, error: unknown): void {
+        this.logger.warn(
+            `Cannot refresh ${what}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+    }
+}
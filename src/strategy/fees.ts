@@ -3,6 +3,7 @@ export class FeeStructure {
         public cexTakerBps: number = 10.0,
         public dexSwapBps: number = 30.0,
         public gasCostUsd: number = 5.0,
+        public cexMakerBps: number = 2.0,
     ) {}
 
     totalFeeBps(tradeValueUsd: number): number {
@@ -1,11 +1,18 @@
 import Decimal from 'decimal.js';
 import { Direction, Signal } from './signal';
 import { FeeStructure } from './fees';
+import { FeeProvider } from './feeProvider';
+import { RiskManager } from './riskManager';
+import { SizeSolution, SizeSolver } from './sizing';
+import { CycleFinder, CycleQuote } from './cycles';
+import { PoolArbSolver } from './poolArb';
+import { LiquidityContext } from './scorer';
+import { PriceTick } from './preTradeValidator';
 import { PricingEngine } from '../pricing/PricingEngine';
 import { Token } from '../pricing/Token';
 import { Address } from '../core/types/Address';
 import { InventoryTracker, Venue } from '../inventory/tracker';
-import { ExchangeClient } from '../exchange/ExchangeClient';
+import { ExchangeClient, NormalizedOrderBook } from '../exchange/ExchangeClient';
 import { getLogger } from '../logger';
 
 export type GeneratorConfig = {
@@ -40,6 +47,8 @@ export class SignalGenerator {
         private inventory: InventoryTracker,
         private fees: FeeStructure,
         config: GeneratorConfig = {},
+        private riskManager: RiskManager | null = null,
+        private feeProvider: FeeProvider | null = null,
     ) {
         this.minSpreadBps = config.min_spread_bps ?? 50;
         this.minProfitUsd = new Decimal(config.min_profit_usd ?? 5);
@@ -50,9 +59,14 @@ export class SignalGenerator {
         this.lastSignalTime = new Map();
     }
 
-    public async generate(pair: string, size: number): Promise<Signal | null> {
+    // Without a size the signal is sized by the solver, capped by inventory and risk limits.
+    public async generate(pair: string, requestedSize?: number): Promise<Signal | null> {
         if (this.inCooldown(pair)) return null;
 
+        const feeStructure = await this.currentFees(pair);
+        const size = requestedSize ?? (await this.optimalSize(pair, feeStructure));
+        if (!size) return null;
+
         const prices = await this.fetchPrices(pair, size);
         if (!prices) return null;
 
@@ -83,7 +97,13 @@ export class SignalGenerator {
 
         const tradeValue = size * cexPrice.toNumber();
         const grossPnl = (spread.toNumber() / 10_000) * tradeValue;
-        const feesBps = this.fees.totalFeeBps(tradeValue);
+        // Both DEX prices are simulated quote outputs, net of the pool fee already.
+        const feesBps = new FeeStructure(
+            feeStructure.cexTakerBps,
+            0,
+            feeStructure.gasCostUsd,
+            feeStructure.cexMakerBps,
+        ).totalFeeBps(tradeValue);
         const fees = (feesBps / 10_000) * tradeValue;
         const netPnl = grossPnl - fees;
 
@@ -111,38 +131,340 @@ export class SignalGenerator {
             expiry: Date.now() / 1000 + this.signalTtl,
             inventoryOk,
             withinLimits,
+            sourceTimestamp: prices.timestamp,
         });
 
         this.lastSignalTime.set(pair, Date.now() / 1000);
         return signal;
     }
 
+    // Cycle mode: prices every cycle from the anchor through the given bases and
+    // returns the profitable ones, best first. Each base needs a <base>/<anchor> book.
+    public async generateCycles(anchor: string, bases: string[]): Promise<Signal[]> {
+        const books = new Map<string, NormalizedOrderBook>();
+        const tokens: Token[] = [];
+        for (const base of bases) {
+            const pair = `${base}/${anchor}`;
+            try {
+                books.set(pair, await this.exchange.fetchOrderBook(pair));
+                tokens.push(this.resolveToken(base));
+            } catch {
+                logger.info(`Pair: ${pair}, no CEX book for cycles SKIPPING`);
+            }
+        }
+        if (tokens.length === 0) return [];
+
+        const finder = new CycleFinder(this.pricing, this.fees);
+        const sourceTimestamp = Math.min(...Array.from(books.values()).map((b) => b.timestamp));
+        const signals: Signal[] = [];
+
+        for (const cycle of finder.discover(this.resolveToken(anchor), tokens)) {
+            if (this.inCooldown(cycle.label)) continue;
+
+            const venue = cycle.steps[0].venue === 'cex' ? Venue.BINANCE : Venue.WALLET;
+            const caps = [...this.usdCaps(), this.inventory.getAvailable(venue, anchor)];
+            const quote = finder.price(cycle, books, Decimal.min(...caps).toNumber());
+            if (!quote || quote.netPnl < this.minProfitUsd.toNumber()) continue;
+
+            signals.push(this.cycleSignal(quote, sourceTimestamp));
+            this.lastSignalTime.set(cycle.label, Date.now() / 1000);
+        }
+
+        return signals.sort((a, b) => b.expectedNetPnl.cmp(a.expectedNetPnl));
+    }
+
+    // DEX-to-DEX mode: buys the base in the cheaper pool of the pair and sells it
+    // in the dearer one, sized at the two-pool optimum and run on the fork before
+    // it is signalled. Needs at least two pools for the pair in PricingEngine.
+    public async generatePoolArb(pair: string): Promise<Signal | null> {
+        const key = `${pair}:pools`;
+        if (this.inCooldown(key)) return null;
+
+        const [baseToken, quoteToken] = this.resolveTokens(pair);
+        const pools = this.pricing.getPools(baseToken, quoteToken);
+        if (pools.length < 2) return null;
+
+        const scale = new Decimal(10).pow(quoteToken.decimals);
+        const caps = [
+            ...this.usdCaps(),
+            this.inventory.getAvailable(Venue.WALLET, quoteToken.name),
+        ];
+        const maxIn = BigInt(
+            Decimal.min(...caps)
+                .times(scale)
+                .toFixed(0, Decimal.ROUND_DOWN),
+        );
+        const quote = new PoolArbSolver().best(pools, quoteToken, maxIn);
+        if (!quote) {
+            logger.info(`Pair: ${pair}, no pool price gap SKIPPING`);
+            return null;
+        }
+
+        const simulation = await this.pricing.simulatePoolArb(
+            quote.buyPool,
+            quote.sellPool,
+            quoteToken,
+            quote.amountIn,
+        );
+        if (!simulation.success) {
+            logger.info(`Pair: ${pair}, pool arb simulation failed: ${simulation.error} SKIPPING`);
+            return null;
+        }
+
+        const amountOut =
+            simulation.amountOut < quote.amountOut ? simulation.amountOut : quote.amountOut;
+        const spent = this.fromWei(quote.amountIn, quoteToken.decimals);
+        const received = this.fromWei(amountOut, quoteToken.decimals);
+        const size = this.fromWei(quote.baseOut, baseToken.decimals);
+        const grossPnl = received.minus(spent);
+        const fees = new Decimal((await this.currentFees(pair)).gasCostUsd).times(2);
+        const netPnl = grossPnl.minus(fees);
+        if (netPnl.lt(this.minProfitUsd)) {
+            logger.info(`Pair: ${pair}, pool arb netPnl: ${netPnl} below minimum SKIPPING`);
+            return null;
+        }
+
+        const buyPrice = spent.div(size);
+        const sellPrice = received.div(size);
+        const leg = (side: 'buy' | 'sell', price: Decimal, pool: string) => ({
+            venue: 'dex' as const,
+            pair,
+            side,
+            size: size.toNumber(),
+            price: price.toNumber(),
+            pool,
+        });
+
+        const signal = new Signal({
+            pair,
+            direction: Direction.DEX_ARB,
+            cexPrice: buyPrice,
+            dexPrice: sellPrice,
+            spreadBps: sellPrice.minus(buyPrice).div(buyPrice).times(10_000).toNumber(),
+            size,
+            expectedGrossPnl: grossPnl,
+            expectedFees: fees,
+            expectedNetPnl: netPnl,
+            score: 0,
+            expiry: Date.now() / 1000 + this.signalTtl,
+            inventoryOk: this.inventory.getAvailable(Venue.WALLET, quoteToken.name).gte(spent),
+            withinLimits: spent.lte(this.maxPositionUsd),
+            legs: [
+                leg('buy', buyPrice, quote.buyPool.address.checksum),
+                leg('sell', sellPrice, quote.sellPool.address.checksum),
+            ],
+        });
+
+        this.lastSignalTime.set(key, Date.now() / 1000);
+        return signal;
+    }
+
+    // Reference prices for feed checks: the CEX book mid as of the exchange's book
+    // timestamp and the pool spot price as of its last reserve refresh, which is
+    // attempted first. Either side is null when its source cannot be read.
+    public async fetchMidPrices(
+        pair: string,
+    ): Promise<{ cex: PriceTick | null; dex: PriceTick | null }> {
+        let cex: PriceTick | null = null;
+        let dex: PriceTick | null = null;
+        try {
+            const book = await this.exchange.fetchOrderBook(pair);
+            if (book.bids.length && book.asks.length) {
+                cex = { price: book.mid_price.toNumber(), timestamp: book.timestamp / 1000 };
+            }
+        } catch {
+            cex = null;
+        }
+        try {
+            const [baseToken, quoteToken] = this.resolveTokens(pair);
+            const stale = this.pricing.getPool(baseToken, quoteToken);
+            if (stale) await this.pricing.refreshPool(stale.address);
+            const pool = this.pricing.getPool(baseToken, quoteToken);
+            const refreshedAt = pool && this.pricing.poolRefreshedAt(pool.address);
+            if (pool && refreshedAt) {
+                const price = this.fromWei(pool.getSpotPrice(baseToken), 18).toNumber();
+                dex = { price, timestamp: refreshedAt };
+            }
+        } catch {
+            dex = null;
+        }
+        return { cex, dex };
+    }
+
+    // Depth behind a pair for scoring: the CEX book and the pool's base reserve.
+    // Either side is null when its source cannot be read.
+    public async fetchLiquidity(pair: string): Promise<LiquidityContext> {
+        let book: NormalizedOrderBook | null = null;
+        let poolReserveBase: number | null = null;
+        try {
+            book = await this.exchange.fetchOrderBook(pair);
+        } catch {
+            book = null;
+        }
+        try {
+            const [baseToken, quoteToken] = this.resolveTokens(pair);
+            const pool = this.pricing.getPool(baseToken, quoteToken);
+            if (pool) {
+                const reserve = pool.token0.equals(baseToken) ? pool.reserve0 : pool.reserve1;
+                poolReserveBase = this.fromWei(reserve, baseToken.decimals).toNumber();
+            }
+        } catch {
+            poolReserveBase = null;
+        }
+        return { book, poolReserveBase };
+    }
+
+    private cycleSignal(quote: CycleQuote, sourceTimestamp: number): Signal {
+        const grossReturn = quote.amountOut / quote.amountIn;
+        return new Signal({
+            pair: quote.cycle.label,
+            direction: Direction.CYCLE,
+            cexPrice: 1,
+            dexPrice: grossReturn,
+            spreadBps: (grossReturn - 1) * 10_000,
+            size: quote.amountIn,
+            expectedGrossPnl: quote.amountOut - quote.amountIn,
+            expectedFees: quote.fees,
+            expectedNetPnl: quote.netPnl,
+            score: 0,
+            expiry: Date.now() / 1000 + this.signalTtl,
+            inventoryOk: this.checkCycleInventory(quote),
+            withinLimits: true,
+            sourceTimestamp,
+            legs: quote.legs,
+        });
+    }
+
+    // Like pair trades, cycles draw on inventory already sitting on each venue
+    // rather than moving funds between legs, so every leg's spend is checked.
+    private checkCycleInventory(quote: CycleQuote): boolean {
+        return quote.legs.every((leg) => {
+            const [base, quoteAsset] = leg.pair.split('/');
+            const venue = leg.venue === 'cex' ? Venue.BINANCE : Venue.WALLET;
+            const need =
+                leg.side === 'sell'
+                    ? new Decimal(leg.size)
+                    : new Decimal(leg.size).times(leg.price).times(1.01);
+            return this.inventory
+                .getAvailable(venue, leg.side === 'sell' ? base : quoteAsset)
+                .greaterThanOrEqualTo(need);
+        });
+    }
+
     private inCooldown(pair: string): boolean {
         const last = this.lastSignalTime.get(pair) ?? 0;
         return Date.now() / 1000 - last < this.cooldown;
     }
 
+    private async currentFees(pair: string): Promise<FeeStructure> {
+        if (!this.feeProvider) return this.fees;
+        try {
+            const [baseToken, quoteToken] = this.resolveTokens(pair);
+            return await this.feeProvider.feesFor(pair, baseToken, quoteToken);
+        } catch {
+            return this.fees;
+        }
+    }
+
+    private async optimalSize(pair: string, fees: FeeStructure): Promise<number | null> {
+        try {
+            const sizer = new SizeSolver(fees);
+            const book = await this.exchange.fetchOrderBook(pair);
+            if (!book.bids.length || !book.asks.length) return null;
+
+            const [baseToken, quoteToken] = this.resolveTokens(pair);
+            const pool = this.pricing.getPool(baseToken, quoteToken);
+            if (!pool) return null;
+
+            let best: SizeSolution | null = null;
+            for (const direction of [Direction.BUY_CEX_SELL_DEX, Direction.BUY_DEX_SELL_CEX]) {
+                const price = direction === Direction.BUY_CEX_SELL_DEX ? book.asks : book.bids;
+                const cap = this.maxSize(pair, direction, new Decimal(price[0][0]));
+                const solution = sizer.solve(direction, book, pool, baseToken, cap);
+                if (solution && (!best || solution.netPnl > best.netPnl)) best = solution;
+            }
+
+            if (!best || best.netPnl <= 0) {
+                logger.info(`Pair: ${pair}, no profitable size SKIPPING`);
+                return null;
+            }
+            return best.size;
+        } catch {
+            return null;
+        }
+    }
+
+    // Largest base size the inventory on both venues and the risk limits allow.
+    private maxSize(pair: string, direction: Direction, price: Decimal): number {
+        const [base, quote] = pair.split('/');
+        const buffered = price.times(1.01);
+        const caps = this.usdCaps().map((cap) => cap.div(price));
+
+        if (direction === Direction.BUY_CEX_SELL_DEX) {
+            caps.push(this.inventory.getAvailable(Venue.BINANCE, quote).div(buffered));
+            caps.push(this.inventory.getAvailable(Venue.WALLET, base));
+        } else {
+            caps.push(this.inventory.getAvailable(Venue.BINANCE, base));
+            caps.push(this.inventory.getAvailable(Venue.WALLET, quote).div(buffered));
+        }
+
+        // Rounded down so the float size never exceeds what checkInventory accepts.
+        const cap = Decimal.min(...caps).toDecimalPlaces(8, Decimal.ROUND_DOWN);
+        return Math.max(0, cap.toNumber());
+    }
+
+    private usdCaps(): Decimal[] {
+        const caps = [this.maxPositionUsd];
+        if (this.riskManager) {
+            const { maxTradeUsd, maxTradePct } = this.riskManager.limits;
+            caps.push(new Decimal(maxTradeUsd));
+            caps.push(new Decimal(this.riskManager.currentCapital * maxTradePct));
+        }
+        return caps;
+    }
+
+    // Every token in the map with its decimals, for DEX venues that have to resolve
+    // the same pairs the generator quotes.
+    public tokens(): Record<string, Token> {
+        const tokens: Record<string, Token> = {};
+        for (const symbol of Object.keys(this.tokenMap)) tokens[symbol] = this.resolveToken(symbol);
+        return tokens;
+    }
+
+    private resolveTokens(pair: string): [Token, Token] {
+        const [baseSymbol, quoteSymbol] = pair.split('/');
+        return [this.resolveToken(baseSymbol), this.resolveToken(quoteSymbol)];
+    }
+
+    private resolveToken(symbol: string): Token {
+        return new Token(symbol, DECIMALS[symbol] ?? 18, new Address(this.tokenMap[symbol]));
+    }
+
     private async fetchPrices(
         pair: string,
         size: number,
-    ): Promise<{ cexBid: Decimal; cexAsk: Decimal; dexBuy: Decimal; dexSell: Decimal } | null> {
+    ): Promise<{
+        cexBid: Decimal;
+        cexAsk: Decimal;
+        dexBuy: Decimal;
+        dexSell: Decimal;
+        timestamp: number;
+    } | null> {
         try {
             const ob = await this.exchange.fetchOrderBook(pair);
             const cexBid = new Decimal(ob.bids[0][0]);
             const cexAsk = new Decimal(ob.asks[0][0]);
 
-            const [baseSymbol, quoteSymbol] = pair.split('/');
-            const baseTokenAddress = new Address(this.tokenMap[baseSymbol]);
-            const quoteTokenAddress = new Address(this.tokenMap[quoteSymbol]);
-            const baseDecimals = DECIMALS[baseSymbol] ?? 18;
-            const quoteDecimals = DECIMALS[quoteSymbol] ?? 18;
+            const [baseToken, quoteToken] = this.resolveTokens(pair);
+            const baseDecimals = baseToken.decimals;
+            const quoteDecimals = quoteToken.decimals;
 
             const amountInWei = this.toWei(size, baseDecimals);
             const gasPriceGwei = await this.pricing.fetchGasPriceGwei();
 
             const sellQuote = await this.pricing.getQuote(
-                new Token(baseSymbol, baseDecimals, baseTokenAddress),
-                new Token(quoteSymbol, quoteDecimals, quoteTokenAddress),
+                baseToken,
+                quoteToken,
                 amountInWei,
                 gasPriceGwei,
             );
@@ -155,8 +477,8 @@ export class SignalGenerator {
             const amountInQuoteWei = this.toWei(quoteToSpend, quoteDecimals);
 
             const buyBase = await this.pricing.getQuote(
-                new Token(quoteSymbol, quoteDecimals, quoteTokenAddress),
-                new Token(baseSymbol, baseDecimals, baseTokenAddress),
+                quoteToken,
+                baseToken,
                 amountInQuoteWei,
                 gasPriceGwei,
             );
@@ -165,7 +487,13 @@ export class SignalGenerator {
             const buyOutBaseHuman = this.fromWei(buyBase.simulatedOutput, baseDecimals);
             const dexBuyPrice = quoteToSpend.div(buyOutBaseHuman);
 
-            return { cexBid, cexAsk, dexBuy: dexBuyPrice, dexSell: dexSellPrice };
+            return {
+                cexBid,
+                cexAsk,
+                dexBuy: dexBuyPrice,
+                dexSell: dexSellPrice,
+                timestamp: ob.timestamp,
+            };
         } catch {
             return null;
         }
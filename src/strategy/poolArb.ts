@@ -0,0 +1,76 @@
+import { Token } from '../pricing/Token';
+import { UniswapV2Pair } from '../pricing/UniswapV2Pair';
+
+export type PoolArbQuote = {
+    buyPool: UniswapV2Pair;
+    sellPool: UniswapV2Pair;
+    baseToken: Token;
+    quoteToken: Token;
+    amountIn: bigint;
+    baseOut: bigint;
+    amountOut: bigint;
+};
+
+// Sizes a round trip quote -> base in one V2 pool and base -> quote in another.
+// Two chained V2 swaps behave like a single V2 pool with virtual reserves
+//   E0 = Qa*Bb / (Bb + g2*Ba),  E1 = g2*Ba*Qb / (Bb + g2*Ba)
+// so out(x) = g1*x*E1 / (E0 + g1*x), and out'(x) = 1 at
+//   x = (sqrt(g1*E0*E1) - E0) / g1.
+// Gas is a fixed cost per round trip and does not move the optimum.
+export class PoolArbSolver {
+    // Tries both orderings of every pool pair and returns the most profitable round trip.
+    public best(
+        pools: UniswapV2Pair[],
+        quoteToken: Token,
+        maxIn: bigint | null = null,
+    ): PoolArbQuote | null {
+        let best: PoolArbQuote | null = null;
+        for (const buyPool of pools) {
+            for (const sellPool of pools) {
+                if (buyPool === sellPool) continue;
+                const quote = this.solve(buyPool, sellPool, quoteToken, maxIn);
+                if (quote && (!best || this.profit(quote) > this.profit(best))) best = quote;
+            }
+        }
+        return best;
+    }
+
+    public solve(
+        buyPool: UniswapV2Pair,
+        sellPool: UniswapV2Pair,
+        quoteToken: Token,
+        maxIn: bigint | null = null,
+    ): PoolArbQuote | null {
+        const baseToken = buyPool.token0.equals(quoteToken) ? buyPool.token1 : buyPool.token0;
+        if (!sellPool.token0.equals(baseToken) && !sellPool.token1.equals(baseToken)) return null;
+
+        const quoteA = Number(buyPool.getReserve(quoteToken.address));
+        const baseA = Number(buyPool.getReserve(baseToken.address));
+        const baseB = Number(sellPool.getReserve(baseToken.address));
+        const quoteB = Number(sellPool.getReserve(quoteToken.address));
+        const gammaA = 1 - Number(buyPool.feeBps) / 10_000;
+        const gammaB = 1 - Number(sellPool.feeBps) / 10_000;
+
+        const e0 = (quoteA * baseB) / (baseB + gammaB * baseA);
+        const e1 = (gammaB * baseA * quoteB) / (baseB + gammaB * baseA);
+        const optimum = (Math.sqrt(gammaA * e0 * e1) - e0) / gammaA;
+        if (!(optimum >= 1)) return null;
+
+        let amountIn = BigInt(Math.floor(optimum));
+        if (maxIn !== null && amountIn > maxIn) amountIn = maxIn;
+        if (amountIn <= 0n) return null;
+
+        try {
+            const baseOut = buyPool.getAmountOut(amountIn, quoteToken);
+            const amountOut = sellPool.getAmountOut(baseOut, baseToken);
+            if (amountOut <= amountIn) return null;
+            return { buyPool, sellPool, baseToken, quoteToken, amountIn, baseOut, amountOut };
+        } catch {
+            return null;
+        }
+    }
+
+    private profit(quote: PoolArbQuote): bigint {
+        return quote.amountOut - quote.amountIn;
+    }
+}
@@ -2,10 +2,48 @@ import { Signal } from './signal';
 
 type ValidationResult = [boolean, string];
 
+export type PriceSource = 'cex' | 'dex';
+
+// A price as of the moment its source produced it, in unix seconds.
+export type PriceTick = {
+    price: number;
+    timestamp: number;
+};
+
+export type PreTradeValidatorConfig = {
+    windowSeconds?: number;
+    minSamples?: number;
+    maxDeviationPct?: number;
+    emaHalfLifeSeconds?: number;
+    staleAfterSeconds?: number;
+    maxDivergenceBps?: number;
+};
+
+const DEFAULT_PRE_TRADE_VALIDATOR_CONFIG: Required<PreTradeValidatorConfig> = {
+    windowSeconds: 300,
+    minSamples: 3,
+    maxDeviationPct: 0.05,
+    emaHalfLifeSeconds: 30,
+    staleAfterSeconds: 30,
+    maxDivergenceBps: 300,
+};
+
+type PriceSample = {
+    price: number;
+    timestamp: number;
+};
+
+type PriceSeries = {
+    samples: PriceSample[];
+    ema: number;
+};
+
 export class PreTradeValidator {
-    private priceHistory: Map<string, number[]>;
+    private readonly config: Required<PreTradeValidatorConfig>;
+    private priceHistory: Map<string, Map<PriceSource, PriceSeries>>;
 
-    constructor() {
+    constructor(config: PreTradeValidatorConfig = {}) {
+        this.config = { ...DEFAULT_PRE_TRADE_VALIDATOR_CONFIG, ...config };
         this.priceHistory = new Map();
     }
 
@@ -38,27 +76,133 @@ export class PreTradeValidator {
         return [true, 'OK'];
     }
 
-    public validatePriceFeed(price: number, pair: string): ValidationResult {
-        const recentAvg = this.getRecentAverage(pair);
+    // Samples older than the window are dropped; the EMA decays by elapsed time
+    // so irregular ticks weigh the same as a steady feed.
+    public recordPrice(
+        pair: string,
+        source: PriceSource,
+        price: number,
+        timestamp: number = Date.now() / 1000,
+    ): void {
+        if (!(price > 0)) return;
+
+        const series = this.series(pair, source);
+        const last = series.samples[series.samples.length - 1];
+        if (last) {
+            const elapsed = Math.max(0, timestamp - last.timestamp);
+            const weight = 1 - Math.pow(0.5, elapsed / this.config.emaHalfLifeSeconds);
+            series.ema += weight * (price - series.ema);
+        } else {
+            series.ema = price;
+        }
+
+        series.samples.push({ price, timestamp });
+        const cutoff = timestamp - this.config.windowSeconds;
+        while (series.samples.length > 0 && series.samples[0].timestamp < cutoff) {
+            series.samples.shift();
+        }
+    }
+
+    // Compares a new price with the median of the window, which a single bad
+    // tick cannot drag the way it drags an average.
+    public validatePriceFeed(
+        price: number,
+        pair: string,
+        source: PriceSource = 'cex',
+    ): ValidationResult {
+        const median = this.getRecentMedian(pair, source);
+
+        if (median > 0) {
+            const deviation = Math.abs(price - median) / median;
+            if (deviation > this.config.maxDeviationPct) {
+                return [
+                    false,
+                    `Price ${price} deviates ${(deviation * 100).toFixed(1)}% from recent median`,
+                ];
+            }
+        }
+
+        return [true, 'OK'];
+    }
+
+    // Checks each tick against its recent median, then records it at its source
+    // time and validates both feeds, so a book or pool that stopped updating reads
+    // as stale however often it is polled. Outliers are recorded too, so a genuine
+    // move shifts the median instead of locking the pair out for the whole window.
+    public checkFeeds(
+        pair: string,
+        ticks: Partial<Record<PriceSource, PriceTick | null>>,
+        now: number = Date.now() / 1000,
+    ): ValidationResult {
+        let result: ValidationResult = [true, 'OK'];
+        for (const source of ['cex', 'dex'] as PriceSource[]) {
+            const tick = ticks[source];
+            if (!tick) continue;
+            const check = this.validatePriceFeed(tick.price, pair, source);
+            if (!check[0] && result[0]) result = check;
+            this.recordPrice(pair, source, tick.price, tick.timestamp);
+        }
+        return result[0] ? this.validateFeeds(pair, now) : result;
+    }
 
-        if (recentAvg > 0) {
-            const deviation = Math.abs(price - recentAvg) / recentAvg;
-            if (deviation > 0.05) {
+    // Both feeds must have ticked recently and their EMAs must agree; a wide
+    // CEX/DEX gap that persists is more likely a broken feed than an opportunity.
+    public validateFeeds(pair: string, now: number = Date.now() / 1000): ValidationResult {
+        const emas: number[] = [];
+        for (const source of ['cex', 'dex'] as PriceSource[]) {
+            const samples = this.series(pair, source).samples;
+            const last = samples[samples.length - 1];
+            if (!last) return [false, `No ${source.toUpperCase()} prices for ${pair}`];
+
+            const age = now - last.timestamp;
+            if (age > this.config.staleAfterSeconds) {
                 return [
                     false,
-                    `Price ${price} deviates ${(deviation * 100).toFixed(1)}% from recent avg`,
+                    `Stale ${source.toUpperCase()} feed for ${pair}: ${age.toFixed(1)}s`,
                 ];
             }
+            emas.push(this.getEma(pair, source));
+        }
+
+        const [cex, dex] = emas;
+        const divergenceBps = (Math.abs(cex - dex) / Math.min(cex, dex)) * 10_000;
+        if (divergenceBps > this.config.maxDivergenceBps) {
+            return [
+                false,
+                `CEX/DEX diverge ${divergenceBps.toFixed(0)}bps on ${pair} (max ${this.config.maxDivergenceBps})`,
+            ];
         }
 
         return [true, 'OK'];
     }
 
-    private getRecentAverage(pair: string): number {
-        const history = this.priceHistory.get(pair.toUpperCase());
-        if (!history || history.length === 0) return 0;
+    public getEma(pair: string, source: PriceSource): number {
+        const series = this.priceHistory.get(pair.toUpperCase())?.get(source);
+        return series && series.samples.length > 0 ? series.ema : 0;
+    }
+
+    private getRecentMedian(pair: string, source: PriceSource): number {
+        const history = this.priceHistory.get(pair.toUpperCase())?.get(source)?.samples;
+        if (!history || history.length < this.config.minSamples) return 0;
+
+        const sorted = history.map((sample) => sample.price).sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    }
+
+    private series(pair: string, source: PriceSource): PriceSeries {
+        const key = pair.toUpperCase();
+        let bySource = this.priceHistory.get(key);
+        if (!bySource) {
+            bySource = new Map();
+            this.priceHistory.set(key, bySource);
+        }
 
-        const sum = history.reduce((acc, value) => acc + value, 0);
-        return sum / history.length;
+        let series = bySource.get(source);
+        if (!series) {
+            series = { samples: [], ema: 0 };
+            bySource.set(source, series);
+        }
+        return series;
     }
 }
@@ -1,4 +1,13 @@
-import { Signal } from './signal';
+import fs from 'fs';
+import Decimal from 'decimal.js';
+import { Direction, Signal } from './signal';
+import { Config } from '../config';
+import { NormalizedOrderBook } from '../exchange/ExchangeClient';
+import { OrderBookAnalyzer } from '../exchange/OrderBookAnalyzer';
+import { writeJsonAtomic } from '../executor/recovery';
+import { InventoryTracker } from '../inventory/tracker';
+import { Token } from '../pricing/Token';
+import { UniswapV2Pair } from '../pricing/UniswapV2Pair';
 
 export class RiskLimits {
     // Per-trade limits
@@ -25,28 +34,115 @@ export class RiskLimits {
 
 type PreTradeResult = [boolean, string];
 
+export type RiskManagerConfig = {
+    statePath?: string | null;
+    // IANA zone whose midnight starts a new trading day, e.g. 'Europe/London'.
+    timeZone?: string;
+    unwindFeeBps?: number;
+    // Unwind cost assumed when no book or pool is available to walk.
+    fallbackUnwindCostBps?: number;
+    // Gas for swapping a DEX first leg back through the pool.
+    unwindGasCostUsd?: number;
+};
+
+const DEFAULT_RISK_MANAGER_CONFIG: Required<RiskManagerConfig> = {
+    statePath: null,
+    timeZone: 'UTC',
+    unwindFeeBps: 10,
+    fallbackUnwindCostBps: 50,
+    unwindGasCostUsd: Config.GAS_COST_USD,
+};
+
+// Optional market state for checkPreTrade. Exposure is in token units, as
+// returned by netExposure; the book is the signal pair's CEX book. leg1Venue
+// says where the executor fills first, and so where a failed trade unwinds:
+// a DEX first leg goes back through `pool`, whose base side is `baseToken`.
+export type PreTradeContext = {
+    exposure?: Record<string, number>;
+    book?: NormalizedOrderBook | null;
+    leg1Venue?: 'cex' | 'dex';
+    pool?: UniswapV2Pair | null;
+    baseToken?: Token | null;
+};
+
+export type Rollover = {
+    daily: boolean;
+    hourly: boolean;
+};
+
+type RiskState = {
+    day: string;
+    hour: string;
+    dailyPnl: number;
+    peakCapital: number;
+    currentCapital: number;
+    consecutiveLosses: number;
+    tradeTimestamps: number[];
+};
+
+const HOUR_SECONDS = 3600;
+
 export class RiskManager {
     public limits: RiskLimits;
     public initialCapital: number;
     public peakCapital: number;
     public currentCapital: number;
     public dailyPnl: number;
-    public tradesThisHour: number;
     public consecutiveLosses: number;
+    private readonly config: Required<RiskManagerConfig>;
+    private readonly calendar: Intl.DateTimeFormat;
+    private tradeTimestamps: number[];
+    private inventoryTargets: Record<string, number> = {};
+    private day: string;
+    private hour: string;
 
-    constructor(limits: RiskLimits, initialCapital: number) {
+    constructor(limits: RiskLimits, initialCapital: number, config: RiskManagerConfig = {}) {
         this.limits = limits;
         this.initialCapital = initialCapital;
+        this.config = { ...DEFAULT_RISK_MANAGER_CONFIG, ...config };
+        // Throws a RangeError for an unknown zone, so a typo fails at startup.
+        this.calendar = new Intl.DateTimeFormat('en-CA', {
+            timeZone: this.config.timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            hourCycle: 'h23',
+        });
+
+        const now = Date.now() / 1000;
         this.peakCapital = initialCapital;
         this.currentCapital = initialCapital;
         this.dailyPnl = 0;
-        this.tradesThisHour = 0;
         this.consecutiveLosses = 0;
+        this.tradeTimestamps = [];
+        [this.day, this.hour] = this.periodKeys(now);
+
+        this.load();
+        this.rollover(now);
     }
 
-    public checkPreTrade(signal: Signal): PreTradeResult {
+    // Trades in the trailing hour, not since the last clock-hour boundary.
+    get tradesThisHour(): number {
+        this.pruneTrades(Date.now() / 1000);
+        return this.tradeTimestamps.length;
+    }
+
+    public checkPreTrade(
+        signal: Signal,
+        openPositions: number = 0,
+        context: PreTradeContext = {},
+    ): PreTradeResult {
+        this.rollover();
         const tradeValue = signal.size.mul(signal.cexPrice).toNumber();
 
+        if (openPositions >= this.limits.maxOpenPositions) {
+            return [
+                false,
+                `Open positions ${openPositions} at max ${this.limits.maxOpenPositions}`,
+            ];
+        }
+
         if (tradeValue > this.limits.maxTradeUsd) {
             return [false, `Trade ${tradeValue.toFixed(2)} exceeds max ${this.limits.maxTradeUsd}`];
         }
@@ -58,6 +154,38 @@ export class RiskManager {
             ];
         }
 
+        // Per-token position: the signed exposure moved by this trade's first leg, in
+        // case its hedge never fills. A trade that shrinks the position is allowed
+        // even above the cap. The quote side is treated as cash.
+        if (context.exposure && signal.direction !== Direction.CYCLE) {
+            const base = signal.pair.split('/')[0];
+            const price = signal.cexPrice.toNumber();
+            const leg1Buys =
+                (signal.direction === Direction.BUY_CEX_SELL_DEX) ===
+                ((context.leg1Venue ?? 'cex') === 'cex');
+            const before = context.exposure[base] ?? 0;
+            const after = before + (leg1Buys ? 1 : -1) * signal.size.toNumber();
+            const position = Math.abs(after) * price;
+            if (position > this.limits.maxPositionPerToken && Math.abs(after) > Math.abs(before)) {
+                return [
+                    false,
+                    `${base} position ${position.toFixed(2)} would exceed max ${this.limits.maxPositionPerToken}`,
+                ];
+            }
+        }
+
+        const worstLoss = this.worstCaseLoss(signal, context);
+        if (!Number.isFinite(worstLoss)) {
+            const venue = context.leg1Venue === 'dex' ? 'Pool' : 'Book';
+            return [false, `${venue} too thin to unwind ${signal.size.toString()} ${signal.pair}`];
+        }
+        if (worstLoss > this.limits.maxLossPerTrade) {
+            return [
+                false,
+                `Worst-case loss ${worstLoss.toFixed(2)} exceeds max ${this.limits.maxLossPerTrade}`,
+            ];
+        }
+
         // Daily loss limit
         if (this.dailyPnl <= -this.limits.maxDailyLoss) {
             return [false, `Daily loss limit reached: ${this.dailyPnl.toFixed(2)}`];
@@ -83,26 +211,181 @@ export class RiskManager {
         return [true, 'OK'];
     }
 
-    public recordTrade(pnl: number): void {
+    // Records the holdings the bot means to keep; exposure is measured as drift
+    // from them. Assets without a target count as on target.
+    public setInventoryTargets(inventory: InventoryTracker): void {
+        this.inventoryTargets = {};
+        for (const [asset, total] of Object.entries(inventory.snapshot().totals)) {
+            this.inventoryTargets[asset] = total.toNumber();
+        }
+    }
+
+    // Signed token units: how far holdings have drifted from target plus the
+    // unhedged first legs of open executions (long positive, short negative),
+    // which inventory does not see until the trade settles.
+    public netExposure(
+        inventory: InventoryTracker,
+        unhedged: Record<string, number> = {},
+    ): Record<string, number> {
+        const exposure: Record<string, number> = {};
+        for (const [asset, total] of Object.entries(inventory.snapshot().totals)) {
+            const target = this.inventoryTargets[asset];
+            exposure[asset] = target === undefined ? 0 : total.toNumber() - target;
+        }
+        for (const [asset, amount] of Object.entries(unhedged)) {
+            exposure[asset] = (exposure[asset] ?? 0) + amount;
+        }
+        return exposure;
+    }
+
+    // Loss if the second leg never fills and the first is unwound on its own venue,
+    // plus the signal's own fees, which are spent either way. A CEX first leg
+    // crosses back through the book and pays the unwind taker fee; a DEX first leg
+    // swaps back through the pool it just moved, paying a second LP fee, the price
+    // impact both ways and the unwind gas. Infinite when the book or pool cannot
+    // absorb the size.
+    public worstCaseLoss(signal: Signal, context: PreTradeContext = {}): number {
+        const size = signal.size.toNumber();
+        const entry = signal.cexPrice.toNumber();
+        const notional = size * entry;
+        const fallback = (notional * this.config.fallbackUnwindCostBps) / 10_000;
+
+        const pairTrade =
+            signal.direction === Direction.BUY_CEX_SELL_DEX ||
+            signal.direction === Direction.BUY_DEX_SELL_CEX;
+        if (pairTrade && context.leg1Venue === 'dex') {
+            const fees = signal.expectedFees.toNumber() + this.config.unwindGasCostUsd;
+            const { pool, baseToken } = context;
+            if (!pool || !baseToken) return fees + fallback;
+            return this.poolRoundTripLoss(signal, pool, baseToken) + fees;
+        }
+
+        const fees =
+            signal.expectedFees.toNumber() + (notional * this.config.unwindFeeBps) / 10_000;
+        const book = context.book;
+        if (!book || !book.bids.length || !book.asks.length || !pairTrade) {
+            return fees + fallback;
+        }
+
+        const boughtFirst = signal.direction === Direction.BUY_CEX_SELL_DEX;
+        const exit = new OrderBookAnalyzer(book).walkTheBook(boughtFirst ? 'sell' : 'buy', size);
+        if (!exit.fully_filled) return Number.POSITIVE_INFINITY;
+
+        const exitPrice = exit.avg_price.toNumber();
+        const crossing = boughtFirst ? entry - exitPrice : exitPrice - entry;
+        return Math.max(0, crossing) * size + fees;
+    }
+
+    public recordTrade(pnl: number, timestamp: number = Date.now() / 1000): void {
+        this.rollover(timestamp);
         this.dailyPnl += pnl;
         this.currentCapital += pnl;
         this.peakCapital = Math.max(this.peakCapital, this.currentCapital);
-        this.tradesThisHour += 1;
+        this.tradeTimestamps.push(timestamp);
 
         if (pnl < 0) {
             this.consecutiveLosses += 1;
         } else {
             this.consecutiveLosses = 0;
         }
+        this.persist();
+    }
+
+    // Starts a new day or hour when the clock in the configured zone has moved
+    // past the last one seen. Also runs on load, so a bot restarted the next
+    // morning does not carry yesterday's loss limit.
+    public rollover(now: number = Date.now() / 1000): Rollover {
+        const [day, hour] = this.periodKeys(now);
+        const result = { daily: day !== this.day, hourly: hour !== this.hour };
+        if (!result.daily && !result.hourly) return result;
+
+        if (result.daily) {
+            this.dailyPnl = 0;
+            this.consecutiveLosses = 0;
+        }
+        this.pruneTrades(now);
+        this.day = day;
+        this.hour = hour;
+        this.persist();
+        return result;
     }
 
     public resetDaily(): void {
         this.dailyPnl = 0;
-        this.tradesThisHour = 0;
+        this.tradeTimestamps = [];
         this.consecutiveLosses = 0;
+        this.persist();
     }
 
     public resetHourly(): void {
-        this.tradesThisHour = 0;
+        this.tradeTimestamps = [];
+        this.persist();
+    }
+
+    // Quote lost buying (or selling) the signal size on the pool and swapping it
+    // straight back through the reserves the first swap left behind.
+    private poolRoundTripLoss(signal: Signal, pool: UniswapV2Pair, base: Token): number {
+        const quote = pool.token0.equals(base) ? pool.token1 : pool.token0;
+        const size = BigInt(signal.size.mul(new Decimal(10).pow(base.decimals)).toFixed(0));
+        try {
+            let spent: bigint;
+            let received: bigint;
+            if (signal.direction === Direction.BUY_DEX_SELL_CEX) {
+                spent = pool.getAmountIn(size, base);
+                received = pool.simulateSwap(spent, quote).getAmountOut(size, base);
+            } else {
+                received = pool.getAmountOut(size, base);
+                spent = pool.simulateSwap(size, base).getAmountIn(size, base);
+            }
+            return new Decimal((spent - received).toString())
+                .div(new Decimal(10).pow(quote.decimals))
+                .toNumber();
+        } catch {
+            return Number.POSITIVE_INFINITY;
+        }
+    }
+
+    private pruneTrades(now: number): void {
+        const cutoff = now - HOUR_SECONDS;
+        this.tradeTimestamps = this.tradeTimestamps.filter((at) => at > cutoff);
+    }
+
+    // e.g. ['2024-03-31', '2024-03-31T02'] in the configured zone.
+    private periodKeys(timestamp: number): [string, string] {
+        const parts: Record<string, string> = {};
+        for (const part of this.calendar.formatToParts(new Date(timestamp * 1000))) {
+            parts[part.type] = part.value;
+        }
+        const day = `${parts.year}-${parts.month}-${parts.day}`;
+        return [day, `${day}T${parts.hour}`];
+    }
+
+    private load(): void {
+        const statePath = this.config.statePath;
+        if (!statePath || !fs.existsSync(statePath)) return;
+
+        const state = JSON.parse(fs.readFileSync(statePath, 'utf8')) as RiskState;
+        this.day = state.day;
+        this.hour = state.hour;
+        this.dailyPnl = state.dailyPnl;
+        this.peakCapital = state.peakCapital;
+        this.currentCapital = state.currentCapital;
+        this.consecutiveLosses = state.consecutiveLosses;
+        this.tradeTimestamps = state.tradeTimestamps ?? [];
+    }
+
+    private persist(): void {
+        if (!this.config.statePath) return;
+
+        const state: RiskState = {
+            day: this.day,
+            hour: this.hour,
+            dailyPnl: this.dailyPnl,
+            peakCapital: this.peakCapital,
+            currentCapital: this.currentCapital,
+            consecutiveLosses: this.consecutiveLosses,
+            tradeTimestamps: this.tradeTimestamps,
+        };
+        writeJsonAtomic(this.config.statePath, state);
     }
 }
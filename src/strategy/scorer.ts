@@ -1,4 +1,8 @@
-import { Signal } from './signal';
+import Decimal from 'decimal.js';
+import { Direction, Signal } from './signal';
+import { NormalizedOrderBook } from '../exchange/ExchangeClient';
+import { OrderBookAnalyzer } from '../exchange/OrderBookAnalyzer';
+import { Venue } from '../inventory/tracker';
 
 export type HistoryRecord = { pair: string; success: boolean };
 
@@ -9,11 +13,53 @@ export interface ScorerConfig {
     historyWeight?: number;
     excellentSpreadBps?: number;
     minSpreadBps?: number;
+    depthBandBps?: number;
+    targetDepthMultiple?: number;
+    maxEffectiveSpreadBps?: number;
+    maxPoolShare?: number;
+    fullInventoryShiftPct?: number;
+    sizeBucketsUsd?: number[];
+    calibrationWindow?: number;
+    minCalibrationSamples?: number;
+    calibrationHaircut?: boolean;
+    maxHaircut?: number;
 }
 
 export type InventorySkew = {
     token: string;
     status?: string; // e.g., 'RED' | 'YELLOW' | 'GREEN'
+    amounts?: Partial<Record<Venue, Decimal>>;
+};
+
+// What a finished execution delivered against what its signal promised.
+// Slippage is adverse bps versus the signal prices, latency is in seconds.
+export type ExecutionOutcome = {
+    pair: string;
+    direction: Direction;
+    notionalUsd: number;
+    expectedNetPnl: number;
+    realizedNetPnl: number;
+    slippageBps: number;
+    latencySeconds: number;
+    success: boolean;
+};
+
+export type CalibrationStats = {
+    bucket: string;
+    samples: number;
+    successRate: number;
+    meanExpectedPnl: number;
+    meanRealizedPnl: number;
+    realizationRatio: number;
+    meanSlippageBps: number;
+    meanLatencySeconds: number;
+    haircut: number;
+};
+
+// Market depth behind a signal: the CEX book and the pool's reserve of the base.
+export type LiquidityContext = {
+    book?: NormalizedOrderBook | null;
+    poolReserveBase?: number | null;
 };
 
 const DEFAULT_CONFIG: Required<ScorerConfig> = {
@@ -23,21 +69,37 @@ const DEFAULT_CONFIG: Required<ScorerConfig> = {
     historyWeight: 0.2,
     excellentSpreadBps: 100,
     minSpreadBps: 30,
+    depthBandBps: 10,
+    targetDepthMultiple: 5,
+    maxEffectiveSpreadBps: 50,
+    maxPoolShare: 0.05,
+    fullInventoryShiftPct: 10,
+    sizeBucketsUsd: [1_000, 5_000],
+    calibrationWindow: 50,
+    minCalibrationSamples: 5,
+    calibrationHaircut: true,
+    maxHaircut: 0.5,
 };
 
 export class SignalScorer {
     private config: Required<ScorerConfig>;
     private recentResults: HistoryRecord[];
+    private outcomes: Map<string, ExecutionOutcome[]>;
 
     constructor(config: ScorerConfig = {}) {
         this.config = { ...DEFAULT_CONFIG, ...config };
         this.recentResults = [];
+        this.outcomes = new Map();
     }
 
-    public score(signal: Signal, inventoryState: InventorySkew[]): number {
+    public score(
+        signal: Signal,
+        inventoryState: InventorySkew[],
+        liquidity: LiquidityContext = {},
+    ): number {
         const scores = {
             spread: this.scoreSpread(signal.spreadBps),
-            liquidity: 80,
+            liquidity: this.scoreLiquidity(signal, liquidity),
             inventory: this.scoreInventory(signal, inventoryState),
             history: this.scoreHistory(signal.pair),
         };
@@ -48,7 +110,8 @@ export class SignalScorer {
             scores.inventory * this.config.inventoryWeight +
             scores.history * this.config.historyWeight;
 
-        return Math.round(Math.max(0, Math.min(100, weighted)) * 10) / 10;
+        const adjusted = weighted * this.haircut(signal);
+        return Math.round(Math.max(0, Math.min(100, adjusted)) * 10) / 10;
     }
 
     private scoreSpread(spreadBps: number): number {
@@ -59,7 +122,44 @@ export class SignalScorer {
         return ((spreadBps - this.config.minSpreadBps) / range) * 100;
     }
 
+    // Each available measure scores 0..1: CEX depth within the band against a
+    // multiple of the size, the round-trip effective spread for the size, and the
+    // share of the pool's base reserve the trade takes. Without any market data
+    // the component falls back to a flat 80.
+    private scoreLiquidity(signal: Signal, liquidity: LiquidityContext): number {
+        const size = signal.size.toNumber();
+        const parts: number[] = [];
+
+        const book = liquidity.book;
+        if (book && book.bids.length && book.asks.length && this.isPairTrade(signal)) {
+            const analyzer = new OrderBookAnalyzer(book);
+            const side = signal.direction === Direction.BUY_CEX_SELL_DEX ? 'ask' : 'bid';
+            const depth = analyzer.depthAtBps(side, this.config.depthBandBps).toNumber();
+            parts.push(Math.min(1, depth / (size * this.config.targetDepthMultiple)));
+
+            const effectiveBps = analyzer.effectiveSpread(size).toNumber();
+            parts.push(1 - Math.min(1, effectiveBps / this.config.maxEffectiveSpreadBps));
+        }
+
+        if (liquidity.poolReserveBase && liquidity.poolReserveBase > 0) {
+            const share = size / liquidity.poolReserveBase;
+            parts.push(1 - Math.min(1, share / this.config.maxPoolShare));
+        }
+
+        if (parts.length === 0) return 80;
+        return (parts.reduce((sum, part) => sum + part, 0) / parts.length) * 100;
+    }
+
+    // 50 is neutral; moving the pair's assets toward an even split across venues
+    // scores up to 100 and moving them away down to 0. Skews without venue
+    // amounts only carry a status, so only RED is penalised.
     private scoreInventory(signal: Signal, skews: InventorySkew[]): number {
+        const shift = this.skewShift(signal, skews);
+        if (shift !== null) {
+            const scaled = Math.max(-1, Math.min(1, shift / this.config.fullInventoryShiftPct));
+            return 50 + 50 * scaled;
+        }
+
         const base = signal.pair.split('/')[0];
         const relevant = skews.filter((s) => s.token === base);
 
@@ -70,6 +170,58 @@ export class SignalScorer {
         return 60;
     }
 
+    // Percentage points by which the trade reduces each asset's largest venue
+    // deviation, averaged over base and quote; negative when skew grows.
+    private skewShift(signal: Signal, skews: InventorySkew[]): number | null {
+        if (!this.isPairTrade(signal)) return null;
+
+        const [base, quote] = signal.pair.split('/');
+        const size = signal.size.toNumber();
+        const buyOnCex = signal.direction === Direction.BUY_CEX_SELL_DEX;
+        const sign = buyOnCex ? 1 : -1;
+        const flows: Record<string, Partial<Record<Venue, number>>> = {
+            [base]: { [Venue.BINANCE]: sign * size, [Venue.WALLET]: -sign * size },
+            [quote]: {
+                [Venue.BINANCE]: -sign * size * signal.cexPrice.toNumber(),
+                [Venue.WALLET]: sign * size * signal.dexPrice.toNumber(),
+            },
+        };
+
+        const shifts: number[] = [];
+        for (const [token, flow] of Object.entries(flows)) {
+            const amounts = skews.find((s) => s.token === token)?.amounts;
+            if (!amounts) continue;
+
+            const before: Partial<Record<Venue, number>> = {};
+            const after: Partial<Record<Venue, number>> = {};
+            for (const [venue, amount] of Object.entries(amounts) as [Venue, Decimal][]) {
+                before[venue] = amount.toNumber();
+                after[venue] = Math.max(0, amount.toNumber() + (flow[venue] ?? 0));
+            }
+            shifts.push(this.maxDeviationPct(before) - this.maxDeviationPct(after));
+        }
+
+        if (shifts.length === 0) return null;
+        return shifts.reduce((sum, shift) => sum + shift, 0) / shifts.length;
+    }
+
+    // Same measure as InventoryTracker.skew: the largest gap from an even split.
+    private maxDeviationPct(amounts: Partial<Record<Venue, number>>): number {
+        const values = Object.values(amounts) as number[];
+        const total = values.reduce((sum, amount) => sum + amount, 0);
+        if (values.length === 0 || total <= 0) return 0;
+
+        const evenPct = 100 / values.length;
+        return Math.max(...values.map((amount) => Math.abs((amount / total) * 100 - evenPct)));
+    }
+
+    private isPairTrade(signal: Signal): boolean {
+        return (
+            signal.direction === Direction.BUY_CEX_SELL_DEX ||
+            signal.direction === Direction.BUY_DEX_SELL_CEX
+        );
+    }
+
     private scoreHistory(pair: string): number {
         const results = this.recentResults.filter((r) => r.pair === pair).slice(-20);
         if (results.length < 3) return 50;
@@ -86,6 +238,77 @@ export class SignalScorer {
         }
     }
 
+    public recordOutcome(outcome: ExecutionOutcome): void {
+        this.recordResult(outcome.pair, outcome.success);
+
+        const key = this.bucketKey(outcome.pair, outcome.direction, outcome.notionalUsd);
+        const bucket = this.outcomes.get(key) ?? [];
+        bucket.push(outcome);
+        this.outcomes.set(key, bucket.slice(-this.config.calibrationWindow));
+    }
+
+    public calibration(signal: Signal): CalibrationStats | null {
+        const key = this.bucketKey(signal.pair, signal.direction, this.notionalUsd(signal));
+        return this.bucketStats(key);
+    }
+
+    public calibrationReport(): CalibrationStats[] {
+        return Array.from(this.outcomes.keys())
+            .map((key) => this.bucketStats(key))
+            .filter((stats): stats is CalibrationStats => stats !== null);
+    }
+
+    // Signals from a bucket that has realized less than it expected keep only
+    // that fraction of their score, down to 1 - maxHaircut. Buckets that beat
+    // their estimates are not boosted.
+    private haircut(signal: Signal): number {
+        if (!this.config.calibrationHaircut) return 1;
+        return this.calibration(signal)?.haircut ?? 1;
+    }
+
+    private bucketStats(key: string): CalibrationStats | null {
+        const outcomes = this.outcomes.get(key);
+        if (!outcomes || outcomes.length === 0) return null;
+
+        const n = outcomes.length;
+        const sum = (pick: (o: ExecutionOutcome) => number) =>
+            outcomes.reduce((acc, o) => acc + pick(o), 0);
+        const expected = sum((o) => o.expectedNetPnl);
+        const realized = sum((o) => o.realizedNetPnl);
+        const realizationRatio = expected > 0 ? realized / expected : 1;
+        const haircut =
+            n >= this.config.minCalibrationSamples
+                ? Math.max(1 - this.config.maxHaircut, Math.min(1, realizationRatio))
+                : 1;
+
+        return {
+            bucket: key,
+            samples: n,
+            successRate: sum((o) => (o.success ? 1 : 0)) / n,
+            meanExpectedPnl: expected / n,
+            meanRealizedPnl: realized / n,
+            realizationRatio,
+            meanSlippageBps: sum((o) => o.slippageBps) / n,
+            meanLatencySeconds: sum((o) => o.latencySeconds) / n,
+            haircut,
+        };
+    }
+
+    // e.g. 'ETH/USDT|buy_cex_sell_dex|1000-5000' with the default buckets.
+    private bucketKey(pair: string, direction: Direction, notionalUsd: number): string {
+        const bounds = this.config.sizeBucketsUsd;
+        const upper = bounds.findIndex((bound) => notionalUsd < bound);
+        const size =
+            upper === -1
+                ? `${bounds[bounds.length - 1] ?? 0}+`
+                : `${upper === 0 ? 0 : bounds[upper - 1]}-${bounds[upper]}`;
+        return `${pair.toUpperCase()}|${direction}|${size}`;
+    }
+
+    private notionalUsd(signal: Signal): number {
+        return signal.size.mul(signal.cexPrice).toNumber();
+    }
+
     public applyDecay(signal: Signal): number {
         const age = signal.ageSeconds();
         const ttl = signal.expiry - signal.timestamp;
@@ -1,11 +1,27 @@
 import { randomUUID } from 'crypto';
 import Decimal from 'decimal.js';
+import { CanonicalSerializer } from '../core/CanonicalSerializer';
 
 export enum Direction {
     BUY_CEX_SELL_DEX = 'buy_cex_sell_dex',
     BUY_DEX_SELL_CEX = 'buy_dex_sell_cex',
+    CYCLE = 'cycle',
+    // Two pools of one pair: cexPrice is the buy pool's price, dexPrice the sell pool's.
+    DEX_ARB = 'dex_arb',
 }
 
+// One step of a multi-leg cycle. DEX steps are exact-in sells of the pair's
+// base; size is in base units and price in quote per base. `pool` pins the leg
+// to one pool when several trade the same pair.
+export type SignalLeg = {
+    venue: 'cex' | 'dex';
+    pair: string;
+    side: 'buy' | 'sell';
+    size: number;
+    price: number;
+    pool?: string;
+};
+
 type SignalParams = {
     signalId?: string;
     pair: string;
@@ -22,6 +38,8 @@ type SignalParams = {
     inventoryOk: boolean;
     withinLimits: boolean;
     timestamp?: number;
+    sourceTimestamp?: number | null;
+    legs?: SignalLeg[];
 };
 
 export class Signal {
@@ -37,9 +55,14 @@ export class Signal {
     public expectedNetPnl: Decimal;
     public score: number;
     public timestamp: number;
+    // Order book timestamp or block number the prices were read at.
+    public sourceTimestamp: number | null;
     public expiry: number;
     public inventoryOk: boolean;
     public withinLimits: boolean;
+    // Set on CYCLE signals only. Their pair is the cycle label, size is the
+    // anchor amount put in, cexPrice is 1 and dexPrice the expected gross return.
+    public legs: SignalLeg[];
 
     constructor(params: SignalParams) {
         this.signalId =
@@ -55,9 +78,11 @@ export class Signal {
         this.expectedNetPnl = new Decimal(params.expectedNetPnl);
         this.score = params.score;
         this.timestamp = params.timestamp ?? Date.now() / 1000;
+        this.sourceTimestamp = params.sourceTimestamp ?? null;
         this.expiry = params.expiry;
         this.inventoryOk = params.inventoryOk;
         this.withinLimits = params.withinLimits;
+        this.legs = params.legs ?? [];
     }
 
     isValid(): boolean {
@@ -71,6 +96,20 @@ export class Signal {
         );
     }
 
+    // Identifies the opportunity rather than the signal object, so the same
+    // market state seen twice hashes the same regardless of signalId.
+    contentHash(): string {
+        return CanonicalSerializer.hash({
+            pair: this.pair.toUpperCase(),
+            direction: this.direction,
+            cexPrice: this.cexPrice.toString(),
+            dexPrice: this.dexPrice.toString(),
+            size: this.size.toString(),
+            sourceTimestamp: this.sourceTimestamp ?? this.timestamp,
+            ...(this.legs.length > 0 ? { legs: this.legs } : {}),
+        });
+    }
+
     ageSeconds(): number {
         return Date.now() / 1000 - this.timestamp;
     }
@@ -0,0 +1,135 @@
+import { Direction } from './signal';
+import { FeeStructure } from './fees';
+import { NormalizedOrderBook } from '../exchange/ExchangeClient';
+import { Token } from '../pricing/Token';
+import { UniswapV2Pair } from '../pricing/UniswapV2Pair';
+
+export type SizeSolution = {
+    size: number;
+    cexPrice: number;
+    dexPrice: number;
+    grossPnl: number;
+    fees: number;
+    netPnl: number;
+};
+
+type Curve = {
+    reserveBase: number;
+    reserveQuote: number;
+    gamma: number;
+};
+
+// Finds the size where the marginal DEX price meets the marginal CEX price.
+// Profit is concave in size (the V2 curve is concave, the book cost convex), so
+// walking the book level by level and solving the V2 first-order condition
+// against each level's price lands on the optimum. The LP fee is already in the
+// curve; the CEX taker fee and gas come from FeeStructure.
+export class SizeSolver {
+    constructor(private readonly fees: FeeStructure) {}
+
+    public solve(
+        direction: Direction,
+        book: NormalizedOrderBook,
+        pool: UniswapV2Pair,
+        baseToken: Token,
+        maxSize: number = Number.POSITIVE_INFINITY,
+    ): SizeSolution | null {
+        if (maxSize <= 0) return null;
+
+        const curve = this.curve(pool, baseToken);
+        const buyOnCex = direction === Direction.BUY_CEX_SELL_DEX;
+        const levels = buyOnCex ? book.asks : book.bids;
+        const taker = this.fees.cexTakerBps / 10_000;
+
+        let size = 0;
+        for (const [price, qty] of levels) {
+            const marginal = price.toNumber() * (buyOnCex ? 1 + taker : 1 - taker);
+            const optimum = buyOnCex
+                ? this.sellOptimum(curve, marginal)
+                : this.buyOptimum(curve, marginal);
+            const levelEnd = Math.min(size + qty.toNumber(), maxSize);
+
+            if (optimum <= size) break;
+            if (optimum < levelEnd) {
+                size = optimum;
+                break;
+            }
+            size = levelEnd;
+            if (size >= maxSize) break;
+        }
+        if (size <= 0) return null;
+
+        return this.evaluate(direction, book, curve, size);
+    }
+
+    private evaluate(
+        direction: Direction,
+        book: NormalizedOrderBook,
+        curve: Curve,
+        size: number,
+    ): SizeSolution | null {
+        const buyOnCex = direction === Direction.BUY_CEX_SELL_DEX;
+        const cexNotional = this.walk(buyOnCex ? book.asks : book.bids, size);
+        const dexNotional = buyOnCex ? this.amountOut(curve, size) : this.amountIn(curve, size);
+        if (cexNotional === null || dexNotional === null) return null;
+
+        const grossPnl = buyOnCex ? dexNotional - cexNotional : cexNotional - dexNotional;
+        const fees = (cexNotional * this.fees.cexTakerBps) / 10_000 + this.fees.gasCostUsd;
+        return {
+            size,
+            cexPrice: cexNotional / size,
+            dexPrice: dexNotional / size,
+            grossPnl,
+            fees,
+            netPnl: grossPnl - fees,
+        };
+    }
+
+    // Selling x base: out = g*x*Rq / (Rb + g*x), so out' = m at
+    // x = (sqrt(g*Rb*Rq / m) - Rb) / g.
+    private sellOptimum({ reserveBase, reserveQuote, gamma }: Curve, marginal: number): number {
+        if (marginal <= 0) return 0;
+        return (Math.sqrt((gamma * reserveBase * reserveQuote) / marginal) - reserveBase) / gamma;
+    }
+
+    // Buying x base exact-out: in = Rq*x / (g*(Rb - x)), so in' = m at
+    // x = Rb - sqrt(Rq*Rb / (g*m)).
+    private buyOptimum({ reserveBase, reserveQuote, gamma }: Curve, marginal: number): number {
+        if (marginal <= 0) return 0;
+        return reserveBase - Math.sqrt((reserveQuote * reserveBase) / (gamma * marginal));
+    }
+
+    private amountOut({ reserveBase, reserveQuote, gamma }: Curve, size: number): number {
+        return (gamma * size * reserveQuote) / (reserveBase + gamma * size);
+    }
+
+    private amountIn({ reserveBase, reserveQuote, gamma }: Curve, size: number): number | null {
+        if (size >= reserveBase) return null;
+        return (reserveQuote * size) / (gamma * (reserveBase - size));
+    }
+
+    // Quote notional for `size` against the levels, null when the book is too thin.
+    private walk(levels: NormalizedOrderBook['asks'], size: number): number | null {
+        let remaining = size;
+        let notional = 0;
+        for (const [price, qty] of levels) {
+            const take = Math.min(remaining, qty.toNumber());
+            notional += take * price.toNumber();
+            remaining -= take;
+            if (remaining <= 1e-12) return notional;
+        }
+        return null;
+    }
+
+    private curve(pool: UniswapV2Pair, baseToken: Token): Curve {
+        const isToken0 = pool.token0.equals(baseToken);
+        const quoteToken = isToken0 ? pool.token1 : pool.token0;
+        const reserveBase = isToken0 ? pool.reserve0 : pool.reserve1;
+        const reserveQuote = isToken0 ? pool.reserve1 : pool.reserve0;
+        return {
+            reserveBase: Number(reserveBase) / 10 ** baseToken.decimals,
+            reserveQuote: Number(reserveQuote) / 10 ** quoteToken.decimals,
+            gamma: 1 - Number(pool.feeBps) / 10_000,
+        };
+    }
+}
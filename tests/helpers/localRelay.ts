@@ -0,0 +1,101 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { id, verifyMessage } from 'ethers';
+
+export type RelayBundle = {
+    method: string;
+    signer: string;
+    txs: string[];
+    blockNumber: number;
+};
+
+// Minimal stand-in for a Flashbots-style relay: checks the auth signature,
+// records every bundle and answers eth_callBundle / eth_sendBundle.
+export class LocalRelay {
+    public readonly bundles: RelayBundle[] = [];
+    public callBundleError: string | null = null;
+    private server: http.Server | null = null;
+
+    get url(): string {
+        if (!this.server) throw new Error('Relay not started');
+        const { port } = this.server.address() as AddressInfo;
+        return `http://127.0.0.1:${port}`;
+    }
+
+    public sent(): RelayBundle[] {
+        return this.bundles.filter((b) => b.method === 'eth_sendBundle');
+    }
+
+    public async start(): Promise<void> {
+        this.server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => this.handle(body, req.headers['x-flashbots-signature'], res));
+        });
+        await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    }
+
+    public async stop(): Promise<void> {
+        if (!this.server) return;
+        await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    private handle(
+        body: string,
+        header: string | string[] | undefined,
+        res: http.ServerResponse,
+    ): void {
+        const reply = (status: number, payload: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        };
+
+        const [signer, signature] = typeof header === 'string' ? header.split(':') : [];
+        if (!signer || !signature || verifyMessage(id(body), signature) !== signer) {
+            reply(403, { error: 'invalid flashbots signature' });
+            return;
+        }
+
+        const request = JSON.parse(body) as {
+            id: number;
+            method: string;
+            params: [{ txs: string[]; blockNumber: string }];
+        };
+        const [params] = request.params;
+        this.bundles.push({
+            method: request.method,
+            signer,
+            txs: params.txs,
+            blockNumber: Number(params.blockNumber),
+        });
+
+        if (request.method === 'eth_callBundle') {
+            if (this.callBundleError) {
+                reply(200, {
+                    jsonrpc: '2.0',
+                    id: request.id,
+                    error: { code: -32000, message: this.callBundleError },
+                });
+                return;
+            }
+            reply(200, { jsonrpc: '2.0', id: request.id, result: { results: [] } });
+            return;
+        }
+
+        if (request.method === 'eth_sendBundle') {
+            reply(200, {
+                jsonrpc: '2.0',
+                id: request.id,
+                result: { bundleHash: id(`${params.txs.join('')}:${params.blockNumber}`) },
+            });
+            return;
+        }
+
+        reply(200, {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: -32601, message: 'method not found' },
+        });
+    }
+}
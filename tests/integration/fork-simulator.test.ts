@@ -8,6 +8,7 @@ import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
 const WETH_ADDR = '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2';
 const USDC_ADDR = '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48';
 const POOL_ADDR = '0xB4e16d0168e52d35CaCD2c6185b44281Ec28C9Dc';
+const SUSHI_POOL_ADDR = '0x397FF1542f962076d0BFE58eA045FfA2d347ACa0';
 const ROUTER_ADDR = '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D';
 const WHALE_ADDR = '0x28C6c06298d514Db089934071355E5743bf21d60';
 
@@ -98,7 +99,9 @@ describe('ForkSimulator Integration Tests', () => {
         const wethWhale = wethContract.connect(whaleSigner) as Contract;
         await wethWhale.approve(ROUTER_ADDR, ethers.MaxUint256);
 
-        const pair = new UniswapV2Pair(new Address(POOL_ADDR), weth, usdc, 0n, 0n);
+        const pairContract = new Contract(POOL_ADDR, PAIR_ABI, provider);
+        const [r0, r1] = await pairContract.getReserves();
+        const pair = new UniswapV2Pair(new Address(POOL_ADDR), usdc, weth, r0, r1);
         const route = new Route([pair], [weth, usdc]);
         const amountIn = ethers.parseEther('1');
 
@@ -175,4 +178,45 @@ describe('ForkSimulator Integration Tests', () => {
             expect(isWithinThreshold).toBe(true);
         }
     });
+
+    test('should simulate a two-pool round trip against the pair contracts', async () => {
+        const weth = new Token('WETH', 18, new Address(WETH_ADDR));
+        const usdc = new Token('USDC', 6, new Address(USDC_ADDR));
+
+        const loadPair = async (address: string) => {
+            const pairContract = new Contract(address, PAIR_ABI, provider);
+            const [r0, r1] = await pairContract.getReserves();
+            const token0Addr: string = await pairContract.token0();
+            return token0Addr.toLowerCase() === USDC_ADDR.toLowerCase()
+                ? new UniswapV2Pair(new Address(address), usdc, weth, r0, r1)
+                : new UniswapV2Pair(new Address(address), weth, usdc, r0, r1);
+        };
+        const uni = await loadPair(POOL_ADDR);
+        const sushi = await loadPair(SUSHI_POOL_ADDR);
+
+        const sender = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+        const amountIn = ethers.parseEther('1');
+        await impersonateAccount(WHALE_ADDR);
+        await setBalance(WHALE_ADDR, '10');
+        const whaleSigner = await provider.getSigner(WHALE_ADDR);
+        const wethWhale = new Contract(WETH_ADDR, ERC20_ABI, whaleSigner);
+        await (await wethWhale.transfer(sender, amountIn)).wait();
+        await stopImpersonatingAccount(WHALE_ADDR);
+
+        const wethContract = new Contract(WETH_ADDR, ERC20_ABI, provider);
+        const before: bigint = await wethContract.balanceOf(sender);
+
+        const result = await simulator.simulatePoolArb(
+            uni,
+            sushi,
+            weth,
+            amountIn,
+            new Address(sender),
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.amountOut).toBe(sushi.getAmountOut(uni.getAmountOut(amountIn, weth), usdc));
+        expect(result.gasUsed).toBeGreaterThan(0n);
+        expect(await wethContract.balanceOf(sender)).toBe(before);
+    });
 });
@@ -0,0 +1,93 @@
+import Decimal from 'decimal.js';
+import { CycleFinder } from '../../src/strategy/cycles';
+import { FeeStructure } from '../../src/strategy/fees';
+import { NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
+import { PricingEngine } from '../../src/pricing/PricingEngine';
+import { RouteFinder } from '../../src/pricing/RouteFinder';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const ETH = new Token('ETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const ARB = new Token('ARB', 18, new Address('0x5555555555555555555555555555555555555555'));
+const USDC_ETH = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    USDC,
+    ETH,
+    400_000n * 10n ** 6n,
+    200n * 10n ** 18n,
+);
+const ETH_ARB = new UniswapV2Pair(
+    new Address('0x6666666666666666666666666666666666666666'),
+    ETH,
+    ARB,
+    200n * 10n ** 18n,
+    400_000n * 10n ** 18n,
+);
+
+const makeBook = (symbol: string, bid: number, ask: number, qty: number): NormalizedOrderBook => ({
+    symbol,
+    timestamp: 0,
+    bids: [[new Decimal(bid), new Decimal(qty)]],
+    asks: [[new Decimal(ask), new Decimal(qty)]],
+    best_bid: [new Decimal(bid), new Decimal(qty)],
+    best_ask: [new Decimal(ask), new Decimal(qty)],
+    mid_price: new Decimal((bid + ask) / 2),
+    spread_bps: new Decimal(0),
+});
+
+describe('CycleFinder', () => {
+    const routes = new RouteFinder([USDC_ETH, ETH_ARB]);
+    const pricing = {
+        findAllRoutes: jest.fn((tokenIn: Token, tokenOut: Token, maxHops: number) =>
+            routes.findAllRoutes(tokenIn, tokenOut, maxHops),
+        ),
+    } as unknown as PricingEngine;
+    const finder = new CycleFinder(pricing, new FeeStructure(10, 30, 1));
+
+    test('discovers DEX multi-hop and two-book cycles but not plain pairs', () => {
+        const labels = finder.discover(USDC, [ETH, ARB]).map((cycle) => cycle.label);
+
+        expect(labels).toEqual(expect.arrayContaining(['USDC>ETH>ARB>USDC', 'USDC>ARB>ETH>USDC']));
+        expect(labels).not.toContain('USDC>ETH>USDC');
+    });
+
+    test('sizes a mispriced cycle at its most profitable input', () => {
+        const cycle = finder
+            .discover(USDC, [ETH, ARB])
+            .find((c) => c.label === 'USDC>ETH>ARB>USDC' && c.steps[0].venue === 'dex')!;
+        const books = new Map([['ARB/USDC', makeBook('ARB/USDC', 1.05, 1.06, 1_000_000)]]);
+
+        const quote = finder.price(cycle, books, 100_000)!;
+
+        expect(quote.legs.map((leg) => [leg.venue, leg.pair, leg.side])).toEqual([
+            ['dex', 'USDC/ETH', 'sell'],
+            ['dex', 'ETH/ARB', 'sell'],
+            ['cex', 'ARB/USDC', 'sell'],
+        ]);
+        expect(quote.legs.map((leg) => leg.pool)).toEqual([
+            USDC_ETH.address.checksum,
+            ETH_ARB.address.checksum,
+            undefined,
+        ]);
+        for (let i = 1; i < quote.legs.length; i++) {
+            const prev = quote.legs[i - 1];
+            expect(quote.legs[i].size).toBeCloseTo(prev.size * prev.price, 6);
+        }
+        expect(quote.netPnl).toBeGreaterThan(0);
+        for (const f of [0.8, 1.2]) {
+            const near = finder.evaluate(cycle, books, quote.amountIn * f)!;
+            expect(near.netPnl).toBeLessThan(quote.netPnl);
+        }
+    });
+
+    test('returns null when the cycle has no edge', () => {
+        const cycle = finder
+            .discover(USDC, [ETH, ARB])
+            .find((c) => c.label === 'USDC>ETH>ARB>USDC' && c.steps[0].venue === 'dex')!;
+        const books = new Map([['ARB/USDC', makeBook('ARB/USDC', 0.99, 1.0, 1_000_000)]]);
+
+        expect(finder.price(cycle, books, 100_000)).toBeNull();
+    });
+});
@@ -0,0 +1,73 @@
+import { zeroPadValue, toBeHex } from 'ethers';
+import { parseSwapFill } from '../../src/executor/dexSwap';
+import { Address } from '../../src/core/types/Address';
+import { TransactionReceipt } from '../../src/core/types/TransactionReceipt';
+import { Route } from '../../src/pricing/Route';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const SWAP_TOPIC = '0xd78ad95fa46c994b6551d0da85fc275fe613ce37657fb8d5e3d130840159d822';
+
+const WALLET = new Address('0x1111111111111111111111111111111111111111');
+const POOL = new Address('0x2222222222222222222222222222222222222222');
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+
+const pad = (value: string) => zeroPadValue(value, 32);
+const word = (value: bigint) => zeroPadValue(toBeHex(value), 32).slice(2);
+
+const transferLog = (token: Token, from: Address, to: Address, amount: bigint) => ({
+    address: token.address.checksum,
+    topics: [TRANSFER_TOPIC, pad(from.checksum), pad(to.checksum)],
+    data: pad(toBeHex(amount)),
+});
+
+const makeReceipt = (logs: unknown[]) =>
+    new TransactionReceipt({
+        txHash: '0xabc',
+        blockNumber: 1,
+        status: true,
+        gasUsed: 100_000n,
+        effectiveGasPrice: 1n,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        logs: logs as any,
+    });
+
+describe('parseSwapFill', () => {
+    const pair = new UniswapV2Pair(POOL, WETH, USDC, 100n * 10n ** 18n, 200_000n * 10n ** 6n);
+    const route = new Route([pair], [WETH, USDC]);
+
+    test('derives amounts from wallet transfers', () => {
+        const receipt = makeReceipt([
+            transferLog(WETH, WALLET, POOL, 10n ** 18n),
+            transferLog(USDC, POOL, WALLET, 1_990_000_000n),
+        ]);
+
+        expect(parseSwapFill(receipt, route, WALLET)).toEqual({
+            amountIn: 10n ** 18n,
+            amountOut: 1_990_000_000n,
+        });
+    });
+
+    test('falls back to pool swap event', () => {
+        const receipt = makeReceipt([
+            {
+                address: POOL.checksum,
+                topics: [SWAP_TOPIC, pad(WALLET.checksum), pad(WALLET.checksum)],
+                data: '0x' + word(10n ** 18n) + word(0n) + word(0n) + word(1_990_000_000n),
+            },
+        ]);
+
+        expect(parseSwapFill(receipt, route, WALLET)).toEqual({
+            amountIn: 10n ** 18n,
+            amountOut: 1_990_000_000n,
+        });
+    });
+
+    test('throws when receipt has no fill', () => {
+        expect(() => parseSwapFill(makeReceipt([]), route, WALLET)).toThrow(
+            'Unable to derive swap fill',
+        );
+    });
+});
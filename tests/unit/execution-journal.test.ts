@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Decimal from 'decimal.js';
+import { ExecutionJournal } from '../../src/executor/journal';
+import { ExecutionContext, ExecutorState } from '../../src/executor/engine';
+import { Direction, Signal } from '../../src/strategy/signal';
+
+const makeContext = (signalId: string, state: ExecutorState): ExecutionContext => ({
+    signal: new Signal({
+        signalId,
+        pair: 'ETH/USDT',
+        direction: Direction.BUY_CEX_SELL_DEX,
+        cexPrice: new Decimal(2000),
+        dexPrice: new Decimal(2010),
+        spreadBps: 50,
+        size: new Decimal(1),
+        expectedGrossPnl: new Decimal(10),
+        expectedFees: new Decimal(2),
+        expectedNetPnl: new Decimal(8),
+        score: 70,
+        expiry: Date.now() / 1000 + 60,
+        inventoryOk: true,
+        withinLimits: true,
+    }),
+    state,
+    leg1Venue: 'cex',
+    leg1OrderId: 'ord-1',
+    leg1FillPrice: 2000,
+    leg1FillSize: 1,
+    leg2Venue: 'dex',
+    leg2TxHash: null,
+    leg2FillPrice: null,
+    leg2FillSize: null,
+    dexFeeBps: null,
+    startedAt: Date.now() / 1000,
+    finishedAt: null,
+    actualNetPnl: null,
+    partialFill: null,
+    unwind: null,
+    fees: { cexFee: 0, dexFee: 0, gasCost: 0, total: 0 },
+    cycleFills: [],
+    error: null,
+});
+
+describe('ExecutionJournal', () => {
+    let dir: string;
+    let filepath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+        filepath = path.join(dir, 'nested', 'journal.jsonl');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('returns latest state per signal', () => {
+        const journal = new ExecutionJournal(filepath);
+        journal.record(makeContext('sig-1', ExecutorState.LEG1_PENDING));
+        journal.record(makeContext('sig-1', ExecutorState.LEG2_PENDING));
+        journal.record(makeContext('sig-2', ExecutorState.DONE));
+
+        const latest = new ExecutionJournal(filepath).latest();
+
+        expect(latest).toHaveLength(2);
+        const sig1 = latest.find((c) => c.signal.signalId === 'sig-1')!;
+        expect(sig1.state).toBe(ExecutorState.LEG2_PENDING);
+        expect(sig1.signal).toBeInstanceOf(Signal);
+        expect(sig1.signal.cexPrice.toNumber()).toBe(2000);
+        expect(sig1.leg1FillSize).toBe(1);
+    });
+
+    test('skips truncated trailing line', () => {
+        const journal = new ExecutionJournal(filepath);
+        journal.record(makeContext('sig-1', ExecutorState.LEG1_FILLED));
+        fs.appendFileSync(filepath, '{"signal":{"signalId":"sig-1"', 'utf8');
+
+        const latest = journal.latest();
+
+        expect(latest).toHaveLength(1);
+        expect(latest[0].state).toBe(ExecutorState.LEG1_FILLED);
+    });
+
+    test('compacts to the given executions', () => {
+        const journal = new ExecutionJournal(filepath);
+        journal.record(makeContext('sig-1', ExecutorState.LEG1_PENDING));
+        journal.record(makeContext('sig-1', ExecutorState.DONE));
+        journal.record(makeContext('sig-2', ExecutorState.LEG2_PENDING));
+
+        journal.compact([makeContext('sig-2', ExecutorState.LEG2_PENDING)]);
+
+        expect(fs.readFileSync(filepath, 'utf8').trim().split('\n')).toHaveLength(1);
+        expect(journal.latest().map((c) => c.signal.signalId)).toEqual(['sig-2']);
+        expect(fs.existsSync(`${filepath}.tmp`)).toBe(false);
+    });
+
+    test('returns empty list when file is missing', () => {
+        expect(new ExecutionJournal(filepath).latest()).toEqual([]);
+    });
+});
@@ -1,9 +1,24 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import Decimal from 'decimal.js';
-import { Executor, ExecutorState } from '../../src/executor/engine';
+import { Executor, ExecutorState, legSubmitted, realizedPnl } from '../../src/executor/engine';
 import { Direction, Signal } from '../../src/strategy/signal';
-import { ExchangeClient } from '../../src/exchange/ExchangeClient';
+import { ExchangeClient, NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
 import { PricingEngine } from '../../src/pricing/PricingEngine';
 import { InventoryTracker } from '../../src/inventory/tracker';
+import { DexSwapper } from '../../src/executor/dexSwap';
+import { BundleSubmitter } from '../../src/executor/flashbots';
+import { Quote } from '../../src/pricing/PricingEngine';
+import { Route } from '../../src/pricing/Route';
+import { ExecutionJournal } from '../../src/executor/journal';
+import { Address } from '../../src/core/types/Address';
+import { TransactionReceipt } from '../../src/core/types/TransactionReceipt';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+import { FeeStructure } from '../../src/strategy/fees';
+import { SignalGenerator } from '../../src/strategy/generator';
+import { Config } from '../../src/config';
 
 const makeSignal = (overrides: Partial<ConstructorParameters<typeof Signal>[0]> = {}): Signal =>
     new Signal({
@@ -22,8 +37,46 @@ const makeSignal = (overrides: Partial<ConstructorParameters<typeof Signal>[0]>
         inventoryOk: overrides.inventoryOk ?? true,
         withinLimits: overrides.withinLimits ?? true,
         timestamp: overrides.timestamp ?? Date.now() / 1000,
+        legs: overrides.legs,
     });
 
+const makeOrder = (status: string, filled: number) =>
+    ({
+        id: 'ord-1',
+        symbol: 'ETH/USDT',
+        status,
+        amount_requested: new Decimal(1),
+        amount_filled: new Decimal(filled),
+        avg_fill_price: new Decimal(filled > 0 ? 2000 : 0),
+        fee: new Decimal(0),
+        fee_asset: 'USDT',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    }) as any;
+
+const WETH = new Token('ETH', 18, new Address('0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'));
+const USDT = new Token('USDT', 6, new Address('0xdAC17F958D2ee523a2206206994597C13D831ec7'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDT,
+    10_000n * 10n ** 18n,
+    20_100_000n * 10n ** 6n,
+);
+
+const makeBook = (): NormalizedOrderBook => ({
+    symbol: 'ETH/USDT',
+    timestamp: Date.now(),
+    bids: [[new Decimal(1999), new Decimal(20)]],
+    asks: [
+        [new Decimal(2000), new Decimal(5)],
+        [new Decimal(2001), new Decimal(15)],
+    ],
+    best_bid: [new Decimal(1999), new Decimal(20)],
+    best_ask: [new Decimal(2000), new Decimal(5)],
+    mid_price: new Decimal(1999.5),
+    spread_bps: new Decimal(5),
+});
+
 describe('Executor', () => {
     let exchange: jest.Mocked<ExchangeClient>;
     let pricing: jest.Mocked<PricingEngine>;
@@ -36,11 +89,17 @@ describe('Executor', () => {
         exchange = {
             createLimitIocOrder: jest.fn(),
             createMarketOrder: jest.fn(),
+            fetchOrderStatus: jest.fn(),
+            cancelOrder: jest.fn(),
+            cancelOrderByClientId: jest.fn().mockRejectedValue(new Error('Unknown order')),
+            fetchOrderByClientId: jest.fn().mockRejectedValue(new Error('Order does not exist')),
+            fetchOrderBook: jest.fn().mockResolvedValue(makeBook()),
         } as unknown as jest.Mocked<ExchangeClient>;
 
         pricing = {
             fetchGasPriceGwei: jest.fn(),
             getQuote: jest.fn(),
+            getPool: jest.fn().mockReturnValue(POOL),
         } as unknown as jest.Mocked<PricingEngine>;
 
         inventory = {} as unknown as jest.Mocked<InventoryTracker>;
@@ -59,26 +118,83 @@ describe('Executor', () => {
         expect(result.error).toBeNull();
         expect(result.leg1FillSize).toBe(1);
         expect(result.leg2FillSize).toBe(1);
+        expect(result.leg1FillPrice).toBe(2000);
+        expect(result.leg2FillPrice).toBeCloseTo(Number(POOL.getAmountOut(10n ** 18n, WETH)) / 1e6);
     });
 
     test('test_execute_cex_timeout', async () => {
         const executor = new Executor(exchange, pricing, inventory, {
             useFlashbots: false,
-            simulationMode: true,
+            simulationMode: false,
             leg1Timeout: 0,
         });
         const signal = makeSignal();
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const executorInternal = executor as any;
 
-        jest.spyOn(executorInternal, 'executeCexLeg').mockImplementation(
-            () => new Promise(() => undefined),
-        );
+        exchange.createLimitIocOrder.mockImplementation(() => new Promise(() => undefined));
 
         const result = await executor.execute(signal);
 
         expect(result.state).toBe(ExecutorState.FAILED);
         expect(result.error).toBe('CEX timeout');
+        expect(exchange.fetchOrderByClientId).toHaveBeenCalledWith(signal.signalId, 'ETH/USDT');
+        expect(legSubmitted(result)).toBe(true);
+    });
+
+    test('test_cex_order_polled_until_terminal', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: false,
+            orderPollInterval: 0,
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+
+        exchange.createLimitIocOrder.mockResolvedValue(makeOrder('open', 0));
+        exchange.fetchOrderStatus
+            .mockResolvedValueOnce(makeOrder('open', 0))
+            .mockResolvedValueOnce(makeOrder('filled', 1));
+        jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
+            success: true,
+            price: 2010,
+            filled: 1,
+            reference: '0xabc',
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(exchange.fetchOrderStatus).toHaveBeenCalledTimes(2);
+        expect(exchange.cancelOrder).not.toHaveBeenCalled();
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1OrderId).toBe('ord-1');
+        expect(result.leg1FillSize).toBe(1);
+    });
+
+    test('test_cex_timeout_cancels_and_uses_late_fill', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: false,
+            leg1Timeout: 0,
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+
+        exchange.createLimitIocOrder.mockResolvedValue(makeOrder('open', 0));
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        exchange.cancelOrder.mockResolvedValue({} as any);
+        exchange.fetchOrderStatus.mockResolvedValue(makeOrder('partially_filled', 0.5));
+        const dexSpy = jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
+            success: true,
+            price: 2010,
+            filled: 0.5,
+            reference: '0xabc',
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(exchange.cancelOrder).toHaveBeenCalledWith('ord-1', 'ETH/USDT');
+        expect(result.partialFill).toMatchObject({ filled: 0.5, action: 'hedge' });
+        expect(dexSpy).toHaveBeenCalledWith(expect.objectContaining({ side: 'sell', size: 0.5 }));
+        expect(result.state).toBe(ExecutorState.DONE);
     });
 
     test('test_execute_dex_failure_unwinds', async () => {
@@ -90,13 +206,13 @@ describe('Executor', () => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const executorInternal = executor as any;
 
-        jest.spyOn(executorInternal, 'executeCexLeg').mockResolvedValue({
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
             success: true,
             price: 2000,
             filled: 2,
-            orderId: 'ord-1',
+            reference: 'ord-1',
         });
-        jest.spyOn(executorInternal, 'executeDexLeg').mockResolvedValue({
+        jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
             success: false,
             price: 0,
             filled: 0,
@@ -109,9 +225,323 @@ describe('Executor', () => {
         expect(unwindSpy).toHaveBeenCalledTimes(1);
         expect(result.state).toBe(ExecutorState.FAILED);
         expect(result.error).toBe('DEX failed - unwound');
+        expect(legSubmitted(result)).toBe(true);
+    });
+
+    test('test_unhedged_first_leg_counts_as_signed_exposure', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+        let hedge: (result: unknown) => void = () => undefined;
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
+            success: true,
+            price: 2000,
+            filled: 2,
+            reference: 'ord-1',
+        });
+        const dexLeg = jest
+            .spyOn(executorInternal.venues.dex, 'execute')
+            .mockImplementation(() => new Promise((resolve) => (hedge = resolve)));
+
+        const pending = executor.execute(makeSignal({ size: new Decimal(2) }));
+        while (dexLeg.mock.calls.length === 0) await new Promise((r) => setImmediate(r));
+
+        expect(executor.unhedgedExposure()).toEqual({ ETH: 2 });
+        hedge({ success: true, price: 2010, filled: 2, reference: '0xabc' });
+        await pending;
+        expect(executor.unhedgedExposure()).toEqual({});
+    });
+
+    test('test_lifecycle_events_emitted', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+        });
+        const seen: string[] = [];
+        executor.events.on('signal_accepted', () => {
+            seen.push('signal_accepted');
+        });
+        executor.events.on('leg_submitted', ({ leg, venue }) => {
+            seen.push(`leg_submitted:${leg}:${venue}`);
+        });
+        executor.events.on('leg_filled', ({ leg, size }) => {
+            seen.push(`leg_filled:${leg}:${size}`);
+        });
+        executor.events.on('done', ({ context }) => {
+            seen.push(`done:${context.signal.signalId}`);
+        });
+
+        await executor.execute(makeSignal());
+
+        expect(seen).toEqual([
+            'signal_accepted',
+            'leg_submitted:1:cex',
+            'leg_filled:1:1',
+            'leg_submitted:2:dex',
+            'leg_filled:2:1',
+            'done:sig-1',
+        ]);
+    });
+
+    test('test_failure_events_survive_listener_errors', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+        jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
+            success: false,
+            price: 0,
+            filled: 0,
+            error: 'dex failed',
+        });
+        const unwinds: number[] = [];
+        const failures: string[] = [];
+        executor.events.on('unwind_started', () => {
+            throw new Error('listener bug');
+        });
+        executor.events.on('unwind_started', ({ size }) => {
+            unwinds.push(size);
+        });
+        executor.events.on('failed', ({ error }) => {
+            failures.push(error);
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.error).toBe('DEX failed - unwound');
+        expect(unwinds).toEqual([1]);
+        expect(failures).toEqual(['DEX failed - unwound']);
     });
 
-    test('test_partial_fill_rejected', async () => {
+    test('test_early_rejections_emit_rejected_not_failed', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            maxOpenPositions: 0,
+        });
+        const events: string[] = [];
+        executor.events.on('failed', ({ error }) => {
+            events.push(`failed:${error}`);
+        });
+        executor.events.on('rejected', ({ error }) => {
+            events.push(`rejected:${error}`);
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(events).toEqual(['rejected:Max open positions reached (0)']);
+    });
+
+    test('test_failed_trade_realizes_fees_and_unwind_loss', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            unwind: { retryDelayMs: 0 },
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
+            success: true,
+            price: 2000,
+            filled: 1,
+            reference: 'ord-1',
+            fees: { cex: 2, dex: 0, gas: 0 },
+        });
+        jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
+            success: false,
+            price: 0,
+            filled: 0,
+            error: 'dex failed',
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        // Bought at 2000 and sold back into the 1999 bid, after a 2 taker fee.
+        expect(result.error).toBe('DEX failed - unwound');
+        expect(result.actualNetPnl).toBeNull();
+        expect(result.unwind?.lossUsd).toBeCloseTo(1);
+        expect(realizedPnl(result)).toBeCloseTo(-3);
+
+        const full = new Executor(exchange, pricing, inventory, { maxOpenPositions: 0 });
+        expect(realizedPnl(await full.execute(makeSignal()))).toBeNull();
+    });
+
+    test('test_unwind_escalates_when_position_cannot_be_flattened', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            unwind: { retryDelayMs: 0 },
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+        jest.spyOn(executorInternal.venues.dex, 'execute').mockResolvedValue({
+            success: false,
+            price: 0,
+            filled: 0,
+            error: 'dex failed',
+        });
+        exchange.fetchOrderBook.mockResolvedValueOnce(makeBook()).mockResolvedValue({
+            ...makeBook(),
+            bids: [],
+            best_bid: [new Decimal(1999), new Decimal(0)],
+        });
+        const escalations: number[] = [];
+        executor.events.on('unwind_failed', ({ outcome }) => {
+            escalations.push(outcome.remaining);
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(escalations).toEqual([1]);
+        expect(result.unwind?.flattened).toBe(false);
+        expect(result.unwind?.attempts.map((a) => a.step)).toEqual([
+            'aggressive_limit',
+            'aggressive_limit',
+            'market',
+            'market',
+            'chunked',
+            'chunked',
+        ]);
+        expect(result.error).toBe(
+            'DEX failed - unwind failed with 1 left: chunked: OrderBookAnalyzer initialized with empty orderbook',
+        );
+    });
+
+    test('test_sliced_execution_aggregates_child_fills', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            executionMode: 'sliced',
+            slicing: { sliceIntervalMs: 0 },
+        });
+        const thinBook: NormalizedOrderBook = {
+            ...makeBook(),
+            asks: [
+                [new Decimal(2000), new Decimal(0.4)],
+                [new Decimal(2010), new Decimal(10)],
+            ],
+            best_ask: [new Decimal(2000), new Decimal(0.4)],
+        };
+        exchange.fetchOrderBook.mockResolvedValue(thinBook);
+        const slices: string[] = [];
+        executor.events.on('leg_filled', ({ context, leg }) => {
+            if (leg === 2) slices.push(context.signal.signalId);
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(slices).toEqual(['sig-1_s1', 'sig-1_s2', 'sig-1_s3']);
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1FillSize).toBeCloseTo(1);
+        expect(result.leg1FillPrice).toBeCloseTo(2000);
+        expect(result.leg2FillSize).toBeCloseTo(1);
+        expect(result.partialFill).toBeNull();
+    });
+
+    test('test_sliced_execution_stops_when_edge_disappears', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            executionMode: 'sliced',
+            slicing: { sliceIntervalMs: 0 },
+        });
+        const thinBook: NormalizedOrderBook = {
+            ...makeBook(),
+            asks: [
+                [new Decimal(2000), new Decimal(0.4)],
+                [new Decimal(2010), new Decimal(10)],
+            ],
+            best_ask: [new Decimal(2000), new Decimal(0.4)],
+        };
+        const movedBook: NormalizedOrderBook = {
+            ...makeBook(),
+            asks: [[new Decimal(2010), new Decimal(10)]],
+            best_ask: [new Decimal(2010), new Decimal(10)],
+        };
+        exchange.fetchOrderBook.mockResolvedValue(thinBook);
+        executor.events.on('leg_filled', ({ leg }) => {
+            if (leg === 2) exchange.fetchOrderBook.mockResolvedValue(movedBook);
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1FillSize).toBeCloseTo(0.4);
+        expect(result.partialFill).toMatchObject({
+            requested: 1,
+            action: 'hedge',
+            reason: 'Sliced execution stopped after 1 slices: Edge below minimum on re-quote',
+        });
+    });
+
+    test('test_maker_order_fills_then_hedges_on_dex', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            orderPollInterval: 0,
+            executionMode: 'maker',
+            maker: { makerFeeBps: 0, gasCostUsd: 0, minEdgeBps: 5 },
+        });
+        const crossedBook: NormalizedOrderBook = {
+            ...makeBook(),
+            asks: [[new Decimal(1998), new Decimal(5)]],
+            best_ask: [new Decimal(1998), new Decimal(5)],
+        };
+        exchange.fetchOrderBook
+            .mockResolvedValueOnce(makeBook())
+            .mockResolvedValueOnce(makeBook())
+            .mockResolvedValue(crossedBook);
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1Venue).toBe('cex');
+        expect(result.leg1FillPrice).toBe(1999);
+        expect(result.leg1FillSize).toBe(1);
+        expect(result.leg2FillPrice).toBeGreaterThan(2000);
+        expect(result.actualNetPnl).toBeGreaterThan(0);
+    });
+
+    test('test_maker_order_cancelled_when_dex_moves', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            orderPollInterval: 0,
+            executionMode: 'maker',
+            maker: { makerFeeBps: 0, gasCostUsd: 0, minEdgeBps: 5 },
+            circuitBreaker: { failureThreshold: 1 },
+        });
+        const movedPool = new UniswapV2Pair(
+            POOL.address,
+            WETH,
+            USDT,
+            10_000n * 10n ** 18n,
+            19_900_000n * 10n ** 6n,
+        );
+        pricing.getPool.mockReturnValueOnce(POOL).mockReturnValue(movedPool);
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(result.error).toBe('Maker order cancelled - DEX price moved');
+        expect(result.leg1FillSize).toBeNull();
+        expect(legSubmitted(result)).toBe(false);
+        expect(executor.openCircuitBreakers()).toEqual([]);
+    });
+
+    test('test_partial_fill_hedged_on_dex', async () => {
         const executor = new Executor(exchange, pricing, inventory, {
             useFlashbots: false,
             simulationMode: true,
@@ -121,38 +551,298 @@ describe('Executor', () => {
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const executorInternal = executor as any;
 
-        jest.spyOn(executorInternal, 'executeCexLeg').mockResolvedValue({
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
             success: true,
             price: 2000,
             filled: 7,
-            orderId: 'ord-2',
+            reference: 'ord-2',
+        });
+        const dexSpy = jest.spyOn(executorInternal.venues.dex, 'execute');
+
+        const result = await executor.execute(signal);
+
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.partialFill).toMatchObject({ requested: 10, filled: 7, action: 'hedge' });
+        expect(dexSpy).toHaveBeenCalledWith(
+            expect.objectContaining({ id: signal.signalId, side: 'sell', size: 7 }),
+        );
+        expect(result.leg2FillSize).toBe(7);
+    });
+
+    test('test_partial_fill_unwound_when_hedge_unprofitable', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            minFillRatio: 0.8,
+        });
+        const signal = makeSignal({ size: 10, dexPrice: 2000 });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const executorInternal = executor as any;
+
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
+            success: false,
+            price: 2000,
+            filled: 7,
+            reference: 'ord-2',
+            error: 'partially_filled',
         });
+        const dexSpy = jest.spyOn(executorInternal.venues.dex, 'execute');
+        const unwindSpy = jest.spyOn(executorInternal, 'unwind');
 
         const result = await executor.execute(signal);
 
         expect(result.state).toBe(ExecutorState.FAILED);
-        expect(result.error).toBe('Partial fill below threshold');
+        expect(result.error).toBe('Partial fill below threshold - unwound');
+        expect(result.partialFill?.action).toBe('unwind');
+        expect(unwindSpy).toHaveBeenCalled();
+        expect(dexSpy).not.toHaveBeenCalled();
     });
 
-    test('test_circuit_breaker_blocks', async () => {
+    test('test_partial_fill_dust_held', async () => {
         const executor = new Executor(exchange, pricing, inventory, {
             useFlashbots: false,
             simulationMode: true,
+            minFillRatio: 0.8,
         });
-        const signal = makeSignal();
+        const signal = makeSignal({ size: 1, dexPrice: 2000 });
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const executorInternal = executor as any;
 
-        executorInternal.circuitBreaker = {
-            isOpen: () => true,
-            recordSuccess: jest.fn(),
-            recordFailure: jest.fn(),
-        };
+        jest.spyOn(executorInternal.venues.cex, 'execute').mockResolvedValue({
+            success: true,
+            price: 2000,
+            filled: 0.001,
+            reference: 'ord-2',
+        });
+        const unwindSpy = jest.spyOn(executorInternal, 'unwind');
 
         const result = await executor.execute(signal);
 
         expect(result.state).toBe(ExecutorState.FAILED);
-        expect(result.error).toBe('Circuit breaker open');
+        expect(result.error).toBe('Partial fill below threshold - held');
+        expect(result.partialFill).toMatchObject({ filled: 0.001, notional: 2, action: 'hold' });
+        expect(unwindSpy).not.toHaveBeenCalled();
+    });
+
+    test('test_circuit_breaker_blocks', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            circuitBreaker: { failureThreshold: 1 },
+        });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (executor as any).circuitBreakers.recordFailure('dex', 'ETH/USDT', 'revert');
+
+        const result = await executor.execute(makeSignal());
+        const other = await executor.execute(makeSignal({ signalId: 'sig-2', pair: 'BTC/USDT' }));
+
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(result.error).toBe('Circuit breaker open: dex:ETH/USDT');
+        expect(executor.isCircuitBreakerOpen('ETH/USDT')).toBe(true);
+        expect(other.error).not.toMatch(/Circuit breaker/);
+    });
+
+    test('test_failure_trips_breaker_for_failed_venue', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: false,
+            leg1Timeout: 0,
+            circuitBreaker: { failureThreshold: 1 },
+        });
+        exchange.createLimitIocOrder.mockImplementation(() => new Promise(() => undefined));
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.error).toBe('CEX timeout');
+        expect(executor.openCircuitBreakers()).toEqual(['cex:ETH/USDT']);
+    });
+
+    test('test_bot_pair_resolves_through_generator_tokens', async () => {
+        const generator = new SignalGenerator(
+            exchange,
+            pricing,
+            inventory,
+            new FeeStructure(0, 30, 0),
+            {
+                tokenMap: {
+                    USDC: Config.USDC_ADDRESS,
+                    ARB: '0x912CE59144191C1204E64559FE8253a0e49E6548',
+                },
+            },
+        );
+        const tokens = generator.tokens();
+        pricing.getPool.mockReturnValue(
+            new UniswapV2Pair(
+                new Address('0x011f31D20C8778c8Beb1093b73E3A5690Ee6271b'),
+                tokens.ARB,
+                tokens.USDC,
+                1_000_000n * 10n ** 18n,
+                1_010_000n * 10n ** 6n,
+            ),
+        );
+        exchange.fetchOrderBook.mockResolvedValue({
+            ...makeBook(),
+            symbol: 'ARB/USDC',
+            bids: [[new Decimal(0.999), new Decimal(1000)]],
+            asks: [[new Decimal(1), new Decimal(1000)]],
+        });
+        const executor = new Executor(exchange, pricing, inventory, {
+            simulationMode: true,
+            dexLeg: { tokens },
+        });
+
+        const result = await executor.execute(
+            makeSignal({ pair: 'ARB/USDC', cexPrice: 1, dexPrice: 1.005, size: 100 }),
+        );
+
+        expect(result.error).toBeNull();
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1Venue).toBe('dex');
+        expect(result.leg1FillSize).toBe(100);
+        expect(result.leg2FillSize).toBe(100);
+    });
+
+    test('test_injected_venue_legs_name_breakers', async () => {
+        const okx = {
+            name: 'okx',
+            quote: jest.fn(),
+            execute: jest.fn().mockResolvedValue({
+                success: false,
+                price: 0,
+                filled: 0,
+                error: 'rejected',
+            }),
+            fetchFill: jest.fn(),
+            cancel: jest.fn(),
+            unwindHandlers: jest.fn(),
+        };
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            circuitBreaker: { failureThreshold: 1 },
+            venues: { cex: okx },
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.leg1Venue).toBe('okx');
+        expect(okx.execute).toHaveBeenCalledWith(
+            expect.objectContaining({ pair: 'ETH/USDT', side: 'buy', size: 1 }),
+        );
+        expect(executor.openCircuitBreakers()).toEqual(['okx:ETH/USDT']);
+    });
+
+    describe('cycles', () => {
+        const makeCycle = () =>
+            makeSignal({
+                signalId: 'cyc-1',
+                pair: 'USDT>ETH>ARB>USDT',
+                direction: Direction.CYCLE,
+                cexPrice: 1,
+                dexPrice: 1.01,
+                spreadBps: 100,
+                size: 2000,
+                legs: [
+                    { venue: 'cex', pair: 'ETH/USDT', side: 'buy', size: 1, price: 2000 },
+                    {
+                        venue: 'dex',
+                        pair: 'ETH/ARB',
+                        side: 'sell',
+                        size: 1,
+                        price: 2000,
+                        pool: '0x6666666666666666666666666666666666666666',
+                    },
+                    { venue: 'cex', pair: 'ARB/USDT', side: 'sell', size: 2000, price: 1.01 },
+                ],
+            });
+
+        const makeVenue = (name: string) => ({
+            name,
+            quote: jest.fn(),
+            execute: jest.fn(),
+            fetchFill: jest.fn(),
+            cancel: jest.fn(),
+            unwindHandlers: jest.fn(),
+        });
+
+        test('runs every leg in order and nets the anchor', async () => {
+            const cex = makeVenue('cex-stub');
+            const dex = makeVenue('dex-stub');
+            cex.execute
+                .mockResolvedValueOnce({ success: true, price: 2000, filled: 1 })
+                .mockResolvedValueOnce({ success: true, price: 1.01, filled: 2000 });
+            dex.execute.mockResolvedValueOnce({ success: true, price: 2000, filled: 1 });
+            const executor = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: true,
+                venues: { cex, dex },
+            });
+
+            const result = await executor.execute(makeCycle());
+
+            expect(result.state).toBe(ExecutorState.DONE);
+            expect(result.cycleFills.map((fill) => [fill.venue, fill.pair, fill.side])).toEqual([
+                ['cex-stub', 'ETH/USDT', 'buy'],
+                ['dex-stub', 'ETH/ARB', 'sell'],
+                ['cex-stub', 'ARB/USDT', 'sell'],
+            ]);
+            expect(dex.execute).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    id: 'cyc-1_c2',
+                    pair: 'ETH/ARB',
+                    size: 1,
+                    pool: '0x6666666666666666666666666666666666666666',
+                }),
+            );
+            expect(cex.execute).toHaveBeenLastCalledWith(
+                expect.objectContaining({ id: 'cyc-1_c3', side: 'sell', size: 2000 }),
+            );
+            expect(result.actualNetPnl).toBeCloseTo(20, 6);
+        });
+
+        test('reverses filled legs when a later leg fails', async () => {
+            const cex = makeVenue('cex-stub');
+            const dex = makeVenue('dex-stub');
+            const market = jest.fn().mockResolvedValue({ filled: 1, price: 1998 });
+            cex.execute.mockResolvedValueOnce({ success: true, price: 2000, filled: 1 });
+            cex.unwindHandlers.mockReturnValue({ market });
+            dex.execute.mockResolvedValueOnce({
+                success: false,
+                price: 0,
+                filled: 0,
+                error: 'reverted',
+            });
+            const executor = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: true,
+                venues: { cex, dex },
+            });
+
+            const result = await executor.execute(makeCycle());
+
+            expect(result.state).toBe(ExecutorState.FAILED);
+            expect(result.error).toContain('Cycle leg 2 failed: reverted');
+            expect(cex.unwindHandlers).toHaveBeenCalledWith(
+                expect.objectContaining({ pair: 'ETH/USDT', side: 'sell', size: 1 }),
+                expect.any(Number),
+            );
+            expect(market).toHaveBeenCalledWith(1);
+            expect(result.unwind?.flattened).toBe(true);
+            expect(cex.execute).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    test('test_dex_arb_signal_is_rejected', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+        });
+
+        const result = await executor.execute(makeSignal({ direction: Direction.DEX_ARB }));
+
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(result.error).toBe('DEX arb signals need an atomic executor');
+        expect(exchange.createLimitIocOrder).not.toHaveBeenCalled();
     });
 
     test('test_replay_protection', async () => {
@@ -169,4 +859,399 @@ describe('Executor', () => {
         expect(second.state).toBe(ExecutorState.FAILED);
         expect(second.error).toBe('Duplicate signal');
     });
+
+    test('test_rejected_signals_have_no_submitted_leg', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            maxOpenPositions: 0,
+        });
+
+        const rejected = await executor.execute(makeSignal());
+
+        expect(rejected.error).toBe('Max open positions reached (0)');
+        expect(legSubmitted(rejected)).toBe(false);
+    });
+
+    test('test_maker_without_edge_has_no_submitted_leg', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            simulation: { cexLatencyMs: 0, dexLatencyMs: 0 },
+            executionMode: 'maker',
+            maker: { makerFeeBps: 0, gasCostUsd: 1_000_000, minEdgeBps: 5 },
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.error).toBe('No maker edge');
+        expect(result.leg1Venue).toBe('');
+        expect(legSubmitted(result)).toBe(false);
+    });
+
+    test('test_concurrent_same_pair_is_locked', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            maxOpenPositions: 2,
+        });
+
+        const [first, second] = await executor.executeAll([
+            makeSignal({ signalId: 'sig-a' }),
+            makeSignal({ signalId: 'sig-b' }),
+        ]);
+
+        expect(first.state).toBe(ExecutorState.DONE);
+        expect(second.state).toBe(ExecutorState.FAILED);
+        expect(second.error).toBe('Locked: pair:ETH/USDT held by sig-a');
+        expect(executor.openPositions()).toHaveLength(0);
+    });
+
+    test('test_concurrent_independent_pairs_run_in_parallel', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+            maxOpenPositions: 2,
+        });
+
+        const pending = executor.executeAll([
+            makeSignal({ signalId: 'sig-a' }),
+            makeSignal({
+                signalId: 'sig-b',
+                pair: 'ETH/USDC',
+                direction: Direction.BUY_DEX_SELL_CEX,
+                cexPrice: 2010,
+                dexPrice: 2000,
+            }),
+        ]);
+        expect(executor.openPositions().map((c) => c.signal.signalId)).toEqual(['sig-a', 'sig-b']);
+
+        const results = await pending;
+        expect(results.map((r) => r.error)).not.toContainEqual(expect.stringMatching(/Locked/));
+    });
+
+    test('test_max_open_positions_enforced', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: false,
+            simulationMode: true,
+        });
+
+        const [, second] = await executor.executeAll([
+            makeSignal({ signalId: 'sig-a' }),
+            makeSignal({
+                signalId: 'sig-b',
+                pair: 'BTC/USDC',
+                direction: Direction.BUY_DEX_SELL_CEX,
+            }),
+        ]);
+
+        expect(second.state).toBe(ExecutorState.FAILED);
+        expect(second.error).toBe('Max open positions reached (1)');
+    });
+
+    test('test_live_dex_leg_uses_swap_receipt', async () => {
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockResolvedValue({
+                txHash: '0xabc',
+                amountIn: 1_000_000_000_000_000_000n,
+                amountOut: 2_005_000_000n,
+            }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const executor = new Executor(
+            exchange,
+            pricing,
+            inventory,
+            { useFlashbots: false, simulationMode: false },
+            swapper,
+        );
+        const signal = makeSignal();
+        const route = new Route([], []);
+
+        exchange.createLimitIocOrder.mockResolvedValue({
+            id: 'ord-1',
+            status: 'filled',
+            avg_fill_price: new Decimal(2000),
+            amount_filled: new Decimal(1),
+            fee: new Decimal(2),
+            fee_asset: 'USDT',
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricing.fetchGasPriceGwei.mockResolvedValue(1n);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(
+                route,
+                10n ** 18n,
+                2_010_000_000n,
+                2_010_000_000n,
+                150_000n,
+                Date.now() / 1000,
+            ),
+        );
+
+        const result = await executor.execute(signal);
+
+        expect(swapper.swap).toHaveBeenCalledWith(
+            route,
+            expect.objectContaining({
+                amountIn: 1_000_000_000_000_000_000n,
+                amountOutMin: 1_999_950_000n,
+                to: '0x1111111111111111111111111111111111111111',
+            }),
+            expect.any(Function),
+        );
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg2TxHash).toBe('0xabc');
+        expect(result.leg2FillPrice).toBeCloseTo(2005);
+        expect(result.leg2FillSize).toBe(1);
+        expect(result.fees.cexFee).toBe(2);
+        expect(result.fees.dexFee).toBeCloseTo(6.015);
+        expect(result.fees.gasCost).toBeCloseTo(0.1);
+        expect(result.actualNetPnl).toBeCloseTo(5 - 2 - 0.1);
+    });
+
+    test('test_flashbots_bundle_not_included_costs_nothing', async () => {
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            signSwap: jest.fn().mockResolvedValue({ signedTx: '0xsigned', txHash: '0xbundle' }),
+            fetchFill: jest.fn(),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const submitter = {
+            submit: jest.fn().mockResolvedValue({
+                included: false,
+                blockNumber: null,
+                targetBlocks: [101, 102, 103],
+                txHashes: ['0xbundle'],
+                error: 'Bundle not included in blocks 101-103',
+            }),
+        } as unknown as jest.Mocked<BundleSubmitter>;
+        const executor = new Executor(
+            exchange,
+            pricing,
+            inventory,
+            {
+                useFlashbots: true,
+                simulationMode: false,
+                circuitBreaker: { failureThreshold: 1 },
+            },
+            swapper,
+            submitter,
+        );
+        const route = new Route([], []);
+
+        pricing.fetchGasPriceGwei.mockResolvedValue(1n);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(
+                route,
+                10n ** 18n,
+                2_010_000_000n,
+                2_010_000_000n,
+                150_000n,
+                Date.now() / 1000,
+            ),
+        );
+
+        const result = await executor.execute(makeSignal());
+
+        expect(submitter.submit).toHaveBeenCalledWith(['0xsigned'], ['0xbundle']);
+        expect(swapper.fetchFill).not.toHaveBeenCalled();
+        expect(exchange.createLimitIocOrder).not.toHaveBeenCalled();
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(result.error).toBe('Bundle not included in blocks 101-103');
+        expect(result.leg1OrderId).toBe('0xbundle');
+        expect(executor.openCircuitBreakers()).toEqual([]);
+    });
+
+    test('test_flashbots_bundle_included_uses_receipt_fill', async () => {
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            signSwap: jest.fn().mockResolvedValue({ signedTx: '0xsigned', txHash: '0xbundle' }),
+            fetchFill: jest.fn().mockResolvedValue({
+                txHash: '0xbundle',
+                amountIn: 1_000_000_000_000_000_000n,
+                amountOut: 2_005_000_000n,
+                receipt: new TransactionReceipt({
+                    txHash: '0xbundle',
+                    blockNumber: 102,
+                    status: true,
+                    gasUsed: 100_000n,
+                    effectiveGasPrice: 10_000_000_000n,
+                    logs: [],
+                }),
+            }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const submitter = {
+            submit: jest.fn().mockResolvedValue({
+                included: true,
+                blockNumber: 102,
+                targetBlocks: [101, 102, 103],
+                txHashes: ['0xbundle'],
+                error: null,
+            }),
+        } as unknown as jest.Mocked<BundleSubmitter>;
+        const executor = new Executor(
+            exchange,
+            pricing,
+            inventory,
+            { useFlashbots: true, simulationMode: false },
+            swapper,
+            submitter,
+        );
+        const route = new Route([], []);
+
+        exchange.createLimitIocOrder.mockResolvedValue({
+            id: 'ord-1',
+            status: 'filled',
+            avg_fill_price: new Decimal(2000),
+            amount_filled: new Decimal(1),
+            fee: new Decimal(0.001),
+            fee_asset: 'ETH',
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricing.fetchGasPriceGwei.mockResolvedValue(1n);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(
+                route,
+                10n ** 18n,
+                2_010_000_000n,
+                2_010_000_000n,
+                150_000n,
+                Date.now() / 1000,
+            ),
+        );
+
+        const result = await executor.execute(makeSignal());
+
+        expect(swapper.fetchFill).toHaveBeenCalledWith('0xbundle', route);
+        expect(result.state).toBe(ExecutorState.DONE);
+        expect(result.leg1OrderId).toBe('0xbundle');
+        expect(result.leg1FillPrice).toBeCloseTo(2005);
+        expect(result.leg1FillSize).toBe(1);
+        expect(result.fees.cexFee).toBeCloseTo(2);
+        expect(result.fees.gasCost).toBeCloseTo(2.005);
+        expect(result.actualNetPnl).toBeCloseTo(5 - 2 - 2.005);
+    });
+
+    test('test_live_dex_leg_without_swapper_fails', async () => {
+        const executor = new Executor(exchange, pricing, inventory, {
+            useFlashbots: true,
+            simulationMode: false,
+        });
+
+        const result = await executor.execute(makeSignal());
+
+        expect(result.state).toBe(ExecutorState.FAILED);
+        expect(result.error).toBe('DEX swapper not configured');
+    });
+
+    describe('recovery', () => {
+        let dir: string;
+        let journalPath: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'executor-'));
+            journalPath = path.join(dir, 'journal.jsonl');
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        test('test_journal_records_transitions', async () => {
+            const executor = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: true,
+                journalPath,
+            });
+
+            await executor.execute(makeSignal());
+
+            const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+            const states = lines.map((line) => JSON.parse(line).state);
+            expect(states).toEqual(
+                expect.arrayContaining([
+                    ExecutorState.LEG1_PENDING,
+                    ExecutorState.LEG1_FILLED,
+                    ExecutorState.LEG2_PENDING,
+                    ExecutorState.DONE,
+                ]),
+            );
+            expect(await executor.recover()).toEqual([]);
+            expect(fs.readFileSync(journalPath, 'utf8')).toBe('');
+        });
+
+        test('test_recover_unwinds_naked_leg1', async () => {
+            const crashed = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: false,
+                journalPath,
+            });
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const crashedInternal = crashed as any;
+            const context = crashedInternal.createContext(makeSignal({ signalId: 'sig-crash' }));
+            context.leg1Venue = 'cex';
+            context.leg1OrderId = 'ord-1';
+            context.leg1FillPrice = 2000;
+            context.leg1FillSize = 1;
+            crashedInternal.transition(context, ExecutorState.LEG1_FILLED);
+
+            exchange.createLimitIocOrder.mockResolvedValue(makeOrder('expired', 0));
+            exchange.createMarketOrder.mockResolvedValue(makeOrder('filled', 1));
+            const executor = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: false,
+                journalPath,
+                unwind: { retryDelayMs: 0, attemptsPerStep: 1 },
+            });
+
+            const recovered = await executor.recover();
+
+            expect(recovered).toHaveLength(1);
+            expect(recovered[0].state).toBe(ExecutorState.FAILED);
+            expect(recovered[0].error).toBe('Recovered - unwound');
+            expect(exchange.createLimitIocOrder).toHaveBeenCalledWith(
+                'ETH/USDT',
+                'sell',
+                1,
+                1999 * (1 - 0.002),
+            );
+            expect(exchange.createMarketOrder).toHaveBeenCalledWith('ETH/USDT', 'sell', 1);
+            // Settled by recovery, so compacted out of the journal.
+            expect(new ExecutionJournal(journalPath).latest()).toEqual([]);
+        });
+
+        test('test_recover_completes_pending_cex_leg', async () => {
+            const crashed = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: false,
+                journalPath,
+            });
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const crashedInternal = crashed as any;
+            const context = crashedInternal.createContext(makeSignal({ signalId: 'sig-crash' }));
+            context.leg1Venue = 'cex';
+            context.leg1OrderId = 'ord-1';
+            crashedInternal.transition(context, ExecutorState.LEG1_PENDING);
+
+            exchange.fetchOrderStatus.mockResolvedValue({
+                avg_fill_price: new Decimal(2000),
+                amount_filled: new Decimal(0),
+                fee: new Decimal(0),
+                fee_asset: 'USDT',
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            } as any);
+            const executor = new Executor(exchange, pricing, inventory, {
+                useFlashbots: false,
+                simulationMode: false,
+                journalPath,
+            });
+
+            const recovered = await executor.recover();
+
+            expect(exchange.fetchOrderStatus).toHaveBeenCalledWith('ord-1', 'ETH/USDT');
+            expect(recovered[0].state).toBe(ExecutorState.FAILED);
+            expect(recovered[0].error).toBe('Recovered - leg1 not filled');
+            expect(exchange.createMarketOrder).not.toHaveBeenCalled();
+        });
+    });
 });
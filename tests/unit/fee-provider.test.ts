@@ -0,0 +1,79 @@
+import Decimal from 'decimal.js';
+import { FeeProvider } from '../../src/strategy/feeProvider';
+import { FeeStructure } from '../../src/strategy/fees';
+import { ChainClient } from '../../src/chain/ChainClient';
+import { GasPrice } from '../../src/chain/types/GasPrice';
+import { ExchangeClient } from '../../src/exchange/ExchangeClient';
+import { PricingEngine } from '../../src/pricing/PricingEngine';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDC,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 6n,
+    25n,
+);
+
+describe('FeeProvider', () => {
+    const fallback = new FeeStructure(10, 30, 5, 2);
+
+    let exchange: jest.Mocked<ExchangeClient>;
+    let chain: jest.Mocked<ChainClient>;
+    let pricing: jest.Mocked<PricingEngine>;
+
+    beforeEach(() => {
+        exchange = {
+            getTradingFees: jest.fn().mockResolvedValue({
+                maker: new Decimal(0.0001),
+                taker: new Decimal(0.00075),
+            }),
+            fetchOrderBook: jest.fn().mockResolvedValue({ mid_price: new Decimal(2000) }),
+        } as unknown as jest.Mocked<ExchangeClient>;
+        chain = {
+            getGasPrice: jest.fn().mockResolvedValue(new GasPrice(10n ** 10n, 0n, 0n, 0n)),
+        } as unknown as jest.Mocked<ChainClient>;
+        pricing = {
+            getPool: jest.fn().mockReturnValue(POOL),
+        } as unknown as jest.Mocked<PricingEngine>;
+    });
+
+    test('prices fees from the account tier, pool fee and gas in USD', async () => {
+        const provider = new FeeProvider(exchange, chain, pricing, fallback);
+
+        const fees = await provider.feesFor('WETH/USDC', WETH, USDC);
+
+        expect(fees.cexTakerBps).toBeCloseTo(7.5);
+        expect(fees.cexMakerBps).toBeCloseTo(1);
+        expect(fees.dexSwapBps).toBe(25);
+        // 250k gas for one hop at 12 gwei (base fee with buffer) and ETH at 2000.
+        expect(fees.gasCostUsd).toBeCloseTo(6);
+    });
+
+    test('caches trading fees between refreshes', async () => {
+        const provider = new FeeProvider(exchange, chain, pricing, fallback, {
+            gasRefreshSeconds: 0,
+        });
+
+        await provider.feesFor('WETH/USDC', WETH, USDC);
+        await provider.feesFor('WETH/USDC', WETH, USDC);
+
+        expect(exchange.getTradingFees).toHaveBeenCalledTimes(1);
+        expect(chain.getGasPrice).toHaveBeenCalledTimes(2);
+    });
+
+    test('falls back to static fees when sources are unavailable', async () => {
+        exchange.getTradingFees.mockRejectedValue(new Error('down'));
+        chain.getGasPrice.mockRejectedValue(new Error('rpc down'));
+        const provider = new FeeProvider(exchange, chain, pricing, fallback);
+
+        const fees = await provider.feesFor('WETH/USDC', WETH, USDC);
+
+        expect(fees).toEqual(new FeeStructure(10, 25, 5, 2));
+    });
+});
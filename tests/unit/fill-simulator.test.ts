@@ -0,0 +1,112 @@
+import Decimal from 'decimal.js';
+import { FillSimulator } from '../../src/executor/simulation';
+import { ExchangeClient } from '../../src/exchange/ExchangeClient';
+import { PricingEngine } from '../../src/pricing/PricingEngine';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDC,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 6n,
+);
+
+const book = {
+    symbol: 'ETH/USDC',
+    timestamp: 0,
+    bids: [
+        [new Decimal(1999), new Decimal(1)],
+        [new Decimal(1990), new Decimal(10)],
+    ],
+    asks: [
+        [new Decimal(2000), new Decimal(0.5)],
+        [new Decimal(2001), new Decimal(0.3)],
+        [new Decimal(2010), new Decimal(10)],
+    ],
+    best_bid: [new Decimal(1999), new Decimal(1)],
+    best_ask: [new Decimal(2000), new Decimal(0.5)],
+    mid_price: new Decimal(1999.5),
+    spread_bps: new Decimal(5),
+};
+
+describe('FillSimulator', () => {
+    let exchange: jest.Mocked<ExchangeClient>;
+    let pricing: jest.Mocked<PricingEngine>;
+
+    beforeEach(() => {
+        exchange = {
+            fetchOrderBook: jest.fn().mockResolvedValue(book),
+        } as unknown as jest.Mocked<ExchangeClient>;
+        pricing = {
+            getPool: jest.fn().mockReturnValue(POOL),
+        } as unknown as jest.Mocked<PricingEngine>;
+    });
+
+    test('walks the book and stops at the IOC limit', async () => {
+        const sim = new FillSimulator(exchange, pricing, { cexLatencyMs: 0 });
+
+        const fill = await sim.fillCex('ETH/USDC', 'buy', 1, 2002);
+
+        expect(fill.success).toBe(false);
+        expect(fill.error).toBe('partially_filled');
+        expect(fill.filled).toBeCloseTo(0.8);
+        expect(fill.price).toBeCloseTo((2000 * 0.5 + 2001 * 0.3) / 0.8);
+    });
+
+    test('fills fully across levels within the limit', async () => {
+        const sim = new FillSimulator(exchange, pricing, { cexLatencyMs: 0 });
+
+        const fill = await sim.fillCex('ETH/USDC', 'sell', 2, 1980);
+
+        expect(fill.success).toBe(true);
+        expect(fill.filled).toBe(2);
+        expect(fill.price).toBeCloseTo((1999 + 1990) / 2);
+    });
+
+    test('applies AMM math against current reserves', async () => {
+        const sim = new FillSimulator(exchange, pricing, { dexLatencyMs: 0 });
+        const amountIn = 10n ** 18n;
+
+        const fill = await sim.fillDex(WETH, USDC, amountIn, 0n);
+
+        expect(fill.success).toBe(true);
+        expect(fill.amountOut).toBe(POOL.getAmountOut(amountIn, WETH));
+    });
+
+    test('reverts when output is below amountOutMin', async () => {
+        const sim = new FillSimulator(exchange, pricing, { dexLatencyMs: 0 });
+
+        const fill = await sim.fillDex(WETH, USDC, 10n ** 18n, 2_000n * 10n ** 6n);
+
+        expect(fill.success).toBe(false);
+        expect(fill.error).toBe('INSUFFICIENT_OUTPUT_AMOUNT');
+    });
+
+    test('injects failures with the configured probability', async () => {
+        const sim = new FillSimulator(exchange, pricing, {
+            cexLatencyMs: 0,
+            dexLatencyMs: 0,
+            cexFailureProbability: 0.5,
+            dexFailureProbability: 0.5,
+            random: () => 0.4,
+        });
+
+        expect((await sim.fillCex('ETH/USDC', 'buy', 1, 2100)).error).toBe('Simulated CEX reject');
+        expect((await sim.fillDex(WETH, USDC, 10n ** 18n, 0n)).error).toBe('Simulated DEX revert');
+        expect(exchange.fetchOrderBook).not.toHaveBeenCalled();
+    });
+
+    test('fails when no pool is loaded for the pair', async () => {
+        pricing.getPool.mockReturnValue(null);
+        const sim = new FillSimulator(exchange, pricing, { dexLatencyMs: 0 });
+
+        const fill = await sim.fillDex(WETH, USDC, 10n ** 18n, 0n);
+
+        expect(fill.error).toBe('No pool for WETH/USDC');
+    });
+});
@@ -0,0 +1,88 @@
+import { Wallet } from 'ethers';
+import { BundleSubmitter } from '../../src/executor/flashbots';
+import { ChainClient } from '../../src/chain/ChainClient';
+import { WalletManager } from '../../src/core/WalletManager';
+import { TransactionReceipt } from '../../src/core/types/TransactionReceipt';
+import { LocalRelay } from '../helpers/localRelay';
+
+const TX_HASH = '0x' + 'ab'.repeat(32);
+const SIGNED_TX = '0x02f8deadbeef';
+
+const makeChain = (startBlock: number, includedIn: number | null) => {
+    let block = startBlock;
+    return {
+        getBlockNumber: jest.fn(async () => block++),
+        getReceipt: jest.fn(async () =>
+            includedIn !== null && block > includedIn
+                ? new TransactionReceipt({
+                      txHash: TX_HASH,
+                      blockNumber: includedIn,
+                      status: true,
+                      gasUsed: 100_000n,
+                      effectiveGasPrice: 1n,
+                      logs: [],
+                  })
+                : null,
+        ),
+    } as unknown as jest.Mocked<ChainClient>;
+};
+
+describe('BundleSubmitter', () => {
+    const relay = new LocalRelay();
+    const authSigner = new WalletManager(Wallet.createRandom().privateKey);
+
+    beforeAll(async () => {
+        await relay.start();
+    });
+
+    afterAll(async () => {
+        await relay.stop();
+    });
+
+    beforeEach(() => {
+        relay.bundles.length = 0;
+        relay.callBundleError = null;
+    });
+
+    test('simulates then sends the bundle for each target block', async () => {
+        const chain = makeChain(100, 102);
+        const submitter = new BundleSubmitter(relay.url, authSigner, chain, { pollInterval: 0 });
+
+        const result = await submitter.submit([SIGNED_TX], [TX_HASH]);
+
+        expect(result.included).toBe(true);
+        expect(result.blockNumber).toBe(102);
+        expect(result.targetBlocks).toEqual([101, 102, 103]);
+        expect(relay.bundles[0]).toMatchObject({ method: 'eth_callBundle', blockNumber: 101 });
+        expect(relay.sent().map((b) => b.blockNumber)).toEqual([101, 102, 103]);
+        expect(relay.sent().every((b) => b.signer === authSigner.address)).toBe(true);
+        expect(relay.sent()[0].txs).toEqual([SIGNED_TX]);
+    });
+
+    test('reports not included once target blocks have passed', async () => {
+        const chain = makeChain(100, null);
+        const submitter = new BundleSubmitter(relay.url, authSigner, chain, {
+            pollInterval: 0,
+            targetBlocks: 2,
+        });
+
+        const result = await submitter.submit([SIGNED_TX], [TX_HASH]);
+
+        expect(result.included).toBe(false);
+        expect(result.error).toBe('Bundle not included in blocks 101-102');
+        expect(relay.sent()).toHaveLength(2);
+    });
+
+    test('does not send a bundle that fails simulation', async () => {
+        relay.callBundleError = 'execution reverted';
+        const chain = makeChain(100, null);
+        const submitter = new BundleSubmitter(relay.url, authSigner, chain, { pollInterval: 0 });
+
+        const result = await submitter.submit([SIGNED_TX], [TX_HASH]);
+
+        expect(result.included).toBe(false);
+        expect(result.error).toBe('eth_callBundle failed: execution reverted');
+        expect(relay.sent()).toHaveLength(0);
+        expect(chain.getReceipt).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,62 @@
+import Decimal from 'decimal.js';
+import { MakerQuoter, Touch } from '../../src/executor/maker';
+import { Direction } from '../../src/strategy/signal';
+
+const touch = (bid: number, ask: number): Touch => ({
+    bid: new Decimal(bid),
+    ask: new Decimal(ask),
+});
+
+describe('MakerQuoter', () => {
+    const quoter = new MakerQuoter({ makerFeeBps: 2, gasCostUsd: 0.5, minEdgeBps: 5 });
+
+    test('rests at the worst price that still clears the hedge by the min edge', () => {
+        const quote = quoter.quote(
+            Direction.BUY_CEX_SELL_DEX,
+            1,
+            new Decimal(2004),
+            touch(1990, 2010),
+        );
+
+        expect(quote!.price.toNumber()).toBeCloseTo((2004 - 0.5) / 1.0007, 6);
+        expect(quote!.price.toNumber()).toBeLessThan(2010);
+        expect(quote!.edgeBps).toBeCloseTo(5, 6);
+    });
+
+    test('joins the touch instead of crossing the book', () => {
+        const buy = quoter.quote(
+            Direction.BUY_CEX_SELL_DEX,
+            1,
+            new Decimal(2004),
+            touch(1995, 1996),
+        );
+        const sell = quoter.quote(
+            Direction.BUY_DEX_SELL_CEX,
+            1,
+            new Decimal(2036),
+            touch(2060, 2061),
+        );
+
+        expect(buy!.price.toNumber()).toBe(1995);
+        expect(buy!.edgeBps).toBeGreaterThan(5);
+        expect(sell!.price.toNumber()).toBe(2061);
+        expect(sell!.edgeBps).toBeGreaterThan(5);
+    });
+
+    test('cancels once the hedge moves against the resting price', () => {
+        const quote = quoter.quote(
+            Direction.BUY_CEX_SELL_DEX,
+            1,
+            new Decimal(2004),
+            touch(1990, 2010),
+        )!;
+
+        expect(quoter.shouldCancel(Direction.BUY_CEX_SELL_DEX, quote, new Decimal(2004))).toBe(
+            false,
+        );
+        expect(quoter.shouldCancel(Direction.BUY_CEX_SELL_DEX, quote, new Decimal(2002))).toBe(
+            true,
+        );
+        expect(quoter.shouldCancel(Direction.BUY_CEX_SELL_DEX, quote, null)).toBe(true);
+    });
+});
@@ -0,0 +1,54 @@
+import { PoolArbSolver } from '../../src/strategy/poolArb';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const WETH = new Token('WETH', 18, new Address('0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'));
+const USDC = new Token('USDC', 6, new Address('0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'));
+
+const makePool = (address: string, weth: bigint, usdc: bigint, feeBps: bigint = 30n) =>
+    new UniswapV2Pair(
+        new Address(address),
+        USDC,
+        WETH,
+        usdc * 10n ** 6n,
+        weth * 10n ** 18n,
+        feeBps,
+    );
+
+const CHEAP = makePool('0x1111111111111111111111111111111111111111', 1_000n, 1_960_000n);
+const DEAR = makePool('0x2222222222222222222222222222222222222222', 500n, 1_020_000n, 25n);
+
+const roundTrip = (amountIn: bigint) =>
+    DEAR.getAmountOut(CHEAP.getAmountOut(amountIn, USDC), WETH) - amountIn;
+
+describe('PoolArbSolver', () => {
+    const solver = new PoolArbSolver();
+
+    test('closed form lands on the brute-force optimum', () => {
+        const quote = solver.solve(CHEAP, DEAR, USDC)!;
+        const profit = quote.amountOut - quote.amountIn;
+
+        expect(quote.baseToken).toBe(WETH);
+        expect(profit).toBe(roundTrip(quote.amountIn));
+        for (const step of [10n ** 8n, 10n ** 6n]) {
+            expect(roundTrip(quote.amountIn + step)).toBeLessThanOrEqual(profit);
+            expect(roundTrip(quote.amountIn - step)).toBeLessThanOrEqual(profit);
+        }
+    });
+
+    test('best picks the profitable direction and respects the input cap', () => {
+        const quote = solver.best([DEAR, CHEAP], USDC, 1_000n * 10n ** 6n)!;
+
+        expect(quote.buyPool).toBe(CHEAP);
+        expect(quote.sellPool).toBe(DEAR);
+        expect(quote.amountIn).toBe(1_000n * 10n ** 6n);
+        expect(solver.solve(DEAR, CHEAP, USDC)).toBeNull();
+    });
+
+    test('returns null when the pools agree within fees', () => {
+        const twin = makePool('0x3333333333333333333333333333333333333333', 500n, 981_000n);
+
+        expect(solver.best([CHEAP, twin], USDC)).toBeNull();
+    });
+});
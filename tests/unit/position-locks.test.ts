@@ -0,0 +1,58 @@
+import { PositionLocks } from '../../src/executor/locks';
+import { Direction, Signal } from '../../src/strategy/signal';
+
+const makeSignal = (pair: string, direction: Direction): Signal =>
+    new Signal({
+        signalId: 'sig-1',
+        pair,
+        direction,
+        cexPrice: 2000,
+        dexPrice: 2010,
+        spreadBps: 50,
+        size: 1,
+        expectedGrossPnl: 10,
+        expectedFees: 2,
+        expectedNetPnl: 8,
+        score: 1,
+        expiry: Date.now() / 1000 + 60,
+        inventoryOk: true,
+        withinLimits: true,
+    });
+
+describe('PositionLocks', () => {
+    test('keys cover the pair and the balances each direction spends', () => {
+        expect(PositionLocks.keysFor(makeSignal('eth/usdt', Direction.BUY_CEX_SELL_DEX))).toEqual([
+            'pair:ETH/USDT',
+            'asset:cex:USDT',
+            'asset:dex:ETH',
+        ]);
+        expect(PositionLocks.keysFor(makeSignal('ETH/USDT', Direction.BUY_DEX_SELL_CEX))).toEqual([
+            'pair:ETH/USDT',
+            'asset:dex:USDT',
+            'asset:cex:ETH',
+        ]);
+    });
+
+    test('acquires all keys or none', () => {
+        const locks = new PositionLocks();
+
+        expect(locks.tryAcquire('a', ['pair:ETH/USDT', 'asset:cex:USDT'])).toBeNull();
+        expect(locks.tryAcquire('b', ['pair:BTC/USDT', 'asset:cex:USDT'])).toBe('asset:cex:USDT');
+
+        expect(locks.holder('asset:cex:USDT')).toBe('a');
+        expect(locks.holder('pair:BTC/USDT')).toBeNull();
+        expect(locks.size).toBe(2);
+    });
+
+    test('release frees only the owner keys', () => {
+        const locks = new PositionLocks();
+        locks.tryAcquire('a', ['pair:ETH/USDT']);
+        locks.tryAcquire('b', ['pair:BTC/USDT']);
+
+        locks.release('a');
+
+        expect(locks.holder('pair:ETH/USDT')).toBeNull();
+        expect(locks.holder('pair:BTC/USDT')).toBe('b');
+        expect(locks.tryAcquire('c', ['pair:ETH/USDT'])).toBeNull();
+    });
+});
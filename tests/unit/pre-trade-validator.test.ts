@@ -0,0 +1,55 @@
+import { PreTradeValidator } from '../../src/strategy/preTradeValidator';
+
+describe('PreTradeValidator', () => {
+    test('checks deviation against the median so one bad tick does not skew it', () => {
+        const validator = new PreTradeValidator();
+        for (const [i, price] of [2000, 2002, 4000, 1999, 2001].entries()) {
+            validator.recordPrice('ETH/USDT', 'cex', price, 1_000 + i);
+        }
+
+        expect(validator.validatePriceFeed(2010, 'ETH/USDT', 'cex')).toEqual([true, 'OK']);
+        expect(validator.validatePriceFeed(2200, 'ETH/USDT', 'cex')[0]).toBe(false);
+        // The DEX side has no history yet, so anything passes.
+        expect(validator.validatePriceFeed(2200, 'ETH/USDT', 'dex')[0]).toBe(true);
+    });
+
+    test('drops samples that fall out of the window', () => {
+        const validator = new PreTradeValidator({ windowSeconds: 60, minSamples: 1 });
+        validator.recordPrice('ETH/USDT', 'cex', 1000, 0);
+        validator.recordPrice('ETH/USDT', 'cex', 2000, 100);
+
+        expect(validator.validatePriceFeed(2000, 'ETH/USDT', 'cex')).toEqual([true, 'OK']);
+    });
+
+    test('flags a feed that stopped updating', () => {
+        const validator = new PreTradeValidator({ staleAfterSeconds: 30 });
+        validator.recordPrice('ETH/USDT', 'cex', 2000, 1_000);
+        validator.recordPrice('ETH/USDT', 'dex', 2001, 960);
+
+        const [ok, reason] = validator.validateFeeds('ETH/USDT', 1_000);
+
+        expect(ok).toBe(false);
+        expect(reason).toBe('Stale DEX feed for ETH/USDT: 40.0s');
+        expect(validator.validateFeeds('BTC/USDT', 1_000)).toEqual([
+            false,
+            'No CEX prices for BTC/USDT',
+        ]);
+    });
+
+    test('flags CEX/DEX divergence on the smoothed prices', () => {
+        const validator = new PreTradeValidator({ emaHalfLifeSeconds: 10, maxDivergenceBps: 100 });
+        validator.recordPrice('ETH/USDT', 'cex', 2000, 0);
+        validator.recordPrice('ETH/USDT', 'dex', 2000, 0);
+
+        // One half-life moves the EMA halfway: 2100 -> 2050, 250bps from the CEX.
+        validator.recordPrice('ETH/USDT', 'dex', 2100, 10);
+        expect(validator.getEma('ETH/USDT', 'dex')).toBeCloseTo(2050);
+        expect(validator.validateFeeds('ETH/USDT', 10)[1]).toBe(
+            'CEX/DEX diverge 250bps on ETH/USDT (max 100)',
+        );
+
+        validator.recordPrice('ETH/USDT', 'cex', 2040, 40);
+        validator.recordPrice('ETH/USDT', 'dex', 2040, 40);
+        expect(validator.validateFeeds('ETH/USDT', 40)).toEqual([true, 'OK']);
+    });
+});
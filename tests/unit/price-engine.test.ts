@@ -112,6 +112,74 @@ describe('PricingEngine', () => {
             expect(consoleSpy).toHaveBeenCalled();
             consoleSpy.mockRestore();
         });
+
+        it('should keep the last successful refresh time when a refresh fails', async () => {
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+            const pair = { address: PAIR_ADDR, checksum: PAIR_ADDR.checksum };
+            (UniswapV2Pair.fromChain as jest.Mock).mockResolvedValue(pair);
+            await engine.loadPools([PAIR_ADDR]);
+            expect(engine.poolRefreshedAt(PAIR_ADDR)).toBe(1_000);
+
+            nowSpy.mockReturnValue(5_000_000);
+            await engine.refreshPool(PAIR_ADDR);
+            expect(engine.poolRefreshedAt(PAIR_ADDR)).toBe(5_000);
+
+            const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+            (UniswapV2Pair.fromChain as jest.Mock).mockRejectedValue(new Error('Refresh failed'));
+            nowSpy.mockReturnValue(9_000_000);
+            await engine.refreshPool(PAIR_ADDR);
+
+            expect(engine.poolRefreshedAt(PAIR_ADDR)).toBe(5_000);
+            consoleSpy.mockRestore();
+            nowSpy.mockRestore();
+        });
+    });
+
+    describe('getPools', () => {
+        it('should return every loaded pool for the pair', async () => {
+            const TOKEN_C = new Token(
+                'TKC',
+                18,
+                new Address('0x4444444444444444444444444444444444444444'),
+            );
+            const SUSHI_ADDR = new Address('0x5555555555555555555555555555555555555555');
+            const makePair = (address: Address, token1: Token) => ({
+                address,
+                token0: TOKEN_A,
+                token1,
+            });
+            const uni = makePair(PAIR_ADDR, TOKEN_B);
+            const sushi = makePair(SUSHI_ADDR, TOKEN_B);
+            const other = makePair(
+                new Address('0x6666666666666666666666666666666666666666'),
+                TOKEN_C,
+            );
+            (UniswapV2Pair.fromChain as jest.Mock)
+                .mockResolvedValueOnce(uni)
+                .mockResolvedValueOnce(sushi)
+                .mockResolvedValueOnce(other);
+
+            await engine.loadPools([PAIR_ADDR, SUSHI_ADDR, other.address]);
+
+            expect(engine.getPools(TOKEN_B, TOKEN_A)).toEqual([uni, sushi]);
+            expect(engine.getPool(TOKEN_A, TOKEN_B)).toBe(uni);
+            expect(engine.getPools(TOKEN_A, TOKEN_A)).toEqual([]);
+        });
+
+        it('should simulate a pool arb from the impersonated sender', async () => {
+            const pool = {} as UniswapV2Pair;
+            mockSimulator.simulatePoolArb = jest.fn().mockResolvedValue({ success: true });
+
+            await engine.simulatePoolArb(pool, pool, TOKEN_A, 1000n);
+
+            expect(mockSimulator.simulatePoolArb).toHaveBeenCalledWith(
+                pool,
+                pool,
+                TOKEN_A,
+                1000n,
+                new Address('0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'),
+            );
+        });
     });
 
     describe('getQuote', () => {
@@ -124,7 +192,7 @@ describe('PricingEngine', () => {
             (UniswapV2Pair.fromChain as jest.Mock).mockResolvedValue(mockPair);
             await engine.loadPools([PAIR_ADDR]);
 
-            mockRoute = {} as Route;
+            mockRoute = { getOutput: jest.fn().mockReturnValue(1_000_000n) } as unknown as Route;
         });
 
         it('should throw error if router is not initialized', async () => {
@@ -189,6 +257,12 @@ describe('PricingEngine', () => {
             expect(quote.gasEstimate).toBe(gasUsed);
             expect(quote.route).toBe(mockRoute);
             expect(quote.isValid).toBe(true);
+            expect(mockSimulator.simulateRoute).toHaveBeenCalledWith(
+                mockRoute,
+                amountIn,
+                expect.any(Address),
+                1_000_000n,
+            );
         });
 
         it('should mark quote as invalid if discrepancy is too high', async () => {
@@ -1,13 +1,22 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import Decimal from 'decimal.js';
-import { CircuitBreaker, ReplayProtection } from '../../src/executor/recovery';
+import {
+    BreakerState,
+    CircuitBreaker,
+    CircuitBreakerRegistry,
+    ReplayProtection,
+    classifyFailure,
+} from '../../src/executor/recovery';
 import { Signal, Direction } from '../../src/strategy/signal';
 
-const makeSignal = (id: string) =>
+const makeSignal = (id: string, overrides: { cexPrice?: number; sourceTimestamp?: number } = {}) =>
     new Signal({
         signalId: id,
         pair: 'ETH/USDT',
         direction: Direction.BUY_CEX_SELL_DEX,
-        cexPrice: new Decimal(100),
+        cexPrice: new Decimal(overrides.cexPrice ?? 100),
         dexPrice: new Decimal(99),
         spreadBps: 50,
         size: new Decimal(1),
@@ -18,9 +27,14 @@ const makeSignal = (id: string) =>
         expiry: Date.now() / 1000 + 60,
         inventoryOk: true,
         withinLimits: true,
+        sourceTimestamp: overrides.sourceTimestamp ?? 1_700_000_000_000,
     });
 
 describe('CircuitBreaker', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
     test('trips after threshold failures', () => {
         const cb = new CircuitBreaker({
             failureThreshold: 3,
@@ -48,6 +62,87 @@ describe('CircuitBreaker', () => {
 
         expect(cb.isOpen()).toBe(false);
     });
+
+    test('half-open admits limited probes and closes after success', () => {
+        const cb = new CircuitBreaker({ failureThreshold: 1, cooldownSeconds: 1 });
+        cb.recordFailure('timeout');
+        expect(cb.allowRequest()).toBe(false);
+
+        const originalNow = Date.now;
+        jest.spyOn(Date, 'now').mockImplementation(() => originalNow() + 2000);
+
+        expect(cb.allowRequest()).toBe(true);
+        expect(cb.currentState).toBe(BreakerState.HALF_OPEN);
+        expect(cb.allowRequest()).toBe(false);
+        expect(cb.isOpen()).toBe(true);
+
+        cb.recordSuccess();
+        expect(cb.currentState).toBe(BreakerState.CLOSED);
+        expect(cb.failureCounts()).toEqual({ timeout: 0, reject: 0, revert: 0 });
+    });
+
+    test('failed probe reopens the breaker', () => {
+        const cb = new CircuitBreaker({ failureThreshold: 1, cooldownSeconds: 1 });
+        cb.recordFailure('revert');
+
+        const originalNow = Date.now;
+        jest.spyOn(Date, 'now').mockImplementation(() => originalNow() + 2000);
+
+        expect(cb.allowRequest()).toBe(true);
+        cb.recordFailure('revert');
+        expect(cb.currentState).toBe(BreakerState.OPEN);
+        expect(cb.timeUntilReset()).toBeGreaterThan(0);
+    });
+
+    test('weights failures by kind', () => {
+        const cb = new CircuitBreaker({
+            failureThreshold: 2,
+            failureWeights: { reject: 0.5 },
+        });
+        cb.recordFailure('reject');
+        cb.recordFailure('reject');
+        cb.recordFailure('reject');
+        expect(cb.isOpen()).toBe(false);
+        cb.recordFailure('revert');
+        expect(cb.isOpen()).toBe(true);
+        expect(cb.failureCounts()).toEqual({ timeout: 0, reject: 3, revert: 1 });
+    });
+
+    test('classifies failures from executor errors', () => {
+        expect(classifyFailure('CEX timeout')).toBe('timeout');
+        expect(classifyFailure('Bundle not included')).toBe('timeout');
+        expect(classifyFailure('INSUFFICIENT_OUTPUT_AMOUNT - unwound')).toBe('revert');
+        expect(classifyFailure('DEX failed - unwound')).toBe('revert');
+        expect(classifyFailure('Insufficient balance')).toBe('reject');
+    });
+});
+
+describe('CircuitBreakerRegistry', () => {
+    let statePath: string;
+
+    beforeEach(() => {
+        statePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'breakers-')), 'state.json');
+    });
+
+    test('keeps separate breakers per venue and pair', () => {
+        const registry = new CircuitBreakerRegistry({ failureThreshold: 1 });
+        registry.recordFailure('dex', 'eth/usdt', 'revert');
+
+        expect(registry.isOpen('dex', 'ETH/USDT')).toBe(true);
+        expect(registry.isOpen('cex', 'ETH/USDT')).toBe(false);
+        expect(registry.isOpen('dex', 'BTC/USDT')).toBe(false);
+        expect(registry.openKeys()).toEqual(['dex:ETH/USDT']);
+    });
+
+    test('restores tripped breakers after restart', () => {
+        const registry = new CircuitBreakerRegistry({ failureThreshold: 1 }, statePath);
+        registry.recordFailure('cex', 'ETH/USDT', 'timeout');
+
+        const restored = new CircuitBreakerRegistry({ failureThreshold: 1 }, statePath);
+
+        expect(restored.isOpen('cex', 'ETH/USDT')).toBe(true);
+        expect(restored.get('cex', 'ETH/USDT').failureCounts().timeout).toBe(1);
+    });
 });
 
 describe('ReplayProtection', () => {
@@ -59,11 +154,33 @@ describe('ReplayProtection', () => {
         expect(rp.isDuplicate(s)).toBe(true);
     });
 
-    test('allows different signal_id', () => {
+    test('blocks the same opportunity under a different signal_id', () => {
+        const rp = new ReplayProtection(60);
+        rp.markExecuted(makeSignal('sig-1'));
+        expect(rp.isDuplicate(makeSignal('sig-2'))).toBe(true);
+    });
+
+    test('allows different economic content', () => {
         const rp = new ReplayProtection(60);
-        const s1 = makeSignal('sig-1');
-        const s2 = makeSignal('sig-2');
-        rp.markExecuted(s1);
-        expect(rp.isDuplicate(s2)).toBe(false);
+        rp.markExecuted(makeSignal('sig-1'));
+        expect(rp.isDuplicate(makeSignal('sig-2', { cexPrice: 101 }))).toBe(false);
+        expect(rp.isDuplicate(makeSignal('sig-3', { sourceTimestamp: 1_700_000_000_100 }))).toBe(
+            false,
+        );
+    });
+
+    test('survives a restart within the TTL', () => {
+        const statePath = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), 'replay-')),
+            'state.json',
+        );
+        new ReplayProtection(60, statePath).markExecuted(makeSignal('sig-1'));
+
+        expect(new ReplayProtection(60, statePath).isDuplicate(makeSignal('sig-2'))).toBe(true);
+
+        const originalNow = Date.now;
+        jest.spyOn(Date, 'now').mockImplementation(() => originalNow() + 61_000);
+        expect(new ReplayProtection(60, statePath).isDuplicate(makeSignal('sig-2'))).toBe(false);
+        jest.restoreAllMocks();
     });
 });
@@ -0,0 +1,239 @@
+import Decimal from 'decimal.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Address } from '../../src/core/types/Address';
+import { NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
+import { InventoryTracker, Venue } from '../../src/inventory/tracker';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+import { RiskLimits, RiskManager } from '../../src/strategy/riskManager';
+import { Direction, Signal } from '../../src/strategy/signal';
+
+const at = (iso: string) => Date.parse(iso) / 1000;
+
+const makeSignal = (overrides: Partial<ConstructorParameters<typeof Signal>[0]> = {}) =>
+    new Signal({
+        pair: 'ETH/USDT',
+        direction: Direction.BUY_CEX_SELL_DEX,
+        cexPrice: 2000,
+        dexPrice: 2010,
+        spreadBps: 50,
+        size: 0.001,
+        expectedGrossPnl: 1,
+        expectedFees: 0.1,
+        expectedNetPnl: 0.9,
+        score: 1,
+        expiry: Date.now() / 1000 + 60,
+        inventoryOk: true,
+        withinLimits: true,
+        ...overrides,
+    });
+
+const makeBook = (bids: [number, number][]): NormalizedOrderBook => {
+    const toLevels = (levels: [number, number][]): [Decimal, Decimal][] =>
+        levels.map(([price, qty]) => [new Decimal(price), new Decimal(qty)]);
+    return {
+        symbol: 'ETH/USDT',
+        timestamp: 0,
+        bids: toLevels(bids),
+        asks: toLevels([[2000, 10]]),
+        best_bid: toLevels(bids)[0],
+        best_ask: [new Decimal(2000), new Decimal(10)],
+        mid_price: new Decimal(2000),
+        spread_bps: new Decimal(0),
+    };
+};
+
+describe('RiskManager', () => {
+    let dir: string;
+    let now: number;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-'));
+        jest.spyOn(Date, 'now').mockImplementation(() => now * 1000);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('restores loss limits from disk after a restart', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const statePath = path.join(dir, 'risk.json');
+        const limits = new RiskLimits({ maxDailyLoss: 15 });
+        const first = new RiskManager(limits, 100, { statePath });
+        first.recordTrade(-10, now);
+        first.recordTrade(-6, now);
+
+        const restarted = new RiskManager(limits, 100, { statePath });
+
+        expect(restarted.dailyPnl).toBe(-16);
+        expect(restarted.currentCapital).toBe(84);
+        expect(restarted.peakCapital).toBe(100);
+        expect(restarted.consecutiveLosses).toBe(2);
+        expect(restarted.tradesThisHour).toBe(2);
+        expect(restarted.checkPreTrade(makeSignal())).toEqual([
+            false,
+            'Daily loss limit reached: -16.00',
+        ]);
+    });
+
+    test('rolls the day over at midnight in the configured zone', () => {
+        now = at('2024-01-15T20:00:00Z');
+        const risk = new RiskManager(new RiskLimits(), 100, { timeZone: 'America/New_York' });
+        risk.recordTrade(-4, now);
+
+        now = at('2024-01-16T04:30:00Z');
+        expect(risk.rollover()).toEqual({ daily: false, hourly: true });
+        expect(risk.dailyPnl).toBe(-4);
+
+        now = at('2024-01-16T05:00:00Z');
+        expect(risk.rollover()).toEqual({ daily: true, hourly: true });
+        expect(risk.dailyPnl).toBe(0);
+        expect(risk.consecutiveLosses).toBe(0);
+        expect(risk.currentCapital).toBe(96);
+    });
+
+    test('a restart on a later day starts with fresh daily limits', () => {
+        const statePath = path.join(dir, 'risk.json');
+        now = at('2024-01-15T23:00:00Z');
+        new RiskManager(new RiskLimits(), 100, { statePath }).recordTrade(-9, now);
+
+        now = at('2024-01-16T00:10:00Z');
+        const restarted = new RiskManager(new RiskLimits(), 100, { statePath });
+
+        expect(restarted.dailyPnl).toBe(0);
+        expect(restarted.currentCapital).toBe(91);
+        expect(JSON.parse(fs.readFileSync(statePath, 'utf8')).day).toBe('2024-01-16');
+    });
+
+    test('counts trades over a rolling hour', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const risk = new RiskManager(new RiskLimits({ maxTradesPerHour: 2 }), 100);
+        risk.recordTrade(1, at('2024-01-15T10:20:00Z'));
+        risk.recordTrade(1, at('2024-01-15T10:50:00Z'));
+
+        now = at('2024-01-15T11:10:00Z');
+        expect(risk.tradesThisHour).toBe(2);
+        expect(risk.checkPreTrade(makeSignal())).toEqual([false, 'Hourly trade limit reached']);
+
+        now = at('2024-01-15T11:25:00Z');
+        expect(risk.tradesThisHour).toBe(1);
+        expect(risk.checkPreTrade(makeSignal())).toEqual([true, 'OK']);
+    });
+
+    test('measures exposure as drift from target plus unhedged legs', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const risk = new RiskManager(new RiskLimits({ maxPositionPerToken: 30 }), 100);
+        const inventory = new InventoryTracker([Venue.BINANCE, Venue.WALLET]);
+        inventory.updateFromCex(Venue.BINANCE, {
+            ETH: { free: new Decimal('0.005'), locked: new Decimal(0) },
+        });
+        inventory.updateFromWallet(Venue.WALLET, { ETH: new Decimal('0.005') });
+        risk.setInventoryTargets(inventory);
+        inventory.updateFromWallet(Venue.WALLET, { ETH: new Decimal('0.009') });
+
+        // 0.004 above target and 0.003 bought by a first leg still awaiting its hedge.
+        const exposure = risk.netExposure(inventory, { ETH: 0.003 });
+
+        expect(exposure.ETH).toBeCloseTo(0.007, 9);
+        expect(risk.checkPreTrade(makeSignal({ size: 0.008 }), 0, { exposure })).toEqual([
+            true,
+            'OK',
+        ]);
+        expect(risk.checkPreTrade(makeSignal({ size: 0.009 }), 0, { exposure })).toEqual([
+            false,
+            'ETH position 32.00 would exceed max 30',
+        ]);
+        // A DEX first leg sells on this signal, so it shrinks the long.
+        expect(
+            risk.checkPreTrade(makeSignal({ size: 0.009 }), 0, { exposure, leg1Venue: 'dex' }),
+        ).toEqual([true, 'OK']);
+    });
+
+    test('allows trades that reduce a position over the cap', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const risk = new RiskManager(new RiskLimits({ maxPositionPerToken: 30 }), 100);
+        const exposure = { ETH: -0.02 };
+
+        const buy = makeSignal({ size: 0.001 });
+        expect(risk.checkPreTrade(buy, 0, { exposure })).toEqual([true, 'OK']);
+        expect(risk.checkPreTrade(buy, 0, { exposure, leg1Venue: 'dex' })).toEqual([
+            false,
+            'ETH position 42.00 would exceed max 30',
+        ]);
+    });
+
+    test('prices worst-case loss by unwinding through the book', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const limits = new RiskLimits({ maxTradeUsd: 5000, maxTradePct: 1, maxLossPerTrade: 5 });
+        const risk = new RiskManager(limits, 10_000);
+        const signal = makeSignal({ size: 1 });
+
+        // Exit at 1999.5 crosses 0.5, plus 2 of unwind fee and 0.1 of signal fees.
+        const deep = makeBook([[1999.5, 5]]);
+        expect(risk.worstCaseLoss(signal, { book: deep })).toBeCloseTo(2.6, 9);
+        expect(risk.checkPreTrade(signal, 0, { book: deep })).toEqual([true, 'OK']);
+
+        // Half the size exits at 1998 and half at 1990: average 1994.
+        const shallow = makeBook([
+            [1998, 0.5],
+            [1990, 1],
+        ]);
+        expect(risk.checkPreTrade(signal, 0, { book: shallow })).toEqual([
+            false,
+            'Worst-case loss 8.10 exceeds max 5',
+        ]);
+
+        expect(risk.checkPreTrade(signal, 0, { book: makeBook([[1998, 0.5]]) })).toEqual([
+            false,
+            'Book too thin to unwind 1 ETH/USDT',
+        ]);
+        expect(risk.checkPreTrade(signal)).toEqual([false, 'Worst-case loss 12.10 exceeds max 5']);
+    });
+
+    test('prices a DEX first leg by swapping back through the pool', () => {
+        now = at('2024-01-15T10:00:00Z');
+        const limits = new RiskLimits({ maxTradeUsd: 5000, maxTradePct: 1, maxLossPerTrade: 5 });
+        const risk = new RiskManager(limits, 10_000, { unwindGasCostUsd: 0.1 });
+        const WETH = new Token(
+            'WETH',
+            18,
+            new Address('0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'),
+        );
+        const USDT = new Token(
+            'USDT',
+            6,
+            new Address('0xdAC17F958D2ee523a2206206994597C13D831ec7'),
+        );
+        const pool = new UniswapV2Pair(
+            new Address('0x0d4a11d5EEaaC28EC3F61d100daF4d40471f1852'),
+            WETH,
+            USDT,
+            100n * 10n ** 18n,
+            200_000n * 10n ** 6n,
+        );
+        const deep = makeBook([[1999.5, 5]]);
+        const dexFirst = { book: deep, leg1Venue: 'dex' as const, pool, baseToken: WETH };
+
+        // Both LP fees and the impact of 1 ETH on a 100 ETH pool, each way, plus
+        // 0.1 of unwind gas and 0.1 of signal fees. The deep CEX book is irrelevant.
+        const buy = makeSignal({ size: 1, direction: Direction.BUY_DEX_SELL_CEX });
+        expect(risk.worstCaseLoss(buy, dexFirst)).toBeCloseTo(12.218, 3);
+        const sell = makeSignal({ size: 1 });
+        expect(risk.worstCaseLoss(sell, dexFirst)).toBeCloseTo(12.099, 3);
+        expect(risk.checkPreTrade(sell, 0, { book: deep })).toEqual([true, 'OK']);
+        expect(risk.checkPreTrade(sell, 0, dexFirst)).toEqual([
+            false,
+            'Worst-case loss 12.10 exceeds max 5',
+        ]);
+
+        const whale = makeSignal({ size: 100, cexPrice: 1, direction: Direction.BUY_DEX_SELL_CEX });
+        expect(risk.checkPreTrade(whale, 0, dexFirst)).toEqual([
+            false,
+            'Pool too thin to unwind 100 ETH/USDT',
+        ]);
+    });
+});
@@ -1,6 +1,9 @@
+import Decimal from 'decimal.js';
 import { Signal } from '../../src/strategy/signal';
-import { SignalScorer, InventorySkew } from '../../src/strategy/scorer';
+import { ExecutionOutcome, SignalScorer, InventorySkew } from '../../src/strategy/scorer';
 import { Direction } from '../../src/strategy/signal';
+import { NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
+import { Venue } from '../../src/inventory/tracker';
 
 const makeSignal = (
     overrides: Partial<ConstructorParameters<typeof Signal>[0]> & { pair?: string },
@@ -22,6 +25,27 @@ const makeSignal = (
         ...overrides,
     });
 
+const makeBook = (qty: number, stepBps: number): NormalizedOrderBook => {
+    const level = (price: number): [Decimal, Decimal] => [new Decimal(price), new Decimal(qty)];
+    const bids = [0, 1, 2].map((i) => level(99.95 * (1 - (i * stepBps) / 10_000)));
+    const asks = [0, 1, 2].map((i) => level(100.05 * (1 + (i * stepBps) / 10_000)));
+    return {
+        symbol: 'ETH/USDT',
+        timestamp: 0,
+        bids,
+        asks,
+        best_bid: bids[0],
+        best_ask: asks[0],
+        mid_price: new Decimal(100),
+        spread_bps: new Decimal(10),
+    };
+};
+
+const skewOf = (token: string, binance: number, wallet: number): InventorySkew => ({
+    token,
+    amounts: { [Venue.BINANCE]: new Decimal(binance), [Venue.WALLET]: new Decimal(wallet) },
+});
+
 describe('SignalScorer', () => {
     test('returns high score when spread is excellent', () => {
         const scorer = new SignalScorer();
@@ -56,4 +80,91 @@ describe('SignalScorer', () => {
 
         expect(decayed).toBeCloseTo(60, 1);
     });
+
+    test('scores deep books and pools above thin ones', () => {
+        const scorer = new SignalScorer();
+        const signal = makeSignal({ size: 2 });
+
+        const deep = scorer.score(signal, [], { book: makeBook(50, 2), poolReserveBase: 1_000 });
+        const thinBook = scorer.score(signal, [], {
+            book: makeBook(0.5, 40),
+            poolReserveBase: 1_000,
+        });
+        const thinPool = scorer.score(signal, [], { book: makeBook(50, 2), poolReserveBase: 30 });
+
+        expect(deep).toBeGreaterThan(thinBook);
+        expect(deep).toBeGreaterThan(thinPool);
+        expect(scorer.score(signal, [])).toBeGreaterThan(thinBook);
+    });
+
+    test('rewards trades that move inventory toward an even split', () => {
+        const scorer = new SignalScorer();
+        const buyOnCex = makeSignal({ size: 2, direction: Direction.BUY_CEX_SELL_DEX });
+        const buyOnDex = makeSignal({ size: 2, direction: Direction.BUY_DEX_SELL_CEX });
+        // ETH piled up in the wallet, USDT on Binance.
+        const skews = [skewOf('ETH', 2, 8), skewOf('USDT', 800, 200)];
+
+        const rebalancing = scorer.score(buyOnCex, skews);
+        const worsening = scorer.score(buyOnDex, skews);
+        const balanced = scorer.score(buyOnCex, [
+            skewOf('ETH', 20, 20),
+            skewOf('USDT', 2_000, 2_000),
+        ]);
+
+        expect(rebalancing).toBeGreaterThan(balanced);
+        expect(balanced).toBeGreaterThan(worsening);
+    });
+
+    describe('calibration', () => {
+        const outcome = (overrides: Partial<ExecutionOutcome> = {}): ExecutionOutcome => ({
+            pair: 'ETH/USDT',
+            direction: Direction.BUY_CEX_SELL_DEX,
+            notionalUsd: 100,
+            expectedNetPnl: 10,
+            realizedNetPnl: 4,
+            slippageBps: 6,
+            latencySeconds: 2,
+            success: true,
+            ...overrides,
+        });
+
+        test('aggregates expected vs realized per pair, direction and size bucket', () => {
+            const scorer = new SignalScorer();
+            for (let i = 0; i < 4; i++) scorer.recordOutcome(outcome());
+            scorer.recordOutcome(
+                outcome({ realizedNetPnl: -2, success: false, latencySeconds: 7 }),
+            );
+            scorer.recordOutcome(outcome({ notionalUsd: 2_000, realizedNetPnl: 12 }));
+
+            const small = scorer.calibration(makeSignal({ size: 1 }))!;
+            expect(small.bucket).toBe('ETH/USDT|buy_cex_sell_dex|0-1000');
+            expect(small.samples).toBe(5);
+            expect(small.successRate).toBeCloseTo(0.8);
+            expect(small.realizationRatio).toBeCloseTo(14 / 50);
+            expect(small.meanSlippageBps).toBeCloseTo(6);
+            expect(small.meanLatencySeconds).toBeCloseTo(3);
+            expect(small.haircut).toBe(0.5);
+
+            expect(scorer.calibration(makeSignal({ size: 20 }))?.haircut).toBe(1);
+            expect(scorer.calibrationReport().map((stats) => stats.bucket)).toEqual([
+                'ETH/USDT|buy_cex_sell_dex|0-1000',
+                'ETH/USDT|buy_cex_sell_dex|1000-5000',
+            ]);
+        });
+
+        test('haircuts scores of over-optimistic buckets only', () => {
+            const scorer = new SignalScorer();
+            const plain = new SignalScorer({ calibrationHaircut: false });
+            const signal = makeSignal({ size: 1 });
+            const other = makeSignal({ size: 1, direction: Direction.BUY_DEX_SELL_CEX });
+
+            for (let i = 0; i < 5; i++) {
+                scorer.recordOutcome(outcome({ realizedNetPnl: 7 }));
+                plain.recordOutcome(outcome({ realizedNetPnl: 7 }));
+            }
+
+            expect(scorer.score(signal, [])).toBeCloseTo(plain.score(signal, []) * 0.7, 0);
+            expect(scorer.score(other, [])).toBe(plain.score(other, []));
+        });
+    });
 });
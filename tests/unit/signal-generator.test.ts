@@ -1,15 +1,39 @@
 import Decimal from 'decimal.js';
 import { SignalGenerator } from '../../src/strategy/generator';
+import { PreTradeValidator } from '../../src/strategy/preTradeValidator';
 import { Direction, Signal } from '../../src/strategy/signal';
 import { FeeStructure } from '../../src/strategy/fees';
+import { FeeProvider } from '../../src/strategy/feeProvider';
 import { ExchangeClient } from '../../src/exchange/ExchangeClient';
 import { PricingEngine, Quote } from '../../src/pricing/PricingEngine';
 import { InventoryTracker, Venue } from '../../src/inventory/tracker';
 import { Route } from '../../src/pricing/Route';
+import { RouteFinder } from '../../src/pricing/RouteFinder';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+import { Address } from '../../src/core/types/Address';
 
 const dummyRoute = new Route([], []);
 const makeQuote = (out: bigint) => new Quote(dummyRoute, 0n, out, out, 100_000n, Date.now() / 1000);
 
+const ETH = new Token('ETH', 18, new Address('0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2'));
+const USDT = new Token('USDT', 6, new Address('0xdAC17F958D2ee523a2206206994597C13D831ec7'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    ETH,
+    USDT,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 6n,
+);
+const ARB = new Token('ARB', 18, new Address('0x5555555555555555555555555555555555555555'));
+const ETH_ARB = new UniswapV2Pair(
+    new Address('0x6666666666666666666666666666666666666666'),
+    ETH,
+    ARB,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 18n,
+);
+
 describe('SignalGenerator.generate', () => {
     const fees = new FeeStructure(10, 30, 5);
 
@@ -28,6 +52,12 @@ describe('SignalGenerator.generate', () => {
         pricingEngine = {
             fetchGasPriceGwei: jest.fn(),
             getQuote: jest.fn(),
+            getPool: jest.fn(),
+            findAllRoutes: jest.fn(),
+            getPools: jest.fn(),
+            simulatePoolArb: jest.fn(),
+            refreshPool: jest.fn(),
+            poolRefreshedAt: jest.fn(),
         } as unknown as jest.Mocked<PricingEngine>;
 
         inventory = {
@@ -127,4 +157,231 @@ describe('SignalGenerator.generate', () => {
 
         expect(signal?.direction).toBe(Direction.BUY_DEX_SELL_CEX);
     });
+
+    test('sizes_signal_with_solver_capped_by_inventory', async () => {
+        exchangeClient.fetchOrderBook.mockResolvedValue({
+            timestamp: 0,
+            bids: [[new Decimal(1949), new Decimal(100)]],
+            asks: [[new Decimal(1950), new Decimal(100)]],
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricingEngine.getPool.mockReturnValue(POOL);
+        pricingEngine.fetchGasPriceGwei.mockResolvedValue(1n);
+        pricingEngine.getQuote.mockImplementation(async (tokenIn, _tokenOut, amountIn) =>
+            makeQuote(
+                tokenIn.equals(ETH)
+                    ? (amountIn * 1990n) / 10n ** 12n
+                    : (amountIn * 10n ** 12n) / 2050n,
+            ),
+        );
+        inventory.getAvailable.mockImplementation((venue, asset) => {
+            if (venue === Venue.BINANCE && asset === 'USDT') return new Decimal(1000);
+            if (venue === Venue.WALLET && asset === 'ETH') return new Decimal(10);
+            return new Decimal(0);
+        });
+
+        const signal = await generator.generate('ETH/USDT');
+
+        expect(signal?.direction).toBe(Direction.BUY_CEX_SELL_DEX);
+        expect(signal?.size.toNumber()).toBeCloseTo(1000 / (1950 * 1.01), 6);
+        expect(signal?.inventoryOk).toBe(true);
+    });
+
+    test('prices_fees_from_fee_provider', async () => {
+        const feeProvider = {
+            feesFor: jest.fn().mockResolvedValue(new FeeStructure(5, 25, 1)),
+        } as unknown as jest.Mocked<FeeProvider>;
+        generator = new SignalGenerator(
+            exchangeClient,
+            pricingEngine,
+            inventory,
+            fees,
+            { cooldown_seconds: 0, min_profit_usd: 1 },
+            null,
+            feeProvider,
+        );
+        exchangeClient.fetchOrderBook.mockResolvedValue({
+            bids: [[new Decimal(100), new Decimal(10)]],
+            asks: [[new Decimal(101), new Decimal(10)]],
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricingEngine.fetchGasPriceGwei.mockResolvedValue(1n);
+        pricingEngine.getQuote
+            .mockResolvedValueOnce(makeQuote(575_000_000n))
+            .mockResolvedValueOnce(makeQuote(5_050_000_000_000_000_000n));
+        inventory.getAvailable.mockReturnValue(new Decimal(10_000));
+
+        const signal = await generator.generate('ETH/USDT', 5);
+
+        expect(feeProvider.feesFor).toHaveBeenCalledWith('ETH/USDT', ETH, USDT);
+        // The 25 bp pool fee is already in the quoted DEX price.
+        expect(signal?.expectedFees.toNumber()).toBeCloseTo(505 * 0.0005 + 1);
+    });
+
+    test('reports_cex_mid_and_pool_spot_for_feed_checks', async () => {
+        exchangeClient.fetchOrderBook.mockResolvedValue({
+            timestamp: 1_700_000_000_000,
+            bids: [[new Decimal(1999), new Decimal(1)]],
+            asks: [[new Decimal(2001), new Decimal(1)]],
+            mid_price: new Decimal(2000),
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricingEngine.getPool.mockReturnValue(POOL);
+        pricingEngine.poolRefreshedAt.mockReturnValue(1_700_000_005);
+
+        await expect(generator.fetchMidPrices('ETH/USDT')).resolves.toEqual({
+            cex: { price: 2000, timestamp: 1_700_000_000 },
+            dex: { price: 2000, timestamp: 1_700_000_005 },
+        });
+        expect(pricingEngine.refreshPool).toHaveBeenCalledWith(POOL.address);
+
+        pricingEngine.getPool.mockReturnValue(null);
+        exchangeClient.fetchOrderBook.mockRejectedValue(new Error('down'));
+        await expect(generator.fetchMidPrices('ETH/USDT')).resolves.toEqual({
+            cex: null,
+            dex: null,
+        });
+    });
+
+    test('feeds_go_stale_on_source_time_not_poll_time', async () => {
+        const now = 1_700_000_100;
+        const validator = new PreTradeValidator({ staleAfterSeconds: 30 });
+        exchangeClient.fetchOrderBook.mockResolvedValue({
+            timestamp: (now - 1) * 1000,
+            bids: [[new Decimal(1999), new Decimal(1)]],
+            asks: [[new Decimal(2001), new Decimal(1)]],
+            mid_price: new Decimal(2000),
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+        pricingEngine.getPool.mockReturnValue(POOL);
+        // Every refresh fails, so the reserves date from the initial load.
+        pricingEngine.poolRefreshedAt.mockReturnValue(now - 45);
+
+        const mids = await generator.fetchMidPrices('ETH/USDT');
+
+        expect(validator.checkFeeds('ETH/USDT', mids, now)).toEqual([
+            false,
+            'Stale DEX feed for ETH/USDT: 45.0s',
+        ]);
+
+        pricingEngine.poolRefreshedAt.mockReturnValue(now);
+        exchangeClient.fetchOrderBook.mockResolvedValue({
+            timestamp: (now - 40) * 1000,
+            bids: [[new Decimal(1999), new Decimal(1)]],
+            asks: [[new Decimal(2001), new Decimal(1)]],
+            mid_price: new Decimal(2000),
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any);
+
+        expect(
+            validator.checkFeeds('ETH/USDT', await generator.fetchMidPrices('ETH/USDT'), now),
+        ).toEqual([false, 'Stale CEX feed for ETH/USDT: 40.0s']);
+    });
+
+    test('reports_book_and_pool_base_reserve_for_scoring', async () => {
+        const book = {
+            bids: [[new Decimal(1999), new Decimal(1)]],
+            asks: [[new Decimal(2001), new Decimal(1)]],
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any;
+        exchangeClient.fetchOrderBook.mockResolvedValue(book);
+        pricingEngine.getPool.mockReturnValue(POOL);
+
+        await expect(generator.fetchLiquidity('ETH/USDT')).resolves.toEqual({
+            book,
+            poolReserveBase: 100,
+        });
+
+        pricingEngine.getPool.mockReturnValue(null);
+        exchangeClient.fetchOrderBook.mockRejectedValue(new Error('down'));
+        await expect(generator.fetchLiquidity('ETH/USDT')).resolves.toEqual({
+            book: null,
+            poolReserveBase: null,
+        });
+    });
+
+    test('generates_cycle_signals_through_multi_hop_routes', async () => {
+        generator = new SignalGenerator(exchangeClient, pricingEngine, inventory, fees, {
+            cooldown_seconds: 0,
+            min_profit_usd: 1,
+            tokenMap: {
+                ETH: ETH.address.checksum,
+                USDT: USDT.address.checksum,
+                ARB: ARB.address.checksum,
+            },
+        });
+        const routes = new RouteFinder([POOL, ETH_ARB]);
+        pricingEngine.findAllRoutes.mockImplementation((tokenIn, tokenOut, maxHops) =>
+            routes.findAllRoutes(tokenIn, tokenOut, maxHops),
+        );
+        exchangeClient.fetchOrderBook.mockImplementation(async (pair) => {
+            const [bid, ask] = pair === 'ARB/USDT' ? [1.05, 1.06] : [1999, 2001];
+            return {
+                timestamp: 0,
+                bids: [[new Decimal(bid), new Decimal(1_000_000)]],
+                asks: [[new Decimal(ask), new Decimal(1_000_000)]],
+                // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            } as any;
+        });
+        inventory.getAvailable.mockReturnValue(new Decimal(1_000_000));
+
+        const signals = await generator.generateCycles('USDT', ['ETH', 'ARB']);
+
+        expect(signals.length).toBeGreaterThan(0);
+        expect(signals[0].direction).toBe(Direction.CYCLE);
+        expect(signals[0].pair).toBe('USDT>ETH>ARB>USDT');
+        expect(signals[0].legs[signals[0].legs.length - 1]).toEqual(
+            expect.objectContaining({ venue: 'cex', pair: 'ARB/USDT', side: 'sell' }),
+        );
+        expect(signals[0].inventoryOk).toBe(true);
+        for (let i = 1; i < signals.length; i++) {
+            expect(signals[i - 1].expectedNetPnl.gte(signals[i].expectedNetPnl)).toBe(true);
+        }
+    });
+
+    test('generates_pool_arb_between_two_pools_of_a_pair', async () => {
+        const dear = new UniswapV2Pair(
+            new Address('0x7777777777777777777777777777777777777777'),
+            ETH,
+            USDT,
+            100n * 10n ** 18n,
+            220_000n * 10n ** 6n,
+        );
+        pricingEngine.getPools.mockReturnValue([POOL, dear]);
+        pricingEngine.simulatePoolArb.mockImplementation(
+            async (buyPool, sellPool, tokenIn, amountIn) => ({
+                success: true,
+                amountOut: sellPool.getAmountOut(buyPool.getAmountOut(amountIn, tokenIn), ETH),
+                gasUsed: 200_000n,
+                logs: [],
+            }),
+        );
+        inventory.getAvailable.mockReturnValue(new Decimal(1_000));
+
+        const signal = await generator.generatePoolArb('ETH/USDT');
+
+        expect(pricingEngine.simulatePoolArb).toHaveBeenCalledWith(
+            POOL,
+            dear,
+            USDT,
+            1_000n * 10n ** 6n,
+        );
+        expect(signal?.direction).toBe(Direction.DEX_ARB);
+        expect(signal?.legs.map((leg) => [leg.side, leg.pool])).toEqual([
+            ['buy', POOL.address.checksum],
+            ['sell', dear.address.checksum],
+        ]);
+        expect(signal?.expectedFees.toNumber()).toBe(10);
+        expect(signal?.expectedNetPnl.toNumber()).toBeGreaterThan(1);
+        expect(signal?.inventoryOk).toBe(true);
+
+        pricingEngine.simulatePoolArb.mockResolvedValue({
+            success: false,
+            amountOut: 0n,
+            gasUsed: 0n,
+            error: 'K',
+            logs: [],
+        });
+        await expect(generator.generatePoolArb('ETH/USDT')).resolves.toBeNull();
+    });
 });
@@ -0,0 +1,87 @@
+import Decimal from 'decimal.js';
+import { SizeSolver } from '../../src/strategy/sizing';
+import { FeeStructure } from '../../src/strategy/fees';
+import { Direction } from '../../src/strategy/signal';
+import { NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDC,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 6n,
+);
+
+const makeBook = (asks: [number, number][], bids: [number, number][]): NormalizedOrderBook => {
+    const toLevels = (levels: [number, number][]): [Decimal, Decimal][] =>
+        levels.map(([price, qty]) => [new Decimal(price), new Decimal(qty)]);
+    return {
+        symbol: 'WETH/USDC',
+        timestamp: 0,
+        bids: toLevels(bids),
+        asks: toLevels(asks),
+        best_bid: toLevels(bids)[0],
+        best_ask: toLevels(asks)[0],
+        mid_price: new Decimal((asks[0][0] + bids[0][0]) / 2),
+        spread_bps: new Decimal(0),
+    };
+};
+
+describe('SizeSolver', () => {
+    const solver = new SizeSolver(new FeeStructure(10, 30, 5));
+
+    test('matches the V2 closed form against a deep level', () => {
+        const book = makeBook([[1950, 100]], [[1949, 100]]);
+
+        const solution = solver.solve(Direction.BUY_CEX_SELL_DEX, book, POOL, WETH)!;
+
+        const gamma = 0.997;
+        const marginal = 1950 * 1.001;
+        const expected = (Math.sqrt((gamma * 100 * 200_000) / marginal) - 100) / gamma;
+        expect(solution.size).toBeCloseTo(expected, 9);
+        expect(solution.netPnl).toBeGreaterThan(0);
+
+        const smaller = solver.solve(Direction.BUY_CEX_SELL_DEX, book, POOL, WETH, expected * 0.9);
+        const looser = solver.solve(Direction.BUY_CEX_SELL_DEX, book, POOL, WETH, expected * 1.1);
+        expect(smaller!.netPnl).toBeLessThan(solution.netPnl);
+        expect(looser!.size).toBeCloseTo(expected, 9);
+    });
+
+    test('stops at the book level where the CEX gets too expensive', () => {
+        const book = makeBook(
+            [
+                [1950, 0.2],
+                [1995, 10],
+            ],
+            [[1949, 10]],
+        );
+
+        const solution = solver.solve(Direction.BUY_CEX_SELL_DEX, book, POOL, WETH)!;
+
+        expect(solution.size).toBeCloseTo(0.2, 9);
+        expect(solution.cexPrice).toBeCloseTo(1950);
+    });
+
+    test('solves the buy-on-DEX side and respects the size cap', () => {
+        const book = makeBook([[2051, 100]], [[2050, 100]]);
+
+        const free = solver.solve(Direction.BUY_DEX_SELL_CEX, book, POOL, WETH)!;
+        const capped = solver.solve(Direction.BUY_DEX_SELL_CEX, book, POOL, WETH, 0.1)!;
+
+        const expected = 100 - Math.sqrt((200_000 * 100) / (0.997 * 2050 * 0.999));
+        expect(free.size).toBeCloseTo(expected, 9);
+        expect(capped.size).toBe(0.1);
+    });
+
+    test('returns null when the first level already has no edge', () => {
+        const book = makeBook([[2010, 100]], [[1990, 100]]);
+
+        expect(solver.solve(Direction.BUY_CEX_SELL_DEX, book, POOL, WETH)).toBeNull();
+        expect(solver.solve(Direction.BUY_DEX_SELL_CEX, book, POOL, WETH)).toBeNull();
+    });
+});
@@ -0,0 +1,104 @@
+import Decimal from 'decimal.js';
+import { SlicePlanner } from '../../src/executor/slicing';
+import { BinanceLeg } from '../../src/executor/binanceLeg';
+import { UniswapV2Leg } from '../../src/executor/uniswapV2Leg';
+import { SignalVenues } from '../../src/executor/venues';
+import { ExchangeClient, NormalizedOrderBook } from '../../src/exchange/ExchangeClient';
+import { PricingEngine } from '../../src/pricing/PricingEngine';
+import { Address } from '../../src/core/types/Address';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+import { Direction } from '../../src/strategy/signal';
+
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDC,
+    100n * 10n ** 18n,
+    203_000n * 10n ** 6n,
+);
+
+const makeBook = (asks: [number, number][], bids: [number, number][]): NormalizedOrderBook => {
+    const toSide = (levels: [number, number][]) =>
+        levels.map(([p, q]) => [new Decimal(p), new Decimal(q)] as [Decimal, Decimal]);
+    return {
+        symbol: 'ETH/USDC',
+        timestamp: 1_700_000_000_000,
+        bids: toSide(bids),
+        asks: toSide(asks),
+        best_bid: toSide(bids)[0],
+        best_ask: toSide(asks)[0],
+        mid_price: new Decimal((asks[0][0] + bids[0][0]) / 2),
+        spread_bps: new Decimal(5),
+    };
+};
+
+const makeVenues = (book: NormalizedOrderBook): SignalVenues => {
+    const exchange = {
+        fetchOrderBook: jest.fn().mockResolvedValue(book),
+    } as unknown as ExchangeClient;
+    const pricing = {
+        getPool: jest.fn().mockReturnValue(POOL),
+        refreshPool: jest.fn().mockResolvedValue(undefined),
+    } as unknown as PricingEngine;
+
+    return {
+        cex: new BinanceLeg(exchange, null, { depthBps: 10 }),
+        dex: new UniswapV2Leg(pricing, null, { maxImpactPct: 1n, tokens: { WETH, USDC } }),
+    };
+};
+
+describe('SlicePlanner', () => {
+    test('caps the slice at CEX depth within the band', async () => {
+        const planner = new SlicePlanner({ minEdgeBps: 0 });
+        const book = makeBook(
+            [
+                [2000, 0.3],
+                [2001, 0.2],
+                [2010, 5],
+            ],
+            [[1999, 5]],
+        );
+
+        const plan = await planner.plan(
+            1,
+            Direction.BUY_CEX_SELL_DEX,
+            'WETH/USDC',
+            makeVenues(book),
+        );
+
+        expect(plan?.size).toBeCloseTo(0.5);
+        expect(plan?.cexPrice.toNumber()).toBeCloseTo((2000 * 0.3 + 2001 * 0.2) / 0.5);
+        expect(plan?.edgeBps).toBeGreaterThan(0);
+        expect(plan?.timestamp).toBe(book.timestamp);
+    });
+
+    test('caps the slice at the DEX size for the impact limit', async () => {
+        const planner = new SlicePlanner({ minEdgeBps: 0 });
+        const book = makeBook([[2000, 50]], [[1999, 50]]);
+
+        const plan = await planner.plan(
+            10,
+            Direction.BUY_CEX_SELL_DEX,
+            'WETH/USDC',
+            makeVenues(book),
+        );
+
+        expect(plan).not.toBeNull();
+        expect(plan!.size).toBeLessThan(10);
+        expect(
+            POOL.getPriceImpact(BigInt(Math.floor(plan!.size * 1e18)), WETH),
+        ).toBeLessThanOrEqual(10n ** 16n);
+    });
+
+    test('returns null once the re-quoted edge is below the minimum', async () => {
+        const planner = new SlicePlanner({ minEdgeBps: 10 });
+        const book = makeBook([[2030, 5]], [[2029, 5]]);
+
+        await expect(
+            planner.plan(1, Direction.BUY_CEX_SELL_DEX, 'WETH/USDC', makeVenues(book)),
+        ).resolves.toBeNull();
+    });
+});
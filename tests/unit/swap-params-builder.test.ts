@@ -0,0 +1,88 @@
+import { SwapParamsBuilder } from '../../src/pricing/SwapParamsBuilder';
+import { Quote } from '../../src/pricing/PricingEngine';
+import { Address } from '../../src/core/types/Address';
+import { Route } from '../../src/pricing/Route';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const RECIPIENT = new Address('0x1111111111111111111111111111111111111111');
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+
+describe('SwapParamsBuilder', () => {
+    const pair = new UniswapV2Pair(
+        new Address('0x2222222222222222222222222222222222222222'),
+        WETH,
+        USDC,
+        100n * 10n ** 18n,
+        200_000n * 10n ** 6n,
+    );
+    const route = new Route([pair], [WETH, USDC]);
+
+    test('derives amountOutMin from the quote with default slippage', () => {
+        const builder = new SwapParamsBuilder();
+        const quote = new Quote(route, 10n ** 18n, 1_970_000_000n, 1_960_000_000n, 150_000n, 0);
+
+        const args = builder.fromQuote(quote, RECIPIENT);
+
+        expect(args.amountIn).toBe(10n ** 18n);
+        expect(args.amountOutMin).toBe(1_950_200_000n);
+        expect(args.path).toEqual([WETH.address.checksum, USDC.address.checksum]);
+        expect(args.to).toBe(RECIPIENT.checksum);
+    });
+
+    test('uses per-pair slippage in either token order', () => {
+        const builder = new SwapParamsBuilder({
+            defaultSlippageBps: 50,
+            pairSlippageBps: { 'ETH/USDC': 10, 'WETH/USDC': 20 },
+        });
+
+        expect(builder.slippageBps('ETH/USDC')).toBe(10);
+        expect(builder.slippageBps('usdc/weth')).toBe(20);
+        expect(builder.slippageBps('ETH/USDT')).toBe(50);
+        expect(builder.fromRoute(route, 10n ** 18n, 1_000_000n, RECIPIENT).amountOutMin).toBe(
+            998_000n,
+        );
+    });
+
+    test('applies fractional per-pair slippage', () => {
+        const builder = new SwapParamsBuilder({ pairSlippageBps: { 'WETH/USDC': 12.5 } });
+
+        expect(builder.minOutput(1_000_000n, 'WETH/USDC')).toBe(998_750n);
+        expect(builder.fromRoute(route, 10n ** 18n, 1_000_000n, RECIPIENT).amountOutMin).toBe(
+            998_750n,
+        );
+        expect(() => new SwapParamsBuilder({ defaultSlippageBps: NaN })).toThrow(
+            'Invalid slippage',
+        );
+    });
+
+    test('sets deadline relative to now', () => {
+        const builder = new SwapParamsBuilder({ deadlineSeconds: 30 });
+        expect(builder.deadline(1_700_000_000.7)).toBe(1_700_000_030n);
+    });
+
+    test('rejects zero expected output and invalid slippage', () => {
+        const builder = new SwapParamsBuilder();
+        expect(() => builder.minOutput(0n, 'ETH/USDC')).toThrow('Expected output must be positive');
+        expect(() => new SwapParamsBuilder({ defaultSlippageBps: 10_000 })).toThrow(
+            'Invalid slippage',
+        );
+    });
+
+    test('produces router call params for simulation', () => {
+        const builder = new SwapParamsBuilder();
+        const args = builder.fromRoute(route, 10n ** 18n, 1_000_000n, RECIPIENT);
+
+        const params = SwapParamsBuilder.toSwapParams(args);
+
+        expect(params.method).toBe('swapExactTokensForTokens');
+        expect(params.args).toEqual([
+            args.amountIn,
+            args.amountOutMin,
+            args.path,
+            args.to,
+            args.deadline,
+        ]);
+    });
+});
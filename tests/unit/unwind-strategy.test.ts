@@ -0,0 +1,72 @@
+import { UnwindStrategy } from '../../src/executor/unwind';
+
+describe('UnwindStrategy', () => {
+    test('falls back from aggressive limit to market for the remainder', async () => {
+        const strategy = new UnwindStrategy({ retryDelayMs: 0, attemptsPerStep: 1 });
+        const limit = jest.fn().mockResolvedValue({ filled: 0.6, price: 1995 });
+        const market = jest.fn().mockResolvedValue({ filled: 0.4, price: 1990 });
+
+        const outcome = await strategy.run(1, 'sell', 2000, {
+            aggressive_limit: limit,
+            market,
+        });
+
+        expect(market).toHaveBeenCalledWith(expect.closeTo(0.4, 9));
+        expect(outcome.flattened).toBe(true);
+        expect(outcome.attempts.map((a) => a.step)).toEqual(['aggressive_limit', 'market']);
+        expect(outcome.lossUsd).toBeCloseTo(0.6 * 5 + 0.4 * 10);
+        expect(outcome.error).toBeNull();
+    });
+
+    test('retries a failing step and splits the chunked step', async () => {
+        const strategy = new UnwindStrategy({
+            retryDelayMs: 0,
+            attemptsPerStep: 2,
+            chunks: 4,
+            steps: ['market', 'chunked'],
+        });
+        const market = jest.fn().mockRejectedValue(new Error('insufficient liquidity'));
+        const chunked = jest.fn().mockImplementation(async (size: number) => ({
+            filled: size,
+            price: 2010,
+        }));
+
+        const outcome = await strategy.run(2, 'buy', 2000, { market, chunked });
+
+        expect(market).toHaveBeenCalledTimes(2);
+        expect(chunked).toHaveBeenCalledTimes(4);
+        expect(chunked).toHaveBeenCalledWith(0.5);
+        expect(outcome.flattened).toBe(true);
+        expect(outcome.lossUsd).toBeCloseTo(20);
+    });
+
+    test('stops once the realized loss exceeds the maximum', async () => {
+        const strategy = new UnwindStrategy({ retryDelayMs: 0, maxLossUsd: 10, chunks: 2 });
+        const chunked = jest.fn().mockImplementation(async (size: number) => ({
+            filled: size,
+            price: 1950,
+        }));
+
+        const outcome = await strategy.run(1, 'sell', 2000, { chunked });
+
+        expect(chunked).toHaveBeenCalledTimes(1);
+        expect(outcome.flattened).toBe(false);
+        expect(outcome.remaining).toBeCloseTo(0.5);
+        expect(outcome.error).toBe('Unwind loss 25.00 exceeds max 10');
+    });
+
+    test('reports the last error when every step is exhausted', async () => {
+        const strategy = new UnwindStrategy({ retryDelayMs: 0 });
+
+        const outcome = await strategy.run(1, 'buy', 2000, {
+            market: jest.fn().mockResolvedValue({ filled: 0, price: 0, error: 'reverted' }),
+            alt_pool: jest
+                .fn()
+                .mockResolvedValue({ filled: 0, price: 0, error: 'No alternative pool' }),
+        });
+
+        expect(outcome.flattened).toBe(false);
+        expect(outcome.attempts).toHaveLength(4);
+        expect(outcome.error).toBe('alt_pool: No alternative pool');
+    });
+});
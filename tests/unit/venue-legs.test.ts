@@ -0,0 +1,372 @@
+import Decimal from 'decimal.js';
+import { BinanceLeg } from '../../src/executor/binanceLeg';
+import { UniswapV2Leg } from '../../src/executor/uniswapV2Leg';
+import { FillSimulator } from '../../src/executor/simulation';
+import { DexSwapper } from '../../src/executor/dexSwap';
+import { TimeoutError, waitFor } from '../../src/executor/venues';
+import { ExchangeClient } from '../../src/exchange/ExchangeClient';
+import { PricingEngine, Quote } from '../../src/pricing/PricingEngine';
+import { Address } from '../../src/core/types/Address';
+import { TransactionReceipt } from '../../src/core/types/TransactionReceipt';
+import { Route } from '../../src/pricing/Route';
+import { Token } from '../../src/pricing/Token';
+import { UniswapV2Pair } from '../../src/pricing/UniswapV2Pair';
+
+const WETH = new Token('WETH', 18, new Address('0x3333333333333333333333333333333333333333'));
+const USDC = new Token('USDC', 6, new Address('0x4444444444444444444444444444444444444444'));
+const POOL = new UniswapV2Pair(
+    new Address('0x2222222222222222222222222222222222222222'),
+    WETH,
+    USDC,
+    100n * 10n ** 18n,
+    200_000n * 10n ** 6n,
+);
+const ALT_POOL = new UniswapV2Pair(
+    new Address('0x7777777777777777777777777777777777777777'),
+    WETH,
+    USDC,
+    50n * 10n ** 18n,
+    101_000n * 10n ** 6n,
+);
+
+const book = {
+    symbol: 'WETH/USDC',
+    timestamp: 1_000,
+    bids: [[new Decimal(1999), new Decimal(1)]],
+    asks: [
+        [new Decimal(2000), new Decimal(0.5)],
+        [new Decimal(2001), new Decimal(0.3)],
+        [new Decimal(2010), new Decimal(10)],
+    ],
+    best_bid: [new Decimal(1999), new Decimal(1)],
+    best_ask: [new Decimal(2000), new Decimal(0.5)],
+    mid_price: new Decimal(1999.5),
+    spread_bps: new Decimal(5),
+};
+
+const order = {
+    id: 'sig-1',
+    pair: 'WETH/USDC',
+    side: 'buy' as const,
+    size: 1,
+    price: 2000,
+    limitPrice: 2001,
+};
+
+describe('BinanceLeg', () => {
+    let exchange: jest.Mocked<ExchangeClient>;
+
+    beforeEach(() => {
+        exchange = {
+            fetchOrderBook: jest.fn().mockResolvedValue(book),
+        } as unknown as jest.Mocked<ExchangeClient>;
+    });
+
+    test('quotes the walked price with capacity inside the depth band', async () => {
+        const leg = new BinanceLeg(exchange, null, { depthBps: 10 });
+
+        const quote = await leg.quote('WETH/USDC', 'buy', 1);
+
+        expect(quote!.touch).toBe(2000);
+        expect(quote!.capacity).toBeCloseTo(0.8);
+        expect(quote!.price).toBeCloseTo((2000 * 0.5 + 2001 * 0.3 + 2010 * 0.2) / 1);
+        expect(quote!.timestamp).toBe(1_000);
+    });
+
+    test('fills through the simulator up to the limit price', async () => {
+        const pricing = {} as unknown as PricingEngine;
+        const leg = new BinanceLeg(
+            exchange,
+            new FillSimulator(exchange, pricing, { cexTakerFeeBps: 10 }),
+        );
+
+        const result = await leg.execute(order);
+
+        expect(result.filled).toBeCloseTo(0.8);
+        expect(result.reference).toBeUndefined();
+        expect(result.fees!.cex).toBeCloseTo(((2000 * 0.5 + 2001 * 0.3) * 10) / 10_000);
+    });
+
+    test('finds an order whose create request timed out by its client id', async () => {
+        exchange.createLimitIocOrder = jest.fn().mockReturnValue(new Promise(() => undefined));
+        exchange.cancelOrderByClientId = jest.fn().mockRejectedValue(new Error('Unknown order'));
+        exchange.fetchOrderByClientId = jest.fn().mockResolvedValue({
+            id: 'ord-9',
+            status: 'filled',
+            amount_filled: new Decimal(1),
+            avg_fill_price: new Decimal(2000.5),
+            fee: new Decimal(0),
+            fee_asset: 'USDC',
+        });
+        const leg = new BinanceLeg(exchange, null, { orderTimeout: 0 });
+        const onSubmitted = jest.fn();
+
+        const result = await leg.execute({ ...order, id: 'ETHUSDT_1a2b3c4d_s1', onSubmitted });
+
+        expect(exchange.createLimitIocOrder).toHaveBeenCalledWith(
+            'WETH/USDC',
+            'buy',
+            1,
+            2001,
+            'ETHUSDT_1a2b3c4d_s1',
+        );
+        expect(exchange.cancelOrderByClientId).toHaveBeenCalledWith(
+            'ETHUSDT_1a2b3c4d_s1',
+            'WETH/USDC',
+        );
+        expect(onSubmitted).toHaveBeenCalledWith('ord-9');
+        expect(result).toMatchObject({
+            success: true,
+            filled: 1,
+            price: 2000.5,
+            reference: 'ord-9',
+        });
+    });
+
+    test('reports the timeout when the exchange never saw the order', async () => {
+        exchange.createLimitIocOrder = jest.fn().mockReturnValue(new Promise(() => undefined));
+        exchange.cancelOrderByClientId = jest.fn().mockRejectedValue(new Error('Unknown order'));
+        exchange.fetchOrderByClientId = jest
+            .fn()
+            .mockRejectedValue(new Error('Order does not exist'));
+        const leg = new BinanceLeg(exchange, null, { orderTimeout: 0 });
+
+        await expect(leg.execute(order)).rejects.toBeInstanceOf(TimeoutError);
+    });
+});
+
+describe('waitFor', () => {
+    afterEach(() => jest.useRealTimers());
+
+    test('clears its timer once the promise settles', async () => {
+        jest.useFakeTimers();
+
+        await expect(waitFor(Promise.resolve('done'), 60)).resolves.toBe('done');
+        await expect(waitFor(Promise.reject(new Error('boom')), 60)).rejects.toThrow('boom');
+
+        expect(jest.getTimerCount()).toBe(0);
+    });
+});
+
+describe('UniswapV2Leg', () => {
+    let pricing: jest.Mocked<PricingEngine>;
+
+    beforeEach(() => {
+        pricing = {
+            getPool: jest.fn().mockReturnValue(POOL),
+            getPools: jest.fn().mockReturnValue([POOL, ALT_POOL]),
+            refreshPool: jest.fn().mockResolvedValue(undefined),
+            fetchGasPriceGwei: jest.fn().mockResolvedValue(1n),
+            getQuote: jest.fn(),
+            quoteRoute: jest.fn(),
+        } as unknown as jest.Mocked<PricingEngine>;
+    });
+
+    test('quotes buys exact-out with capacity in base units', async () => {
+        const leg = new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } });
+
+        const quote = await leg.quote('WETH/USDC', 'buy', 1);
+
+        expect(quote!.price).toBeCloseTo(Number(POOL.getAmountIn(10n ** 18n, WETH)) / 1e6);
+        expect(quote!.touch).toBeCloseTo(2000);
+        expect(quote!.capacity).toBeGreaterThan(0);
+        expect(quote!.capacity).toBeLessThan(1);
+    });
+
+    test('rejects post-only orders and unknown pairs', async () => {
+        const leg = new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } });
+
+        await expect(leg.execute({ ...order, mode: 'post_only' })).resolves.toMatchObject({
+            success: false,
+            error: 'Post-only not supported on DEX',
+        });
+        await expect(leg.quote('BTC/USDC', 'sell', 1)).rejects.toThrow('Unsupported DEX pair');
+    });
+
+    test('refuses bundle orders without a bundle submitter', async () => {
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn(),
+            signSwap: jest.fn(),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const leg = new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } }, swapper, null);
+
+        const result = await leg.execute({ ...order, mode: 'bundle' });
+
+        expect(result).toMatchObject({ success: false, error: 'Bundle submitter not configured' });
+        expect(pricing.getQuote).not.toHaveBeenCalled();
+        expect(swapper.swap).not.toHaveBeenCalled();
+        expect(swapper.signSwap).not.toHaveBeenCalled();
+    });
+
+    test('sends one live swap at a time so nonces never collide', async () => {
+        const route = new Route([POOL], [USDC, WETH]);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(route, 2_001_000_000n, 10n ** 18n, 10n ** 18n, 150_000n, Date.now() / 1000),
+        );
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockImplementation(async () => {
+                inFlight += 1;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                inFlight -= 1;
+                if (swapper.swap.mock.calls.length === 1) throw new Error('nonce too low');
+                return { txHash: '0xabc', amountIn: 2_001_000_000n, amountOut: 10n ** 18n };
+            }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const leg = new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } }, swapper, null);
+
+        const [first, second, third] = await Promise.all([
+            leg.execute(order),
+            leg.execute({ ...order, id: 'sig-2' }),
+            leg.execute({ ...order, id: 'sig-3' }),
+        ]);
+
+        expect(maxInFlight).toBe(1);
+        expect(first).toMatchObject({ success: false, error: 'nonce too low' });
+        expect(second).toMatchObject({ success: true, filled: 1 });
+        expect(third).toMatchObject({ success: true, filled: 1 });
+    });
+
+    test('simulated and live swaps set the same minimum output', async () => {
+        const amountIn = 2_001_000_000n;
+        const route = new Route([POOL], [USDC, WETH]);
+        const quoted = route.getOutput(amountIn);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(route, amountIn, quoted, quoted, 150_000n, Date.now() / 1000),
+        );
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockResolvedValue({ txHash: '0xabc', amountIn, amountOut: quoted }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const simulator = new FillSimulator({} as ExchangeClient, pricing, { dexLatencyMs: 0 });
+        const fillDex = jest.spyOn(simulator, 'fillDex');
+
+        await new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } }, swapper).execute(order);
+        await new UniswapV2Leg(pricing, simulator, { tokens: { WETH, USDC } }).execute(order);
+
+        const live = swapper.swap.mock.calls[0][1].amountOutMin;
+        expect(live).toBe((quoted * 9_950n) / 10_000n);
+        expect(fillDex).toHaveBeenCalledWith(USDC, WETH, amountIn, live, undefined);
+    });
+
+    test('charges a recovered receipt the fee reported at submission', async () => {
+        const amountIn = 2_001_000_000n;
+        const stablePool = new UniswapV2Pair(
+            new Address('0x9999999999999999999999999999999999999999'),
+            WETH,
+            USDC,
+            100n * 10n ** 18n,
+            200_000n * 10n ** 6n,
+            5n,
+        );
+        const route = new Route([stablePool], [USDC, WETH]);
+        const quoted = route.getOutput(amountIn);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(route, amountIn, quoted, quoted, 150_000n, Date.now() / 1000),
+        );
+        const fill = { txHash: '0xabc', amountIn, amountOut: quoted };
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockImplementation(async (_r, _a, onSubmitted) => {
+                onSubmitted?.('0xabc');
+                return fill;
+            }),
+            fetchFill: jest.fn().mockResolvedValue(fill),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const leg = new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } }, swapper);
+        const onSubmitted = jest.fn();
+
+        const live = await leg.execute({ ...order, onSubmitted });
+        const [reference, feeBps] = onSubmitted.mock.calls[0];
+        const recovered = await leg.fetchFill({ ...order, feeBps }, reference);
+
+        expect(feeBps).toBe(5);
+        expect(recovered.fees).toEqual(live.fees);
+    });
+
+    test('trades a pinned pool instead of the best route', async () => {
+        const amountIn = 2_001_000_000n;
+        const route = new Route([ALT_POOL], [USDC, WETH]);
+        const quoted = route.getOutput(amountIn);
+        pricing.quoteRoute.mockResolvedValue(
+            new Quote(route, amountIn, quoted, quoted, 150_000n, Date.now() / 1000),
+        );
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockResolvedValue({ txHash: '0xabc', amountIn, amountOut: quoted }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const simulator = new FillSimulator({} as ExchangeClient, pricing, { dexLatencyMs: 0 });
+        const pinned = { ...order, pool: ALT_POOL.address.checksum };
+
+        await new UniswapV2Leg(pricing, null, { tokens: { WETH, USDC } }, swapper).execute(pinned);
+        const simulated = await new UniswapV2Leg(pricing, simulator, {
+            tokens: { WETH, USDC },
+        }).execute(pinned);
+        const missing = await new UniswapV2Leg(pricing, simulator, {
+            tokens: { WETH, USDC },
+        }).execute({ ...order, pool: '0x8888888888888888888888888888888888888888' });
+
+        expect(pricing.getQuote).not.toHaveBeenCalled();
+        expect(pricing.quoteRoute.mock.calls[0][0].pools).toEqual([ALT_POOL]);
+        expect(swapper.swap.mock.calls[0][0].pools).toEqual([ALT_POOL]);
+        expect(simulated.filled).toBeCloseTo(Number(quoted) / 1e18);
+        expect(missing).toMatchObject({ success: false });
+        expect(missing.error).toMatch(/^No pool 0x8888/);
+    });
+
+    test('prices receipt gas through ETH/USD on non-ETH pairs', async () => {
+        const ARB = new Token('ARB', 18, new Address('0x5555555555555555555555555555555555555555'));
+        const route = new Route([], [USDC, ARB]);
+        pricing.getQuote.mockResolvedValue(
+            new Quote(route, 1_000_000n, 10n ** 18n, 10n ** 18n, 150_000n, Date.now() / 1000),
+        );
+        const swapper = {
+            address: new Address('0x1111111111111111111111111111111111111111'),
+            swap: jest.fn().mockResolvedValue({
+                txHash: '0xabc',
+                amountIn: 1_000_000n,
+                amountOut: 10n ** 18n,
+                receipt: new TransactionReceipt({
+                    txHash: '0xabc',
+                    blockNumber: 102,
+                    status: true,
+                    gasUsed: 100_000n,
+                    effectiveGasPrice: 10_000_000_000n,
+                    logs: [],
+                }),
+            }),
+        } as unknown as jest.Mocked<DexSwapper>;
+        const arbOrder = { ...order, pair: 'ARB/USDC', price: 1, limitPrice: 1 };
+        const ethUsd = { fetchEthUsd: jest.fn().mockResolvedValue(2500) };
+
+        const priced = await new UniswapV2Leg(
+            pricing,
+            null,
+            { tokens: { ARB, USDC }, ethUsd },
+            swapper,
+        ).execute(arbOrder);
+        const unpriced = await new UniswapV2Leg(
+            pricing,
+            null,
+            { tokens: { ARB, USDC }, gasCostUsd: 0.3 },
+            swapper,
+        ).execute(arbOrder);
+
+        // A WETH/ARB hop's fill price is ETH in ARB, not USD.
+        const hop = await new UniswapV2Leg(
+            pricing,
+            null,
+            { tokens: { WETH, ARB }, gasCostUsd: 0.3 },
+            swapper,
+        ).execute({ ...order, pair: 'WETH/ARB', side: 'sell', price: 1, limitPrice: 1 });
+
+        // 100k gas at 10 gwei is 0.001 ETH.
+        expect(priced.fees!.gas).toBeCloseTo(2.5);
+        expect(unpriced.fees!.gas).toBe(0.3);
+        expect(hop.fees!.gas).toBe(0.3);
+    });
+});